@@ -0,0 +1,171 @@
+/**
+ * Chat Handler
+ *
+ * Server side of the chat proxy: validates the request, picks the provider
+ * configured in the server environment (API keys never reach the browser),
+ * and returns the same LLMResponse the in-browser providers produce. Tool
+ * calls are returned, not executed - the client applies them to its store.
+ */
+
+import type { ChatTurn, LLMProvider, LLMProviderId, LLMResponse, LLMSendOptions, LLMSettings, ReasoningEffort, ToolRound } from '../src/types';
+import { createOpenAIProvider } from '../src/services/llm/openai';
+import { createGeminiProvider } from '../src/services/llm/gemini';
+import { demoProvider } from '../src/services/llm/demo';
+import { LLMError } from '../src/services/llm/errors';
+import { sendWithFallback } from '../src/services/llm/send';
+import { REASONING_EFFORTS } from '../src/services/llm/capabilities';
+import { MAX_TOOL_ROUNDS } from '../src/services/llm/loop';
+import { deserializeConfig } from '../src/config/serialization';
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export type ServerEnv = Record<string, string | undefined>;
+
+const SERVER_PROVIDERS: LLMProviderId[] = ['openai', 'gemini', 'local', 'demo'];
+
+const DEFAULT_MODELS: Partial<Record<LLMProviderId, string>> = {
+  openai: 'gpt-5.1-2025-11-13',
+  gemini: 'gemini-2.5-flash',
+  local: 'llama3.1',
+};
+
+// Bounds on what a single request may cost
+const MAX_MESSAGE_LENGTH = 2000;
+const MAX_HISTORY_TURNS = 20;
+const MAX_TOOL_CALLS = 10;
+const MAX_TOOL_RESULT_LENGTH = 4000;
+
+export interface ChatServerConfig {
+  settings: LLMSettings;
+  keys: { openai?: string; gemini?: string; local?: string };
+}
+
+/**
+ * Provider settings from the server environment:
+ *
+ * LLM_PROVIDER            openai | gemini | local | demo (default: first with a key)
+ * OPENAI_API_KEY, GEMINI_API_KEY, LLM_API_KEY (local)
+ * LLM_BASE_URL, LLM_MODEL, LLM_REASONING_EFFORT, LLM_MAX_TOKENS
+ */
+export function readServerConfig(env: ServerEnv): ChatServerConfig {
+  const requested = env.LLM_PROVIDER as LLMProviderId | undefined;
+  const id = requested && SERVER_PROVIDERS.includes(requested)
+    ? requested
+    : env.OPENAI_API_KEY ? 'openai' : env.GEMINI_API_KEY ? 'gemini' : 'demo';
+  const effort = env.LLM_REASONING_EFFORT as ReasoningEffort | undefined;
+
+  return {
+    settings: {
+      provider: id,
+      baseURL: env.LLM_BASE_URL || (id === 'local' ? 'http://localhost:11434/v1' : ''),
+      model: env.LLM_MODEL || DEFAULT_MODELS[id] || '',
+      reasoningEffort: effort && REASONING_EFFORTS.includes(effort) ? effort : 'low',
+      maxTokens: Number(env.LLM_MAX_TOKENS) || 800,
+    },
+    keys: { openai: env.OPENAI_API_KEY, gemini: env.GEMINI_API_KEY, local: env.LLM_API_KEY },
+  };
+}
+
+function createProvider(settings: LLMSettings, keys: ChatServerConfig['keys']): LLMProvider {
+  switch (settings.provider) {
+    case 'openai':
+      if (!keys.openai) break;
+      return createOpenAIProvider({ id: 'openai', apiKey: keys.openai, settings });
+
+    case 'gemini':
+      if (!keys.gemini) break;
+      return createGeminiProvider({ apiKey: keys.gemini, settings });
+
+    case 'local':
+      // Local servers ignore the key, but the SDK requires one
+      return createOpenAIProvider({ id: 'local', apiKey: keys.local || 'local', settings });
+
+    default:
+      return demoProvider;
+  }
+
+  console.warn(`⚠️ No API key for ${settings.provider} - answering in demo mode`);
+  return demoProvider;
+}
+
+// =============================================================================
+// REQUEST HANDLING
+// =============================================================================
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+function readHistory(value: unknown): ChatTurn[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((turn): turn is ChatTurn =>
+      (turn?.role === 'user' || turn?.role === 'assistant') && isString(turn?.content))
+    .slice(-MAX_HISTORY_TURNS)
+    .map(turn => ({ role: turn.role, content: turn.content.slice(0, MAX_MESSAGE_LENGTH) }));
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Earlier rounds of the client's tool loop. Rounds with malformed calls or
+ * results are dropped; each call needs its result.
+ */
+function readToolRounds(value: unknown): ToolRound[] {
+  if (!Array.isArray(value)) return [];
+  return value.slice(0, MAX_TOOL_ROUNDS).flatMap((round): ToolRound[] => {
+    if (!isRecord(round) || !Array.isArray(round.calls) || !Array.isArray(round.results)) return [];
+    const calls = round.calls.slice(0, MAX_TOOL_CALLS)
+      .filter(call => isRecord(call) && isString(call.id) && isString(call.name) && isRecord(call.args)) as ToolRound['calls'];
+    const results = round.results
+      .filter(result => isRecord(result) && isString(result.callId) && isString(result.name) && isString(result.content)) as ToolRound['results'];
+    if (calls.length === 0 || !calls.every(call => results.some(result => result.callId === call.id))) return [];
+
+    return [{
+      message: isString(round.message) ? round.message.slice(0, MAX_MESSAGE_LENGTH) : '',
+      calls: calls.map(({ id, name, args }) => ({ id, name, args })),
+      results: results
+        .filter(result => calls.some(call => call.id === result.callId))
+        .map(({ callId, name, content }) => ({ callId, name, content: content.slice(0, MAX_TOOL_RESULT_LENGTH) })),
+    }];
+  });
+}
+
+/**
+ * Answers one chat request, streaming through the callbacks in `options`.
+ * Invalid bodies throw a 'bad-request' LLMError; an unreachable provider
+ * falls back to demo mode.
+ */
+export async function handleChat(
+  body: unknown,
+  { settings, keys }: ChatServerConfig,
+  options: LLMSendOptions = {}
+): Promise<LLMResponse> {
+  const data = (body ?? {}) as Record<string, unknown>;
+  if (!isString(data.message) || !data.message.trim() || data.message.length > MAX_MESSAGE_LENGTH) {
+    throw new LLMError('bad-request', settings.provider, 'Invalid chat message');
+  }
+
+  const request = {
+    message: data.message,
+    config: deserializeConfig(data.config).config,
+    history: readHistory(data.history),
+    savedConfigurationNames: Array.isArray(data.savedConfigurationNames)
+      ? data.savedConfigurationNames.filter(isString).slice(0, 50)
+      : [],
+    toolRounds: readToolRounds(data.toolRounds),
+  };
+
+  // The client may pick the reasoning effort and lower the token limit, never raise it
+  const tuning = (data.settings ?? {}) as Record<string, unknown>;
+  const effort = tuning.reasoningEffort as ReasoningEffort;
+  const maxTokens = Math.round(Number(tuning.maxTokens));
+  const active = createProvider({
+    ...settings,
+    reasoningEffort: REASONING_EFFORTS.includes(effort) ? effort : settings.reasoningEffort,
+    maxTokens: maxTokens > 0 ? Math.min(maxTokens, settings.maxTokens) : settings.maxTokens,
+  }, keys);
+
+  return sendWithFallback(active, request, options);
+}
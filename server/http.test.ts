@@ -0,0 +1,138 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ChatStreamEvent, LLMResponse } from '../src/types';
+import { CHAT_ROUTE, createChatMiddleware } from './http';
+import type { ServerEnv } from './chat';
+
+let server: Server | undefined;
+
+/**
+ * Serves the chat middleware (demo provider) on a free port; other paths
+ * answer 404
+ */
+async function start(env: ServerEnv = {}): Promise<string> {
+  const chat = createChatMiddleware({ LLM_PROVIDER: 'demo', ...env });
+  server = createServer((req, res) => {
+    chat(req, res, () => {
+      res.statusCode = 404;
+      res.end();
+    });
+  });
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}${CHAT_ROUTE}`;
+}
+
+function post(url: string, body: unknown, headers: Record<string, string> = {}) {
+  return fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+}
+
+const MESSAGE = { message: 'Hallo', history: [], savedConfigurationNames: [] };
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await new Promise(resolve => server?.close(resolve));
+  server = undefined;
+});
+
+describe('createChatMiddleware', () => {
+  it('passes other routes on', async () => {
+    const url = await start();
+    expect((await fetch(url.replace(CHAT_ROUTE, '/other'))).status).toBe(404);
+  });
+
+  it('only accepts POST', async () => {
+    const url = await start();
+    const res = await fetch(url);
+    expect(res.status).toBe(405);
+    expect(res.headers.get('allow')).toBe('POST');
+  });
+
+  it('answers a chat message and issues a session cookie', async () => {
+    const url = await start();
+    const res = await post(url, MESSAGE);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('set-cookie')).toMatch(/^bmw_chat_session=[\w-]+; Path=\/; HttpOnly; SameSite=Strict$/);
+    const body = await res.json() as LLMResponse;
+    expect(typeof body.message).toBe('string');
+    expect(Array.isArray(body.functionCalls)).toBe(true);
+  });
+
+  it('keeps an existing session cookie', async () => {
+    const url = await start();
+    const res = await post(url, MESSAGE, { Cookie: 'other=1; bmw_chat_session=abc' });
+    expect(res.headers.get('set-cookie')).toBeNull();
+  });
+
+  it('streams NDJSON events ending with done', async () => {
+    const url = await start();
+    const res = await post(url, { ...MESSAGE, stream: true });
+
+    expect(res.headers.get('content-type')).toContain('application/x-ndjson');
+    const events = (await res.text()).trim().split('\n').map(line => JSON.parse(line) as ChatStreamEvent);
+    expect(events.at(-1)?.type).toBe('done');
+  });
+
+  it('rejects invalid JSON, invalid messages and oversized bodies with 400', async () => {
+    const url = await start();
+
+    expect((await post(url, '{')).status).toBe(400);
+    expect((await post(url, { ...MESSAGE, message: '' })).status).toBe(400);
+    const oversized = await post(url, { ...MESSAGE, padding: 'x'.repeat(300 * 1024) }).catch(() => null);
+    // The server may close the connection before the whole body is sent
+    if (oversized) expect(oversized.status).toBe(400);
+  });
+
+  describe('rate limit', () => {
+    it('limits requests per session', async () => {
+      const url = await start({ CHAT_RATE_LIMIT: '2' });
+      const cookie = { Cookie: 'bmw_chat_session=abc' };
+
+      expect((await post(url, MESSAGE, cookie)).status).toBe(200);
+      expect((await post(url, MESSAGE, cookie)).status).toBe(200);
+      const limited = await post(url, MESSAGE, cookie);
+      expect(limited.status).toBe(429);
+      expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0);
+      expect(await limited.json()).toEqual({ error: 'rate-limit', message: 'Too many requests' });
+
+      // Another session from the same address still has its own allowance
+      expect((await post(url, MESSAGE, { Cookie: 'bmw_chat_session=def' })).status).toBe(200);
+    });
+
+    it('limits requests without a session cookie per client address', async () => {
+      const url = await start({ CHAT_RATE_LIMIT: '2', CHAT_ADDRESS_RATE_LIMIT: '3' });
+
+      for (let i = 0; i < 3; i++) {
+        expect((await post(url, MESSAGE)).status).toBe(200);
+      }
+      expect((await post(url, MESSAGE)).status).toBe(429);
+      // A session cookie does not lift the address limit
+      expect((await post(url, MESSAGE, { Cookie: 'bmw_chat_session=new' })).status).toBe(429);
+    });
+
+    it('ignores X-Forwarded-For unless the proxy is trusted', async () => {
+      const url = await start({ CHAT_ADDRESS_RATE_LIMIT: '1' });
+
+      expect((await post(url, MESSAGE, { 'X-Forwarded-For': '203.0.113.1' })).status).toBe(200);
+      expect((await post(url, MESSAGE, { 'X-Forwarded-For': '203.0.113.2' })).status).toBe(429);
+    });
+
+    it('limits by the address a trusted proxy saw', async () => {
+      const url = await start({ CHAT_ADDRESS_RATE_LIMIT: '1', CHAT_TRUST_PROXY: '1' });
+
+      // Only the last entry is the proxy's own view; earlier ones come from the client
+      expect((await post(url, MESSAGE, { 'X-Forwarded-For': '198.51.100.7, 203.0.113.1' })).status).toBe(200);
+      expect((await post(url, MESSAGE, { 'X-Forwarded-For': '198.51.100.8, 203.0.113.1' })).status).toBe(429);
+      expect((await post(url, MESSAGE, { 'X-Forwarded-For': '203.0.113.2' })).status).toBe(200);
+    });
+  });
+});
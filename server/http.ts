@@ -0,0 +1,168 @@
+/**
+ * Chat Proxy Route
+ *
+ * Node middleware for POST /api/chat, usable in the Vite dev/preview server
+ * and the standalone server. Each browser gets a session cookie, and
+ * requests are rate-limited per session and per client address, so
+ * dropping the cookie does not lift the limit. Requests with
+ * `stream: true` are answered with one ChatStreamEvent per line (NDJSON).
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import type { ChatProxyError, ChatProxyRequest, ChatStreamEvent, LLMErrorKind } from '../src/types';
+import { LLMError } from '../src/services/llm/errors';
+import { handleChat, readServerConfig, type ServerEnv } from './chat';
+import { createRateLimiter } from './rateLimit';
+
+export const CHAT_ROUTE = '/api/chat';
+
+const SESSION_COOKIE = 'bmw_chat_session';
+const MAX_BODY_BYTES = 256 * 1024;
+
+/** Status codes for errors; upstream failures are the gateway's, not the client's */
+const STATUS: Record<LLMErrorKind, number> = {
+  'bad-request': 400,
+  'rate-limit': 429,
+  'auth': 502,
+  'server': 502,
+  'network': 504,
+  'aborted': 499,
+};
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function readSession(req: IncomingMessage, res: ServerResponse): string {
+  const cookie = req.headers.cookie?.split(';')
+    .map(part => part.trim().split('='))
+    .find(([name]) => name === SESSION_COOKIE);
+  if (cookie?.[1]) return cookie[1];
+
+  const session = randomUUID();
+  res.setHeader('Set-Cookie', `${SESSION_COOKIE}=${session}; Path=/; HttpOnly; SameSite=Strict`);
+  return session;
+}
+
+/**
+ * Client address; behind a trusted reverse proxy, the address that proxy
+ * saw (the last X-Forwarded-For entry)
+ */
+function readClientAddress(req: IncomingMessage, trustProxy: boolean): string {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string') {
+    const address = forwarded.split(',').at(-1)?.trim();
+    if (address) return address;
+  }
+  return req.socket.remoteAddress ?? 'unknown';
+}
+
+async function readBody(req: IncomingMessage): Promise<unknown> {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new LLMError('bad-request', 'server', 'Request too large');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new LLMError('bad-request', 'server', 'Invalid JSON');
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-store');
+  res.end(JSON.stringify(body));
+}
+
+// =============================================================================
+// MIDDLEWARE
+// =============================================================================
+
+/**
+ * CHAT_RATE_LIMIT: requests per session and minute (default 20)
+ * CHAT_ADDRESS_RATE_LIMIT: requests per client address and minute (default 60)
+ * CHAT_TRUST_PROXY: set to 1 behind a reverse proxy that sets X-Forwarded-For
+ */
+export function createChatMiddleware(env: ServerEnv) {
+  const config = readServerConfig(env);
+  const sessionLimiter = createRateLimiter({ limit: Number(env.CHAT_RATE_LIMIT) || 20, windowMs: 60_000 });
+  const addressLimiter = createRateLimiter({ limit: Number(env.CHAT_ADDRESS_RATE_LIMIT) || 60, windowMs: 60_000 });
+  const trustProxy = env.CHAT_TRUST_PROXY === '1' || env.CHAT_TRUST_PROXY === 'true';
+  console.log(`🤖 Chat proxy: ${config.settings.provider}${config.settings.model ? ` (${config.settings.model})` : ''}`);
+
+  return async (req: IncomingMessage, res: ServerResponse, next?: () => void) => {
+    if (req.url?.split('?')[0] !== CHAT_ROUTE) {
+      next?.();
+      return;
+    }
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'POST');
+      sendJson(res, 405, { error: 'bad-request', message: 'Method not allowed' } satisfies ChatProxyError);
+      return;
+    }
+
+    // The address limit first: requests without a cookie get a new session each time
+    const addressLimit = addressLimiter.check(readClientAddress(req, trustProxy));
+    const limit = addressLimit.allowed ? sessionLimiter.check(readSession(req, res)) : addressLimit;
+    if (!limit.allowed) {
+      res.setHeader('Retry-After', String(limit.retryAfter));
+      sendJson(res, 429, { error: 'rate-limit', message: 'Too many requests' } satisfies ChatProxyError);
+      return;
+    }
+
+    // Stop the upstream request when the browser cancels
+    const abort = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) abort.abort();
+    });
+
+    // Streamed answers start on the first event; errors before it still get a status code
+    let streaming = false;
+    const write = (event: ChatStreamEvent) => {
+      if (!streaming) {
+        streaming = true;
+        res.statusCode = 200;
+        res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+        res.setHeader('Cache-Control', 'no-store');
+      }
+      res.write(JSON.stringify(event) + '\n');
+    };
+
+    try {
+      const body = await readBody(req);
+      const stream = (body as ChatProxyRequest | null)?.stream === true;
+      const response = await handleChat(body, config, {
+        signal: abort.signal,
+        ...(stream && {
+          onText: (delta) => write({ type: 'text', delta }),
+          onFunctionCall: (call) => write({ type: 'function_call', call }),
+        }),
+      });
+
+      if (stream) {
+        write({ type: 'done', response });
+        res.end();
+      } else {
+        sendJson(res, 200, response);
+      }
+    } catch (error) {
+      const llmError = error instanceof LLMError ? error : new LLMError('server', 'server');
+      if (!(error instanceof LLMError)) console.error('❌ Chat proxy error:', error);
+      if (res.writableEnded) return;
+
+      const body: ChatProxyError = { error: llmError.kind, message: llmError.message };
+      if (streaming) {
+        write({ type: 'error', ...body });
+        res.end();
+      } else {
+        sendJson(res, STATUS[llmError.kind], body);
+      }
+    }
+  };
+}
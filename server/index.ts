@@ -0,0 +1,79 @@
+/**
+ * Standalone Server
+ *
+ * Serves the built app (dist/) and the chat proxy. Build with
+ * `npm run build && npm run build:server`, start with `npm start`.
+ * Reads .env from the working directory; PORT defaults to 3000.
+ */
+
+import { createServer } from 'node:http';
+import { readFile } from 'node:fs/promises';
+import { extname, join, normalize } from 'node:path';
+import { createChatMiddleware } from './http';
+
+const DIST = join(process.cwd(), 'dist');
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.glb': 'model/gltf-binary',
+  '.gltf': 'model/gltf+json',
+  '.hdr': 'application/octet-stream',
+  '.woff2': 'font/woff2',
+};
+
+try {
+  process.loadEnvFile();
+} catch {
+  // No .env - use the process environment
+}
+
+const chat = createChatMiddleware(process.env);
+
+/**
+ * Static files from dist/; unknown paths get index.html (single-page app).
+ * Null for a path that is not valid percent-encoding.
+ */
+async function serveStatic(url: string): Promise<{ body: Buffer; type: string } | null> {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(url.split('?')[0]);
+  } catch {
+    return null;
+  }
+  const path = normalize(decoded).replace(/^(\.\.[/\\])+/, '');
+  const file = join(DIST, path === '/' ? 'index.html' : path);
+  try {
+    if (!file.startsWith(DIST)) throw new Error('Outside dist');
+    return { body: await readFile(file), type: CONTENT_TYPES[extname(file)] ?? 'application/octet-stream' };
+  } catch {
+    return { body: await readFile(join(DIST, 'index.html')), type: CONTENT_TYPES['.html'] };
+  }
+}
+
+const server = createServer((req, res) => {
+  chat(req, res, async () => {
+    try {
+      const file = await serveStatic(req.url ?? '/');
+      if (!file) {
+        res.statusCode = 400;
+        res.end();
+        return;
+      }
+      res.setHeader('Content-Type', file.type);
+      res.end(file.body);
+    } catch (error) {
+      console.error('❌ Static file error:', error);
+      res.statusCode = 500;
+      res.end();
+    }
+  });
+});
+
+const port = Number(process.env.PORT) || 3000;
+server.listen(port, () => console.log(`🚀 Server running on http://localhost:${port}`));
@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRateLimiter } from './rateLimit';
+
+describe('createRateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('allows up to the limit per window, then reports when to retry', () => {
+    const limiter = createRateLimiter({ limit: 2, windowMs: 60_000 });
+
+    expect(limiter.check('a')).toEqual({ allowed: true, retryAfter: 0 });
+    vi.setSystemTime(10_000);
+    expect(limiter.check('a')).toEqual({ allowed: true, retryAfter: 0 });
+    vi.setSystemTime(20_000);
+    expect(limiter.check('a')).toEqual({ allowed: false, retryAfter: 40 });
+  });
+
+  it('counts keys separately', () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 60_000 });
+
+    expect(limiter.check('a').allowed).toBe(true);
+    expect(limiter.check('b').allowed).toBe(true);
+    expect(limiter.check('a').allowed).toBe(false);
+  });
+
+  it('slides the window: requests older than windowMs no longer count', () => {
+    const limiter = createRateLimiter({ limit: 2, windowMs: 60_000 });
+    limiter.check('a');
+    vi.setSystemTime(30_000);
+    limiter.check('a');
+
+    vi.setSystemTime(59_999);
+    expect(limiter.check('a').allowed).toBe(false);
+    vi.setSystemTime(60_000);
+    expect(limiter.check('a').allowed).toBe(true);
+    expect(limiter.check('a')).toEqual({ allowed: false, retryAfter: 30 });
+  });
+
+  it('does not count denied requests', () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 60_000 });
+    limiter.check('a');
+    vi.setSystemTime(30_000);
+    limiter.check('a');
+
+    vi.setSystemTime(60_000);
+    expect(limiter.check('a').allowed).toBe(true);
+  });
+});
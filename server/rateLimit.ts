@@ -0,0 +1,43 @@
+/**
+ * Rate Limiter
+ *
+ * Sliding-window limit per key (chat session or client address), kept in
+ * memory.
+ */
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Seconds until the next request is allowed (0 if allowed) */
+  retryAfter: number;
+}
+
+export interface RateLimiter {
+  check: (key: string) => RateLimitResult;
+}
+
+export function createRateLimiter({ limit, windowMs }: { limit: number; windowMs: number }): RateLimiter {
+  const requests = new Map<string, number[]>();
+
+  return {
+    check(key) {
+      const now = Date.now();
+      const recent = (requests.get(key) ?? []).filter(time => now - time < windowMs);
+
+      if (recent.length >= limit) {
+        requests.set(key, recent);
+        return { allowed: false, retryAfter: Math.ceil((recent[0] + windowMs - now) / 1000) };
+      }
+
+      recent.push(now);
+      requests.set(key, recent);
+
+      // Drop idle keys now and then so the map does not grow forever
+      if (requests.size > 10_000) {
+        for (const [idle, times] of requests) {
+          if (times.every(time => now - time >= windowMs)) requests.delete(idle);
+        }
+      }
+      return { allowed: true, retryAfter: 0 };
+    },
+  };
+}
@@ -0,0 +1,22 @@
+/**
+ * Vite Plugin
+ *
+ * Mounts the chat proxy in the dev and preview servers, so `npm run dev`
+ * works without a separate backend.
+ */
+
+import type { Plugin } from 'vite';
+import { createChatMiddleware } from './http';
+import type { ServerEnv } from './chat';
+
+export function chatProxy(env: ServerEnv): Plugin {
+  return {
+    name: 'chat-proxy',
+    configureServer(server) {
+      server.middlewares.use(createChatMiddleware(env));
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(createChatMiddleware(env));
+    },
+  };
+}
@@ -12,8 +12,15 @@ import { ChatPanel } from './components/chat/ChatPanel';
 import { Header } from './components/ui/Header';
 import { ConfigSummary } from './components/ui/ConfigSummary';
 import { ValidationBadge, ValidationOverlay } from './components/ui/ValidationOverlay';
+import { ComparisonView } from './components/ui/ComparisonView';
+import { MeshInspector } from './components/ui/MeshInspector';
+import { useHistoryShortcuts } from './hooks/useHistoryShortcuts';
+import { useConfigDeepLink } from './hooks/useConfigDeepLink';
 
 function App() {
+  useHistoryShortcuts();
+  useConfigDeepLink();
+
   return (
     <div className="relative w-full h-screen bg-obsidian-950 overflow-hidden">
       {/* 3D Scene (background) */}
@@ -37,6 +44,12 @@ function App() {
         </div>
       </div>
 
+      {/* Comparison of two configurations (when open) */}
+      <ComparisonView />
+
+      {/* Mesh inspector (debug, when toggled) */}
+      <MeshInspector />
+
       {/* Validation Status Badge - Fixed position */}
       <ValidationBadge />
 
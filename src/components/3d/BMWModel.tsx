@@ -1,94 +1,39 @@
 /**
- * BMW M5 3D Model Component
+ * Car 3D Model Component
  *
- * Renders the car with configurable materials for color, wheels, etc.
- * Uses a GLB model loaded from the public folder.
+ * Renders the car with materials derived from the configuration: paint,
+ * hood pattern, rim finish, caliper colour, leather colour, interior trim
+ * and grille.
+ * Uses the GLB of the selected model from the registry (config/models.ts).
  *
- * Mesh categorization is based on original material names from the GLB file:
- * - Paint_Material → Body panels (receive exterior color)
- * - Window_Material → Glass/windows (transparent dark)
- * - RED_GLASS → Tail lights (red transparent)
- * - LightA_Material → Headlights
- * - Wheel1A_Material, mat_wheels, esr_cs1_gloss_black → Wheel rims
- * - Tire_Shader → Tires (black rubber)
- * - calipers, Callipers → Brake calipers
- * - InteriorA_Material, InteriorTilling → Interior parts
- * - Grille*_Material → Kidney grille
- * - BadgeA_Material → BMW badges (keep original - has roundel texture)
- * - Carbon1M_Material → Carbon fiber parts
- * - SeatBelt_Material → Seat belts
- * - EngineA_Material → Engine bay
- * - SpecularTintA_Material → Chrome/metal trim (window trim, door handles, exhaust tips)
- * - TexturedA_Material → Textured parts (keep original materials)
+ * Meshes are categorized by the model's mesh mapping (config/meshMappings.ts),
+ * keyed by the original mesh and material names in the GLB. The mesh
+ * inspector shows the category of a clicked part and collects corrections.
  */
 
 import { useRef, useEffect, useMemo } from 'react';
-import { useFrame } from '@react-three/fiber';
+import { useFrame, type ThreeEvent } from '@react-three/fiber';
 import { useGLTF } from '@react-three/drei';
 import * as THREE from 'three';
-import { useConfigStore } from '../../stores/configStore';
+import type { MeshCategory, MeshCategorySource } from '../../types';
+import { useConfigStore, selectSceneConfig } from '../../stores/configStore';
+import { DEFAULT_MODEL, getModel } from '../../config/models';
+import { applyMeshCorrections, resolveMeshCategory } from '../../config/meshMappings';
+import { createCategoryMaterials, disposeMaterials } from './materials';
+import { findWheelHubs, getWheelDesign, mountWheels } from './wheels';
+import { splitHood } from './hood';
 
 // =============================================================================
-// MESH CATEGORY DEFINITIONS
+// MESH CATEGORIES
 // =============================================================================
 
-type MeshCategory = 'body' | 'glass' | 'taillight' | 'headlight' | 'wheel' | 'tire' | 'caliper' | 'interior' | 'grille' | 'badge' | 'carbon' | 'chrome' | 'other';
-
-/**
- * Categorize a mesh based on its original material name
- */
-function categorizeMesh(materialName: string): MeshCategory {
-  const name = materialName.toLowerCase();
-
-  // Body paint - only Paint_Material should get body color
-  if (name.includes('paint_material')) return 'body';
-
-  // Glass/Windows
-  if (name.includes('window_material') || name === 'window') return 'glass';
-
-  // Tail lights (red glass)
-  if (name.includes('red_glass')) return 'taillight';
-
-  // Headlights
-  if (name.includes('lighta_material') || name.includes('light_material')) return 'headlight';
-
-  // Wheels (rims)
-  if (name.includes('wheel') || name.includes('mat_wheels') || name.includes('esr_cs1')) return 'wheel';
-
-  // Tires
-  if (name.includes('tire_shader') || name.includes('tire')) return 'tire';
-
-  // Brake calipers
-  if (name.includes('calliper') || name.includes('caliper')) return 'caliper';
-
-  // Interior
-  if (name.includes('interior') || name.includes('seatbelt')) return 'interior';
-
-  // Grille (kidney grille)
-  if (name.includes('grille')) return 'grille';
-
-  // Badge
-  if (name.includes('badge')) return 'badge';
-
-  // Carbon fiber
-  if (name.includes('carbon')) return 'carbon';
-
-  // Chrome/metal trim (window trim, door handles, exhaust tips, mirror caps)
-  if (name.includes('speculartint') || name.includes('chrome') ||
-      name.includes('exhaust') || name.includes('tip') ||
-      name.includes('trim') || name.includes('door_handle') ||
-      name.includes('mirror_cap') || name.includes('window_trim')) return 'chrome';
-
-  // Base material is usually body
-  if (name.includes('base_material')) return 'body';
-
-  // Engine, textured parts - keep original (these have baked textures/decals)
-  if (name.includes('engine') || name.includes('textured')) return 'other';
-
-  // TEX materials - usually misc parts with textures
-  if (name.startsWith('tex')) return 'other';
-
-  return 'other';
+interface CategorizedMesh {
+  category: MeshCategory;
+  source: MeshCategorySource;
+  /** Material from the GLB, shared with the cached original scene */
+  original: THREE.Material;
+  /** Body mesh whose hood triangles were split off into group 1 */
+  hasHood?: boolean;
 }
 
 // =============================================================================
@@ -96,227 +41,141 @@ function categorizeMesh(materialName: string): MeshCategory {
 // =============================================================================
 
 export function BMWModel() {
-  const config = useConfigStore((state) => state.config);
+  const config = useConfigStore(selectSceneConfig);
   const groupRef = useRef<THREE.Group>(null);
+  const { asset } = getModel(config.model);
+
+  // Load the model's GLB asset (BMW M5 from Get3DModels.com)
+  const { scene } = useGLTF(asset.url);
 
-  // Load the GLB model - BMW M5 from Get3DModels.com
-  const { scene } = useGLTF('/models/bmw-m5.glb');
+  // Asset mapping plus corrections made in the mesh inspector
+  const corrections = useConfigStore((state) => state.meshInspection.corrections[asset.url]);
+  const mapping = useMemo(() => applyMeshCorrections(asset.meshMapping, corrections), [asset.meshMapping, corrections]);
 
-  // Clone the scene to avoid mutating the cached original
-  const clonedScene = useMemo(() => {
-    return scene.clone(true);
-  }, [scene]);
+  // Clone the scene to avoid mutating the cached original, and categorize
+  // every mesh by its original mesh and material names
+  const { clonedScene, meshes, hubs } = useMemo(() => {
+    const clone = scene.clone(true);
+    const categorized = new Map<THREE.Object3D, CategorizedMesh>();
+    const unmapped = new Set<string>();
 
-  // Store original material names before any modifications
-  const originalMaterialNames = useMemo(() => {
-    const names = new Map<string, string>();
-    scene.traverse((child) => {
+    clone.traverse((child) => {
       if (child instanceof THREE.Mesh && child.material) {
-        const mat = child.material as THREE.MeshStandardMaterial;
-        names.set(child.name, mat.name || 'unnamed');
+        const original = child.material as THREE.Material;
+        const { category, source } = resolveMeshCategory(mapping, child.name, original.name || 'unnamed');
+        if (source === 'guess') unmapped.add(original.name || 'unnamed');
+        categorized.set(child, { category, source, original });
+        child.castShadow = true;
+        child.receiveShadow = true;
       }
     });
-    return names;
-  }, [scene]);
 
-  // Create materials based on config
-  const bodyMaterial = useMemo(() => {
-    return new THREE.MeshStandardMaterial({
-      color: config.color.hex,
-      metalness: config.color.type === 'frozen' ? 0.3 : 0.85,
-      roughness: config.color.type === 'frozen' ? 0.6 : 0.15,
-      envMapIntensity: 1.5,
-    });
-  }, [config.color]);
+    if (unmapped.size > 0) {
+      console.warn(`⚠️ Materials not in the mesh mapping for ${mapping.asset}, categories guessed:`, [...unmapped]);
+    }
 
-  // Apply materials to the model based on categories
-  useEffect(() => {
-    if (!clonedScene) return;
+    const meshesOf = (wanted: MeshCategory) => [...categorized].flatMap(([mesh, { category }]) =>
+      category === wanted && mesh instanceof THREE.Mesh ? [mesh] : []);
 
-    console.log('🎨 Applying color:', config.color.name, config.color.hex);
+    // Without a separate hood part, cut the hood out of the body paint
+    if (meshesOf('hood').length === 0) {
+      for (const mesh of splitHood(clone, meshesOf('body'), asset.hood)) {
+        categorized.get(mesh)!.hasHood = true;
+      }
+    }
 
-    // Category counters for debugging
-    const counts: Record<MeshCategory, number> = {
-      body: 0,
-      glass: 0,
-      taillight: 0,
-      headlight: 0,
-      wheel: 0,
-      tire: 0,
-      caliper: 0,
-      interior: 0,
-      grille: 0,
-      badge: 0,
-      carbon: 0,
-      chrome: 0,
-      other: 0,
-    };
+    return { clonedScene: clone, meshes: categorized, hubs: findWheelHubs(clone, meshesOf('wheel')) };
+  }, [scene, asset.hood, mapping]);
+
+  // One material per category, rebuilt when the configuration changes
+  const materials = useMemo(() => createCategoryMaterials(config), [config]);
+  useEffect(() => () => disposeMaterials(materials), [materials]);
+
+  // Badges with a roundel texture get a shinier clone of their original material
+  const badgeMaterials = useMemo(() => {
+    const enhanced = new Map<THREE.Object3D, THREE.Material>();
+    for (const [mesh, { category, original }] of meshes) {
+      if (category !== 'badge' || !(original instanceof THREE.MeshStandardMaterial) || !original.map) continue;
+      const badge = original.clone();
+      badge.metalness = Math.max(badge.metalness || 0, 0.9);
+      badge.roughness = Math.min(badge.roughness || 0.5, 0.1);
+      badge.envMapIntensity = 2;
+      enhanced.set(mesh, badge);
+    }
+    return enhanced;
+  }, [meshes]);
+  useEffect(() => () => badgeMaterials.forEach(material => material.dispose()), [badgeMaterials]);
 
+  // Apply materials to the model based on categories
+  useEffect(() => {
     clonedScene.traverse((child) => {
-      if (child instanceof THREE.Mesh && child.material) {
-        const meshName = child.name;
-        const originalMatName = originalMaterialNames.get(meshName) || 'unnamed';
-        const category = categorizeMesh(originalMatName);
-        counts[category]++;
-
-        // Store original material for potential preservation
-        const originalMaterial = child.material as THREE.MeshStandardMaterial;
-
-        // Apply appropriate material based on category
-        switch (category) {
-          case 'body':
-            // Body panels - apply configured exterior color
-            child.material = bodyMaterial;
-            break;
-
-          case 'glass':
-            // Windows - dark transparent glass
-            child.material = new THREE.MeshPhysicalMaterial({
-              color: '#111111',
-              metalness: 0,
-              roughness: 0,
-              transmission: 0.9,
-              thickness: 0.5,
-              transparent: true,
-              opacity: 0.3,
-            });
-            break;
-
-          case 'taillight':
-            // Tail lights - red transparent
-            child.material = new THREE.MeshPhysicalMaterial({
-              color: '#cc0000',
-              metalness: 0.2,
-              roughness: 0.1,
-              transmission: 0.7,
-              thickness: 0.3,
-              transparent: true,
-              opacity: 0.8,
-            });
-            break;
-
-          case 'headlight':
-            // Headlights - clear with some reflection
-            child.material = new THREE.MeshPhysicalMaterial({
-              color: '#ffffff',
-              metalness: 0.8,
-              roughness: 0.1,
-              transmission: 0.3,
-              transparent: true,
-              opacity: 0.9,
-            });
-            break;
-
-          case 'wheel':
-            // Wheel rims - metallic silver/dark
-            child.material = new THREE.MeshStandardMaterial({
-              color: '#2a2a2a',
-              metalness: 0.9,
-              roughness: 0.3,
-              envMapIntensity: 1.5,
-            });
-            break;
-
-          case 'tire':
-            // Tires - matte black rubber
-            child.material = new THREE.MeshStandardMaterial({
-              color: '#1a1a1a',
-              metalness: 0,
-              roughness: 0.9,
-            });
-            break;
-
-          case 'caliper':
-            // Brake calipers - BMW M blue or red
-            child.material = new THREE.MeshStandardMaterial({
-              color: '#0066cc',
-              metalness: 0.7,
-              roughness: 0.3,
-            });
-            break;
-
-          case 'interior':
-            // Interior - dark leather/plastic
-            child.material = new THREE.MeshStandardMaterial({
-              color: '#1a1a1a',
-              metalness: 0.1,
-              roughness: 0.7,
-            });
-            break;
-
-          case 'grille':
-            // Kidney grille - use configured grill color
-            child.material = new THREE.MeshStandardMaterial({
-              color: config.grillColor?.hex || '#1a1a1a',
-              metalness: 0.8,
-              roughness: 0.2,
-            });
-            break;
-
-          case 'badge':
-            // BMW badge - PRESERVE ORIGINAL material (has roundel texture/decal)
-            // The GLB model already has the BMW blue/white roundel texture baked in
-            // Do not override this material - just enhance the properties if needed
-            if (originalMaterial.map) {
-              // If there's a texture map, preserve it and enhance
-              const enhancedBadge = originalMaterial.clone();
-              enhancedBadge.metalness = Math.max(enhancedBadge.metalness || 0, 0.9);
-              enhancedBadge.roughness = Math.min(enhancedBadge.roughness || 0.5, 0.1);
-              enhancedBadge.envMapIntensity = 2;
-              child.material = enhancedBadge;
-            }
-            // If no texture, keep the original material entirely
-            // The badge might be using vertex colors or other techniques
-            break;
-
-          case 'carbon':
-            // Carbon fiber - dark with slight texture
-            child.material = new THREE.MeshStandardMaterial({
-              color: '#1a1a1a',
-              metalness: 0.4,
-              roughness: 0.4,
-            });
-            break;
+      const entry = meshes.get(child);
+      if (!entry || !(child instanceof THREE.Mesh)) return;
+
+      switch (entry.category) {
+        case 'badge':
+          // Keep the original (roundel texture) unless there is an enhanced clone
+          child.material = badgeMaterials.get(child) ?? entry.original;
+          break;
+
+        case 'other':
+          // Keep original material properties for other parts
+          child.material = entry.original;
+          break;
+
+        case 'body':
+          // Geometry group 1 is the hood
+          child.material = entry.hasHood ? [materials.body, materials.hood] : materials.body;
+          break;
+
+        default:
+          child.material = materials[entry.category];
+      }
+    });
+  }, [clonedScene, meshes, materials, badgeMaterials, config]);
 
-          case 'chrome':
-            // Chrome trim
-            child.material = new THREE.MeshStandardMaterial({
-              color: '#cccccc',
-              metalness: 0.95,
-              roughness: 0.05,
-              envMapIntensity: 2,
-            });
-            break;
+  // Rim of the selected option, built on first use
+  const wheelDesign = getWheelDesign(config.wheels);
 
-          case 'other':
-          default:
-            // Keep original material properties for other parts
-            break;
-        }
+  // Mount the design on the hubs in place of the baked rims
+  useEffect(() => {
+    if (hubs.length === 0) return;
+
+    const wheelSet = mountWheels(wheelDesign, hubs, config.wheels.size / asset.wheelSize);
+    wheelSet.traverse((child) => {
+      if (!(child instanceof THREE.Mesh)) return;
+      const { category } = resolveMeshCategory(undefined, child.name, (child.material as THREE.Material).name || 'unnamed');
+      if (category === 'wheel' || category === 'tire') child.material = materials[category];
+      child.castShadow = true;
+      child.receiveShadow = true;
+    });
 
-        // Enable shadows for all meshes
-        child.castShadow = true;
-        child.receiveShadow = true;
-      }
+    const setBakedRimsVisible = (visible: boolean) => clonedScene.traverse((child) => {
+      if (meshes.get(child)?.category === 'wheel') child.visible = visible;
     });
 
-    // Debug logging
-    console.log('📊 Mesh categorization by material name:');
-    console.log('  - Body (painted):', counts.body);
-    console.log('  - Glass:', counts.glass);
-    console.log('  - Tail lights:', counts.taillight);
-    console.log('  - Headlights:', counts.headlight);
-    console.log('  - Wheels:', counts.wheel);
-    console.log('  - Tires:', counts.tire);
-    console.log('  - Calipers:', counts.caliper);
-    console.log('  - Interior:', counts.interior);
-    console.log('  - Grille:', counts.grille);
-    console.log('  - Badge:', counts.badge);
-    console.log('  - Carbon:', counts.carbon);
-    console.log('  - Chrome:', counts.chrome);
-    console.log('  - Other:', counts.other);
-    console.log('  - Total:', Object.values(counts).reduce((a, b) => a + b, 0));
-  }, [clonedScene, bodyMaterial, config.color, config.grillColor, originalMaterialNames]);
+    clonedScene.add(wheelSet);
+    setBakedRimsVisible(false);
+    return () => {
+      clonedScene.remove(wheelSet);
+      setBakedRimsVisible(true);
+    };
+  }, [clonedScene, meshes, hubs, wheelDesign, materials, config.wheels.size, asset.wheelSize]);
+
+  // Mesh inspector: clicking a part shows its names and category
+  const showMeshInspector = useConfigStore((state) => state.ui.showMeshInspector);
+  const inspectMesh = useConfigStore((state) => state.inspectMesh);
+  const onInspect = (event: ThreeEvent<MouseEvent>) => {
+    const entry = meshes.get(event.object);
+    if (!entry) return;
+    event.stopPropagation();
+    inspectMesh({
+      meshName: event.object.name,
+      materialName: entry.original.name || 'unnamed',
+      category: entry.category,
+      source: entry.source,
+    });
+  };
 
   // Subtle floating animation
   useFrame((state) => {
@@ -330,13 +189,14 @@ export function BMWModel() {
     <group ref={groupRef} position={[0, 0, 0]} scale={[1, 1, 1]}>
       <primitive
         object={clonedScene}
-        scale={1}
+        scale={asset.scale}
         position={[0, 0, 0]}
-        rotation={[0, -Math.PI / 4, 0]}
+        rotation={asset.rotation}
+        onClick={showMeshInspector ? onInspect : undefined}
       />
     </group>
   );
 }
 
-// Preload the model
-useGLTF.preload('/models/bmw-m5.glb');
+// Preload the default model
+useGLTF.preload(getModel(DEFAULT_MODEL).asset.url);
@@ -1,7 +1,7 @@
 /**
  * Main 3D Scene Component
  *
- * Contains the BMW M5 model with configurable materials
+ * Contains the selected BMW model with configurable materials
  */
 
 import { Suspense, useRef, useEffect } from 'react';
@@ -14,20 +14,10 @@ import {
   Html,
 } from '@react-three/drei';
 import * as THREE from 'three';
-import { useConfigStore } from '../../stores/configStore';
+import { useConfigStore, selectSceneConfig } from '../../stores/configStore';
 import { BMWModel } from './BMWModel';
-
-// =============================================================================
-// CAMERA POSITIONS
-// =============================================================================
-
-const CAMERA_POSITIONS = {
-  front: { position: [0, 2, 8], target: [0, 0, 0] },
-  side: { position: [8, 2, 0], target: [0, 0, 0] },
-  rear: { position: [0, 2, -8], target: [0, 0, 0] },
-  interior: { position: [0.5, 1.5, 1], target: [0, 1, 3] },
-  wheels: { position: [4, 1, 4], target: [0, 0, 0] },
-};
+import { getModel } from '../../config/models';
+import { registerSnapshot } from './snapshot';
 
 // =============================================================================
 // CAMERA CONTROLLER
@@ -35,11 +25,13 @@ const CAMERA_POSITIONS = {
 
 function CameraController() {
   const { cameraPosition } = useConfigStore((state) => state.ui);
+  const model = useConfigStore((state) => selectSceneConfig(state).model);
   const { camera } = useThree();
   const controlsRef = useRef<any>(null);
 
   useEffect(() => {
-    const pos = CAMERA_POSITIONS[cameraPosition];
+    // Camera presets come from the model registry
+    const pos = getModel(model).cameraPresets[cameraPosition];
     if (pos && controlsRef.current) {
       // Animate camera to new position
       const startPos = camera.position.clone();
@@ -59,7 +51,7 @@ function CameraController() {
       };
       animate();
     }
-  }, [cameraPosition, camera]);
+  }, [cameraPosition, model, camera]);
 
   return (
     <OrbitControls
@@ -80,16 +72,36 @@ function easeInOutCubic(t: number): number {
   return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
 }
 
+// =============================================================================
+// SNAPSHOT (for the spec sheet export)
+// =============================================================================
+
+function SnapshotRegistrar() {
+  const { gl, scene, camera } = useThree();
+
+  useEffect(() => {
+    registerSnapshot(() => {
+      gl.render(scene, camera);
+      return gl.domElement.toDataURL('image/png');
+    });
+    return () => registerSnapshot(null);
+  }, [gl, scene, camera]);
+
+  return null;
+}
+
 // =============================================================================
 // LOADING COMPONENT
 // =============================================================================
 
 function LoadingIndicator() {
+  const model = useConfigStore((state) => selectSceneConfig(state).model);
+
   return (
     <Html center>
       <div className="flex flex-col items-center gap-4">
         <div className="w-12 h-12 border-4 border-bmw-blue border-t-transparent rounded-full animate-spin" />
-        <p className="text-obsidian-300 font-body text-sm">BMW M5 wird geladen...</p>
+        <p className="text-obsidian-300 font-body text-sm">{getModel(model).name} wird geladen...</p>
       </div>
     </Html>
   );
@@ -157,6 +169,7 @@ export function Scene() {
 
         {/* Camera Controls */}
         <CameraController />
+        <SnapshotRegistrar />
       </Canvas>
 
       {/* Camera Position Buttons */}
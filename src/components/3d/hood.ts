@@ -0,0 +1,235 @@
+/**
+ * Hood
+ *
+ * Most car models bake the hood into the body paint mesh. The hood panel
+ * is isolated from the body triangles (upward-facing, central, within the
+ * model's hood region) into its own geometry group, so it can carry the
+ * selected hood pattern. Patterns are generated on a canvas - no texture
+ * downloads.
+ */
+
+import * as THREE from 'three';
+import type { CarConfig, HoodRegion } from '../../types';
+
+// =============================================================================
+// HOOD ISOLATION
+// =============================================================================
+
+/** Minimum upward component of a hood face normal */
+const HOOD_NORMAL_Y = 0.6;
+/** Hood faces lie in the central share of the body width (no fenders) */
+const HOOD_WIDTH_SHARE = 0.75;
+/** ...and in the upper share of the body height (no bumper) */
+const HOOD_HEIGHT_SHARE = 0.5;
+
+/**
+ * Moves the hood triangles of the body meshes into geometry group 1
+ * (group 0 keeps the rest of the body) and gives the meshes planar UVs
+ * over the hood: u across the car, v from the windscreen (0) to the
+ * nose (1). Geometries are cloned, the cached GLB stays untouched.
+ * Returns the meshes that contain hood triangles.
+ */
+export function splitHood(root: THREE.Object3D, bodies: THREE.Mesh[], region: HoodRegion): THREE.Mesh[] {
+  root.updateMatrixWorld(true);
+  const rootInverse = root.matrixWorld.clone().invert();
+  const toRoot = (mesh: THREE.Mesh) => new THREE.Matrix4().multiplyMatrices(rootInverse, mesh.matrixWorld);
+
+  const bounds = new THREE.Box3();
+  for (const mesh of bodies) {
+    if (!mesh.geometry.boundingBox) mesh.geometry.computeBoundingBox();
+    bounds.union(mesh.geometry.boundingBox!.clone().applyMatrix4(toRoot(mesh)));
+  }
+  const size = bounds.getSize(new THREE.Vector3());
+  const center = bounds.getCenter(new THREE.Vector3());
+  const nose = region.front === 1 ? bounds.max.z : bounds.min.z;
+  const hoodLength = size.z * region.length;
+
+  const isHood = (centroid: THREE.Vector3, normal: THREE.Vector3) =>
+    normal.y >= HOOD_NORMAL_Y &&
+    Math.abs(centroid.x - center.x) <= (size.x / 2) * HOOD_WIDTH_SHARE &&
+    centroid.y >= bounds.min.y + size.y * HOOD_HEIGHT_SHARE &&
+    (nose - centroid.z) * region.front >= 0 &&
+    (nose - centroid.z) * region.front <= hoodLength;
+
+  const split: THREE.Mesh[] = [];
+  for (const mesh of bodies) {
+    const geometry = splitGeometry(mesh.geometry, toRoot(mesh), isHood);
+    if (!geometry) continue;
+
+    // Planar UVs over the hood in root space
+    const matrix = toRoot(mesh);
+    const position = geometry.attributes.position;
+    const uv = new Float32Array(position.count * 2);
+    const point = new THREE.Vector3();
+    for (let i = 0; i < position.count; i++) {
+      point.fromBufferAttribute(position, i).applyMatrix4(matrix);
+      uv[i * 2] = (point.x - center.x) / (size.x * HOOD_WIDTH_SHARE) + 0.5;
+      uv[i * 2 + 1] = 1 - (nose - point.z) * region.front / hoodLength;
+    }
+    geometry.setAttribute('uv', new THREE.BufferAttribute(uv, 2));
+
+    mesh.geometry = geometry;
+    split.push(mesh);
+  }
+  return split;
+}
+
+/**
+ * Reorders the triangles so the hood ones come last; null if there are none
+ */
+function splitGeometry(
+  source: THREE.BufferGeometry,
+  matrix: THREE.Matrix4,
+  isHood: (centroid: THREE.Vector3, normal: THREE.Vector3) => boolean
+): THREE.BufferGeometry | null {
+  const geometry = source.clone();
+  if (!geometry.index) {
+    geometry.setIndex([...Array(geometry.attributes.position.count).keys()]);
+  }
+  const index = geometry.index!;
+  const position = geometry.attributes.position;
+  const triangle = new THREE.Triangle();
+  const centroid = new THREE.Vector3();
+  const normal = new THREE.Vector3();
+  const body: number[] = [];
+  const hood: number[] = [];
+
+  for (let i = 0; i < index.count; i += 3) {
+    const corners = [index.getX(i), index.getX(i + 1), index.getX(i + 2)];
+    triangle.a.fromBufferAttribute(position, corners[0]).applyMatrix4(matrix);
+    triangle.b.fromBufferAttribute(position, corners[1]).applyMatrix4(matrix);
+    triangle.c.fromBufferAttribute(position, corners[2]).applyMatrix4(matrix);
+    triangle.getMidpoint(centroid);
+    triangle.getNormal(normal);
+    (isHood(centroid, normal) ? hood : body).push(...corners);
+  }
+
+  if (hood.length === 0) {
+    geometry.dispose();
+    return null;
+  }
+
+  geometry.setIndex([...body, ...hood]);
+  geometry.clearGroups();
+  geometry.addGroup(0, body.length, 0);
+  geometry.addGroup(body.length, hood.length, 1);
+  return geometry;
+}
+
+// =============================================================================
+// PATTERNS
+// =============================================================================
+
+const TEXTURE_SIZE = 512;
+
+// BMW M colours: light blue, dark blue (violet), red
+const M_STRIPE_COLORS = ['#3ba2dd', '#1c2b5e', '#e4002b'];
+
+/**
+ * Material for the hood; `paint` is the body paint it is based on
+ */
+export function createHoodMaterial(config: CarConfig, paint: THREE.MeshPhysicalMaterial): THREE.MeshPhysicalMaterial {
+  // Printed patterns: the texture carries the colours under the paint's lacquer
+  const printed = (map: THREE.Texture) => {
+    const material = paint.clone();
+    material.color.set('#ffffff');
+    material.map = map;
+    return material;
+  };
+
+  switch (config.hoodPattern.id) {
+    case 'carbon-fiber':
+      return new THREE.MeshPhysicalMaterial({
+        map: carbonWeaveTexture(),
+        metalness: 0.3,
+        roughness: 0.35,
+        envMapIntensity: paint.envMapIntensity,
+        clearcoat: 1,
+        clearcoatRoughness: 0.05,
+      });
+
+    case 'm-stripes':
+      return printed(stripeTexture(config.color.hex, M_STRIPE_COLORS, 0.035, 0.01));
+
+    case 'racing-stripes':
+      return printed(stripeTexture(config.color.hex, Array(2).fill(contrastColor(config.color.hex)), 0.14, 0.05));
+
+    case 'matte-finish': {
+      // Satin clearcoat over the paint
+      const material = paint.clone();
+      material.metalness = Math.min(paint.metalness, 0.3);
+      material.roughness = 0.75;
+      material.clearcoat = 0.6;
+      material.clearcoatRoughness = 0.85;
+      return material;
+    }
+
+    default:
+      return paint.clone();
+  }
+}
+
+function canvasTexture(draw: (ctx: CanvasRenderingContext2D, size: number) => void): THREE.CanvasTexture {
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = TEXTURE_SIZE;
+  draw(canvas.getContext('2d')!, TEXTURE_SIZE);
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.anisotropy = 8;
+  return texture;
+}
+
+/**
+ * 2x2 twill weave, repeated across the hood
+ */
+function carbonWeaveTexture(): THREE.CanvasTexture {
+  const tows = 16;
+  const texture = canvasTexture((ctx, size) => {
+    const cell = size / tows;
+    for (let row = 0; row < tows; row++) {
+      for (let col = 0; col < tows; col++) {
+        // Twill: the over/under direction shifts by one tow per row
+        const horizontal = (col + row) % 4 < 2;
+        const x = col * cell;
+        const y = row * cell;
+        const gradient = horizontal
+          ? ctx.createLinearGradient(x, y, x, y + cell)
+          : ctx.createLinearGradient(x, y, x + cell, y);
+        gradient.addColorStop(0, '#0c0c0e');
+        gradient.addColorStop(0.5, '#3a3b40');
+        gradient.addColorStop(1, '#0c0c0e');
+        ctx.fillStyle = gradient;
+        ctx.fillRect(x, y, cell, cell);
+      }
+    }
+  });
+  texture.wrapS = texture.wrapT = THREE.RepeatWrapping;
+  texture.repeat.set(6, 6);
+  return texture;
+}
+
+/**
+ * Paint colour with stripes along the hood, centred across it. Widths are
+ * shares of the hood width.
+ */
+function stripeTexture(base: string, colors: string[], width: number, gap: number): THREE.CanvasTexture {
+  return canvasTexture((ctx, size) => {
+    ctx.fillStyle = base;
+    ctx.fillRect(0, 0, size, size);
+
+    const total = colors.length * width + (colors.length - 1) * gap;
+    colors.forEach((color, i) => {
+      ctx.fillStyle = color;
+      ctx.fillRect((0.5 - total / 2 + i * (width + gap)) * size, 0, width * size, size);
+    });
+  });
+}
+
+/**
+ * Black stripes on light paint, white ones on dark paint
+ */
+function contrastColor(hex: string): string {
+  const { r, g, b } = new THREE.Color(hex);
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b > 0.2 ? '#111111' : '#f2f2f2';
+}
@@ -0,0 +1,166 @@
+/**
+ * Scene Materials
+ *
+ * Materials for each mesh category of the car. Fixed parts (glass, lights,
+ * tires, chrome) always look the same; everything with a visual option is
+ * derived from the configuration and its catalog finishes.
+ */
+
+import * as THREE from 'three';
+import type { CarConfig, ColorOption, MeshCategory, SurfaceFinish } from '../../types';
+import { CALIPER_FINISHES, INTERIOR_COLORS, PAINT_FINISHES, TRIM_OPTIONS } from '../../types';
+import { createHoodMaterial } from './hood';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Badges keep their textured original, 'other' parts are left untouched */
+export type CategoryMaterials = Record<Exclude<MeshCategory, 'badge' | 'other'>, THREE.Material>;
+
+// =============================================================================
+// FACTORIES
+// =============================================================================
+
+export function finishMaterial(finish: SurfaceFinish, envMapIntensity = 1.5): THREE.MeshStandardMaterial {
+  return new THREE.MeshStandardMaterial({
+    color: finish.hex,
+    metalness: finish.metalness,
+    roughness: finish.roughness,
+    envMapIntensity,
+  });
+}
+
+/**
+ * Body paint built up as in PAINT_FINISHES for the colour's paint type
+ */
+export function paintMaterial(color: ColorOption): THREE.MeshPhysicalMaterial {
+  const finish = PAINT_FINISHES[color.type];
+  const base = new THREE.Color(color.hex);
+
+  return new THREE.MeshPhysicalMaterial({
+    color: base,
+    metalness: finish.metalness,
+    roughness: finish.roughness,
+    envMapIntensity: 1.5,
+    clearcoat: finish.clearcoat,
+    clearcoatRoughness: finish.clearcoatRoughness,
+    // Flakes tilt the base coat normals only; the clear coat stays smooth
+    ...(finish.flake > 0 && {
+      normalMap: flakeTexture(),
+      normalScale: new THREE.Vector2(finish.flake, finish.flake),
+    }),
+    ...(finish.sheen > 0 && {
+      sheen: finish.sheen,
+      sheenRoughness: 0.8,
+      sheenColor: base.clone().lerp(new THREE.Color('#ffffff'), 0.3),
+    }),
+    ...(finish.colorShift > 0 && {
+      iridescence: finish.colorShift,
+      iridescenceIOR: 1.3,
+      iridescenceThicknessRange: [100, 400] as [number, number],
+    }),
+  });
+}
+
+let flakes: THREE.CanvasTexture | undefined;
+
+/**
+ * Random normal noise for metallic flakes; shared by all paints and never
+ * disposed
+ */
+function flakeTexture(): THREE.CanvasTexture {
+  if (flakes) return flakes;
+
+  const size = 256;
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = size;
+  const ctx = canvas.getContext('2d')!;
+  const image = ctx.createImageData(size, size);
+  for (let i = 0; i < image.data.length; i += 4) {
+    image.data[i] = 128 + (Math.random() - 0.5) * 255;
+    image.data[i + 1] = 128 + (Math.random() - 0.5) * 255;
+    image.data[i + 2] = 255;
+    image.data[i + 3] = 255;
+  }
+  ctx.putImageData(image, 0, 0);
+
+  flakes = new THREE.CanvasTexture(canvas);
+  flakes.wrapS = flakes.wrapT = THREE.RepeatWrapping;
+  flakes.repeat.set(24, 24);
+  return flakes;
+}
+
+/**
+ * Materials for the parts that do not depend on the configuration
+ */
+function createFixedMaterials() {
+  return {
+    // Windows - dark transparent glass
+    glass: new THREE.MeshPhysicalMaterial({
+      color: '#111111',
+      metalness: 0,
+      roughness: 0,
+      transmission: 0.9,
+      thickness: 0.5,
+      transparent: true,
+      opacity: 0.3,
+    }),
+    // Tail lights - red transparent
+    taillight: new THREE.MeshPhysicalMaterial({
+      color: '#cc0000',
+      metalness: 0.2,
+      roughness: 0.1,
+      transmission: 0.7,
+      thickness: 0.3,
+      transparent: true,
+      opacity: 0.8,
+    }),
+    // Headlights - clear with some reflection
+    headlight: new THREE.MeshPhysicalMaterial({
+      color: '#ffffff',
+      metalness: 0.8,
+      roughness: 0.1,
+      transmission: 0.3,
+      transparent: true,
+      opacity: 0.9,
+    }),
+    // Tires - matte black rubber
+    tire: finishMaterial({ hex: '#1a1a1a', metalness: 0, roughness: 0.9 }, 1),
+    // Exterior carbon parts
+    carbon: finishMaterial({ hex: '#1a1a1a', metalness: 0.4, roughness: 0.4 }, 1),
+    // Chrome trim (window trim, door handles, exhaust tips)
+    chrome: finishMaterial({ hex: '#cccccc', metalness: 0.95, roughness: 0.05 }, 2),
+  };
+}
+
+/**
+ * One material per category for the given configuration. The caller owns
+ * the materials and disposes them (see disposeMaterials).
+ */
+export function createCategoryMaterials(config: CarConfig): CategoryMaterials {
+  const leather = INTERIOR_COLORS.find(c => c.id === config.interior.color) ?? INTERIOR_COLORS[0];
+  const trim = TRIM_OPTIONS.find(t => t.id === config.interior.trim) ?? TRIM_OPTIONS[0];
+
+  const body = paintMaterial(config.color);
+
+  return {
+    ...createFixedMaterials(),
+    body,
+    hood: createHoodMaterial(config, body),
+    wheel: finishMaterial(config.wheels.finish),
+    caliper: finishMaterial(CALIPER_FINISHES[config.brakes], 1),
+    // Seats and leather-covered parts
+    interior: finishMaterial({ hex: leather.hex, metalness: 0.05, roughness: 0.7 }, 1),
+    trim: finishMaterial(trim.finish),
+    grille: finishMaterial({ hex: config.grillColor.hex, metalness: 0.8, roughness: 0.2 }),
+  };
+}
+
+export function disposeMaterials(materials: CategoryMaterials): void {
+  Object.values(materials).forEach((material) => {
+    // Generated textures (hood patterns) belong to their material
+    if ('map' in material && material.map instanceof THREE.Texture) material.map.dispose();
+    material.dispose();
+  });
+}
@@ -0,0 +1,28 @@
+/**
+ * Scene Snapshot
+ *
+ * Lets code outside the Canvas (e.g. the spec sheet export) grab an image
+ * of the current 3D view. The Scene registers a capture function that
+ * renders a fresh frame first, so the drawing buffer does not need to be
+ * preserved between frames.
+ */
+
+type CaptureFn = () => string;
+
+let captureFn: CaptureFn | null = null;
+
+export function registerSnapshot(fn: CaptureFn | null): void {
+  captureFn = fn;
+}
+
+/**
+ * PNG data URL of the current view, or null if no scene is mounted
+ */
+export function captureSceneSnapshot(): string | null {
+  try {
+    return captureFn?.() ?? null;
+  } catch (error) {
+    console.error('Snapshot error:', error);
+    return null;
+  }
+}
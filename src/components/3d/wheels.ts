@@ -0,0 +1,197 @@
+/**
+ * Wheel Designs
+ *
+ * Each catalog wheel has its own rim, generated from the spoke layout of
+ * its WheelOption (no design files to download). A rim is built the first
+ * time its wheel is selected and cached by id, so switching back is
+ * instant. It is mounted onto the hubs found in the car model in place of
+ * the baked rims.
+ *
+ * Designs are centred at the origin with the axle along X and the outer
+ * face towards +X.
+ */
+
+import * as THREE from 'three';
+import type { WheelDesign, WheelOption } from '../../types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface WheelHub {
+  /** Rim centre in the local space of the car scene */
+  center: THREE.Vector3;
+  /** Axle direction - the thinnest extent of the rim */
+  axis: 'x' | 'y' | 'z';
+  /** Outer side of the car along the axle */
+  side: 1 | -1;
+  diameter: number;
+}
+
+// =============================================================================
+// HUB DETECTION
+// =============================================================================
+
+/**
+ * Groups the rim meshes of the car model into wheels. Several meshes
+ * (spokes, barrel, bolts) can make up one rim; meshes that are not
+ * disc-shaped (e.g. all four rims in one mesh) yield no hub.
+ */
+export function findWheelHubs(root: THREE.Object3D, rims: THREE.Mesh[]): WheelHub[] {
+  root.updateMatrixWorld(true);
+  const rootInverse = root.matrixWorld.clone().invert();
+  const toRoot = new THREE.Matrix4();
+  const boxes: THREE.Box3[] = [];
+
+  for (const mesh of rims) {
+    if (!mesh.geometry.boundingBox) mesh.geometry.computeBoundingBox();
+    toRoot.multiplyMatrices(rootInverse, mesh.matrixWorld);
+    const box = mesh.geometry.boundingBox!.clone().applyMatrix4(toRoot);
+    const existing = boxes.find(b => b.containsPoint(box.getCenter(new THREE.Vector3())));
+    if (existing) existing.union(box);
+    else boxes.push(box);
+  }
+
+  const carCenter = new THREE.Vector3();
+  boxes.forEach(box => carCenter.add(box.getCenter(new THREE.Vector3())));
+  carCenter.divideScalar(Math.max(boxes.length, 1));
+
+  return boxes.flatMap((box) => {
+    const size = box.getSize(new THREE.Vector3());
+    const axis = size.x <= size.y && size.x <= size.z ? 'x' : size.y <= size.z ? 'y' : 'z';
+    const diameter = Math.max(size.x, size.y, size.z);
+    if (size[axis] > diameter * 0.6) return [];
+
+    const center = box.getCenter(new THREE.Vector3());
+    return [{ center, axis, side: center[axis] >= carCenter[axis] ? 1 : -1, diameter }];
+  });
+}
+
+// =============================================================================
+// MOUNTING
+// =============================================================================
+
+/**
+ * Places a copy of the wheel design on every hub. `sizeRatio` is the
+ * selected rim size relative to the baked one (e.g. 21 / 20).
+ */
+export function mountWheels(design: THREE.Object3D, hubs: WheelHub[], sizeRatio: number): THREE.Group {
+  const designSize = new THREE.Box3().setFromObject(design).getSize(new THREE.Vector3());
+  const designDiameter = Math.max(designSize.y, designSize.z) || 1;
+  const wheels = new THREE.Group();
+  wheels.name = 'WheelSet';
+
+  for (const hub of hubs) {
+    const mount = new THREE.Group();
+    mount.position.copy(hub.center);
+    // Turn the design's X axle onto the hub axle
+    if (hub.axis === 'y') mount.rotation.z = Math.PI / 2;
+    if (hub.axis === 'z') mount.rotation.y = -Math.PI / 2;
+
+    const wheel = design.clone(true);
+    const scale = (hub.diameter * sizeRatio) / designDiameter;
+    // Mirror along the axle so the outer face points away from the car
+    wheel.scale.set(scale * hub.side, scale, scale);
+
+    mount.add(wheel);
+    wheels.add(mount);
+  }
+
+  return wheels;
+}
+
+// =============================================================================
+// GENERATED DESIGNS
+// =============================================================================
+
+/** Rim proportions, as shares of the rim diameter */
+const RIM_WIDTH = 0.42;
+const LIP_WIDTH = 0.05;
+const HUB_RADIUS = 0.1;
+const SPOKE_DEPTH = 0.05;
+
+/**
+ * Rim with diameter 1 for a spoke layout: barrel, hub and spokes. The material is named so the mesh mapping guesses 'wheel' and
+ * the selected finish applies.
+ */
+export function buildWheelDesign({ spokes, style }: WheelDesign): THREE.Group {
+  const material = new THREE.MeshStandardMaterial({ name: 'wheel_rim', side: THREE.DoubleSide });
+  const rim = new THREE.Group();
+  const face = RIM_WIDTH / 2 - SPOKE_DEPTH / 2;
+  const add = (geometry: THREE.BufferGeometry, setup?: (mesh: THREE.Mesh) => void) => {
+    const mesh = new THREE.Mesh(geometry, material);
+    setup?.(mesh);
+    rim.add(mesh);
+  };
+
+  // Barrel with wall thickness; its outer end is the lip
+  const wall = [
+    [0.5, -RIM_WIDTH / 2], [0.5, RIM_WIDTH / 2],
+    [0.5 - LIP_WIDTH, RIM_WIDTH / 2], [0.5 - LIP_WIDTH, -RIM_WIDTH / 2], [0.5, -RIM_WIDTH / 2],
+  ].map(([radius, x]) => new THREE.Vector2(radius, x));
+  add(new THREE.LatheGeometry(wall, 48), m => { m.rotation.z = -Math.PI / 2; });
+
+  // Hub with a raised centre cap
+  add(new THREE.CylinderGeometry(HUB_RADIUS, HUB_RADIUS, SPOKE_DEPTH * 1.6, 24), m => {
+    m.rotation.z = Math.PI / 2;
+    m.position.x = face;
+  });
+
+  // Spoke from (radius, angle) to (radius, angle) across the face
+  const spoke = (from: [number, number], to: [number, number], width: number) => {
+    const a = new THREE.Vector2(from[0] * Math.cos(from[1]), from[0] * Math.sin(from[1]));
+    const b = new THREE.Vector2(to[0] * Math.cos(to[1]), to[0] * Math.sin(to[1]));
+    const direction = b.clone().sub(a);
+    add(new THREE.BoxGeometry(SPOKE_DEPTH, direction.length() + width / 2, width), m => {
+      m.position.set(face, (a.x + b.x) / 2, (a.y + b.y) / 2);
+      // The box's Y axis turns onto the spoke direction in the YZ plane
+      m.rotation.x = Math.atan2(direction.y, direction.x);
+    });
+  };
+
+  const inner = HUB_RADIUS * 0.8;
+  const outer = 0.5 - LIP_WIDTH / 2;
+  const pitch = (Math.PI * 2) / spokes;
+  // Slimmer spokes the more there are
+  const width = Math.min(0.09, 0.45 / spokes);
+
+  for (let i = 0; i < spokes; i++) {
+    const angle = i * pitch;
+    switch (style) {
+      case 'single':
+        spoke([inner, angle], [outer, angle], width);
+        break;
+      case 'double':
+        spoke([inner, angle - 0.2], [outer, angle - pitch * 0.1], width * 0.6);
+        spoke([inner, angle + 0.2], [outer, angle + pitch * 0.1], width * 0.6);
+        break;
+      case 'v':
+        spoke([inner, angle], [outer, angle - pitch * 0.22], width * 0.75);
+        spoke([inner, angle], [outer, angle + pitch * 0.22], width * 0.75);
+        break;
+      case 'y': {
+        const fork = 0.28;
+        spoke([inner, angle], [fork, angle], width);
+        spoke([fork, angle], [outer, angle - pitch * 0.2], width * 0.7);
+        spoke([fork, angle], [outer, angle + pitch * 0.2], width * 0.7);
+        break;
+      }
+    }
+  }
+
+  return rim;
+}
+
+const generated = new Map<string, THREE.Object3D>();
+
+/**
+ * The rim of a wheel option, built once
+ */
+export function getWheelDesign(wheel: WheelOption): THREE.Object3D {
+  let design = generated.get(wheel.id);
+  if (!design) {
+    design = buildWheelDesign(wheel.design);
+    generated.set(wheel.id, design);
+  }
+  return design;
+}
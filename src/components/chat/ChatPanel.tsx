@@ -8,7 +8,11 @@ import { useState, useRef, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useConfigStore } from '../../stores/configStore';
 import { useVoiceInput } from '../../hooks/useVoiceInput';
-import { sendMessageToOpenAI, executeOpenAIFunctionCall, type OpenAIResponse } from '../../services/openai';
+import { sendChatMessage, executeFunctionCall, describeToolOutcome, resolveLLMSettings, LLMError } from '../../services/llm';
+import type { DependencyChange, LLMFunctionCall } from '../../types';
+import { describeDependencyChange } from '../../config/dependencies';
+import { describeComparison } from '../../config/comparison';
+import { getModel } from '../../config/models';
 
 // =============================================================================
 // ICONS
@@ -52,20 +56,30 @@ export function ChatPanel() {
   const [input, setInput] = useState('');
   const [scrollToUserMessage, setScrollToUserMessage] = useState(0);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   const {
     messages,
     addMessage,
-    config,
+    updateMessage,
     updateConfig,
+    undo,
+    redo,
+    savedConfigurations,
+    compareConfigurations,
     setLoading,
     setCameraPosition,
     toggleValidationOverlay,
     ui,
+    config,
   } = useConfigStore();
 
-  // Conversation history for context (OpenAI uses 'user' and 'assistant')
-  const conversationHistory = useRef<Array<{ role: 'user' | 'assistant'; content: string }>>([]);
+  // Conversation history for context (OpenAI uses 'user' and 'assistant'), seeded from a restored session
+  const conversationHistory = useRef<Array<{ role: 'user' | 'assistant'; content: string }>>(
+    messages
+      .filter((m) => m.id !== 'welcome' && m.role !== 'system')
+      .map((m) => ({ role: m.role as 'user' | 'assistant', content: m.content }))
+  );
 
   // Voice input hook
   const {
@@ -111,55 +125,109 @@ export function ChatPanel() {
 
     // Add user message
     addMessage({ role: 'user', content: text });
+    const history = [...conversationHistory.current];
     conversationHistory.current.push({ role: 'user', content: text });
 
     // Trigger scroll to user message (at top of view)
     setScrollToUserMessage(prev => prev + 1);
 
-    try {
-      // Get AI response from OpenAI
-      const response: OpenAIResponse = await sendMessageToOpenAI(
-        text,
-        config,
-        conversationHistory.current
-      );
-
-      // Execute any function calls
-      let configUpdate: Partial<typeof config> = {};
-
-      for (const fc of response.functionCalls) {
-        const result = executeOpenAIFunctionCall(fc.name, fc.args, config);
-
-        if (result.configUpdate) {
-          configUpdate = { ...configUpdate, ...result.configUpdate };
+    // The reply is filled in while it streams
+    const replyId = addMessage({ role: 'assistant', content: '', streaming: true });
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let streamed = '';
+    const notes: string[] = [];
+
+    // Each function call is applied as soon as it is complete (one undo step
+    // each); the outcome goes back to the model
+    const applyFunctionCall = (fc: LLMFunctionCall): string => {
+      const before = useConfigStore.getState().config;
+      const result = executeFunctionCall(fc.name, fc.args, before);
+      const callNotes: string[] = [];
+      let adjustments: DependencyChange[] = [];
+      let error = result.error;
+      if (result.history) {
+        const step = result.history === 'undo' ? undo() : redo();
+        if (step) {
+          callNotes.push(`${result.history === 'undo' ? 'Rückgängig gemacht' : 'Wiederhergestellt'}: ${step.label}`);
+        } else {
+          error = `Es gibt keine Änderung, die ${result.history === 'undo' ? 'rückgängig gemacht' : 'wiederhergestellt'} werden kann.`;
+          callNotes.push(error);
         }
-        if (result.cameraPosition) {
-          setCameraPosition(result.cameraPosition as any);
+      }
+      if (result.comparison) {
+        const comparison = compareConfigurations(result.comparison.left, result.comparison.right);
+        if (comparison) {
+          callNotes.push(describeComparison(comparison));
+        } else {
+          error = 'Diese Konfiguration habe ich nicht gefunden. Gespeichert sind: ' +
+            (savedConfigurations.map((c) => `„${c.name}“`).join(', ') || 'keine');
+          callNotes.push(error);
         }
-        if (result.showValidation) {
-          toggleValidationOverlay();
+      }
+      if (result.configUpdate) {
+        // Dependent options are adjusted by the store
+        adjustments = updateConfig(result.configUpdate, 'KI');
+        if (adjustments.length > 0) {
+          callNotes.push('Automatisch angepasst:\n' + adjustments.map(c => `• ${describeDependencyChange(c)}`).join('\n'));
         }
       }
-
-      // Apply config updates
-      if (Object.keys(configUpdate).length > 0) {
-        updateConfig(configUpdate);
+      if (result.cameraPosition) {
+        setCameraPosition(result.cameraPosition);
+      }
+      if (result.showValidation) {
+        toggleValidationOverlay();
+      }
+      if (result.message) {
+        callNotes.push(result.message);
       }
 
-      // Add assistant message
-      addMessage({ role: 'assistant', content: response.message });
-      conversationHistory.current.push({ role: 'assistant', content: response.message });
+      notes.push(...callNotes);
+      return describeToolOutcome({ before, after: useConfigStore.getState().config, adjustments, notes: callNotes, error });
+    };
 
-    } catch (error) {
-      console.error('Chat error:', error);
-      addMessage({
-        role: 'assistant',
-        content: 'Entschuldigung, es ist ein Fehler aufgetreten. Bitte versuchen Sie es erneut.',
+    let content: string;
+    try {
+      // Get AI response from the configured provider; every round sees the current configuration
+      const response = await sendChatMessage((toolRounds) => ({
+        message: text,
+        config: useConfigStore.getState().config,
+        history,
+        savedConfigurationNames: savedConfigurations.map((c) => c.name),
+        toolRounds,
+      }), resolveLLMSettings(useConfigStore.getState().llmSettings), {
+        signal: controller.signal,
+        onText: (delta) => {
+          streamed += delta;
+          updateMessage(replyId, { content: streamed });
+        },
+        executeTool: applyFunctionCall,
       });
+
+      content = [response.message, ...notes].join('\n\n');
+    } catch (error) {
+      if (error instanceof LLMError && error.kind === 'aborted') {
+        // Changes made before cancelling stay applied (and can be undone)
+        content = [streamed, ...notes, '⏹️ Antwort abgebrochen.'].filter(Boolean).join('\n\n');
+      } else {
+        console.error('Chat error:', error);
+        content = error instanceof LLMError && error.kind === 'rate-limit'
+          ? 'Der KI-Dienst ist gerade ausgelastet. Bitte versuchen Sie es in einem Moment erneut.'
+          : 'Entschuldigung, es ist ein Fehler aufgetreten. Bitte versuchen Sie es erneut.';
+      }
     } finally {
+      abortRef.current = null;
       setLoading(false);
     }
-  }, [input, config, ui.isLoading, addMessage, setLoading, updateConfig, setCameraPosition, toggleValidationOverlay]);
+
+    updateMessage(replyId, { content, streaming: false });
+    conversationHistory.current.push({ role: 'assistant', content });
+  }, [input, ui.isLoading, addMessage, updateMessage, setLoading, updateConfig, undo, redo, savedConfigurations, compareConfigurations, setCameraPosition, toggleValidationOverlay]);
+
+  // Cancel the in-flight request
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
 
   // Handle form submit
   const onFormSubmit = (e: React.FormEvent) => {
@@ -200,7 +268,7 @@ export function ChatPanel() {
               KI-Assistent
             </h2>
             <p className="text-xs text-obsidian-400 font-body mt-1.5 leading-relaxed">
-              Konfigurieren Sie Ihren BMW M5 mit intelligenter Unterstützung
+              Konfigurieren Sie Ihren BMW {getModel(config.model).shortName} mit intelligenter Unterstützung
             </p>
           </div>
         </div>
@@ -219,7 +287,8 @@ export function ChatPanel() {
       {/* Messages */}
       <div ref={messagesContainerRef} className="flex-1 overflow-y-auto p-6 space-y-5">
         <AnimatePresence mode="popLayout">
-          {messages.map((message) => (
+          {/* A streamed reply appears with its first text; until then the loading indicator shows */}
+          {messages.filter((message) => !(message.streaming && !message.content)).map((message) => (
             <motion.div
               key={message.id}
               id={`message-${message.id}`}
@@ -258,7 +327,7 @@ export function ChatPanel() {
         </AnimatePresence>
 
         {/* Loading indicator with premium styling */}
-        {ui.isLoading && (
+        {ui.isLoading && !messages.some((message) => message.streaming && message.content) && (
           <motion.div
             initial={{ opacity: 0, y: 10 }}
             animate={{ opacity: 1, y: 0 }}
@@ -434,35 +503,39 @@ export function ChatPanel() {
             </motion.button>
           )}
 
-          {/* Send Button with Enhanced Glow */}
-          <motion.button
-            type="submit"
-            disabled={!input.trim() || ui.isLoading}
-            whileHover={{ scale: 1.05 }}
-            whileTap={{ scale: 0.95 }}
-            className="relative p-3.5 bg-gradient-to-br from-bmw-blue to-bmw-blue-dark text-white rounded-2xl
-                       hover:from-bmw-blue-light hover:to-bmw-blue
-                       disabled:opacity-50 disabled:cursor-not-allowed
-                       transition-all duration-300 shadow-lg shadow-bmw-blue/30
-                       hover:shadow-xl hover:shadow-bmw-blue/50
-                       overflow-hidden group"
-          >
-            {/* Animated gradient overlay on hover */}
-            <span className="absolute inset-0 opacity-0 group-hover:opacity-100 transition-opacity duration-300 bg-gradient-to-br from-white/10 to-transparent" />
-
-            <motion.div
-              animate={ui.isLoading ? {
-                rotate: 360,
-              } : {}}
-              transition={{
-                duration: 1,
-                repeat: ui.isLoading ? Infinity : 0,
-                ease: 'linear',
-              }}
+          {/* Send Button with Enhanced Glow (Cancel while a reply is in flight) */}
+          {ui.isLoading ? (
+            <motion.button
+              type="button"
+              onClick={handleCancel}
+              title="Antwort abbrechen"
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              className="relative p-3.5 bg-obsidian-800/80 text-obsidian-300 hover:text-white hover:bg-obsidian-700
+                         border border-white/10 hover:border-white/20 rounded-2xl
+                         transition-all duration-300 shadow-lg backdrop-blur-sm"
             >
+              <StopIcon />
+            </motion.button>
+          ) : (
+            <motion.button
+              type="submit"
+              disabled={!input.trim()}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              className="relative p-3.5 bg-gradient-to-br from-bmw-blue to-bmw-blue-dark text-white rounded-2xl
+                         hover:from-bmw-blue-light hover:to-bmw-blue
+                         disabled:opacity-50 disabled:cursor-not-allowed
+                         transition-all duration-300 shadow-lg shadow-bmw-blue/30
+                         hover:shadow-xl hover:shadow-bmw-blue/50
+                         overflow-hidden group"
+            >
+              {/* Animated gradient overlay on hover */}
+              <span className="absolute inset-0 opacity-0 group-hover:opacity-100 transition-opacity duration-300 bg-gradient-to-br from-white/10 to-transparent" />
+
               <SendIcon />
-            </motion.div>
-          </motion.button>
+            </motion.button>
+          )}
         </div>
 
         {/* Input hint text */}
@@ -0,0 +1,162 @@
+/**
+ * Comparison View Component
+ *
+ * Side-by-side diff of two configurations with per-option price deltas and
+ * the validation state of each; either side can be shown in the 3D scene.
+ */
+
+import { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useConfigStore, CURRENT_CONFIG_REF } from '../../stores/configStore';
+import { compareConfigs } from '../../config/comparison';
+import { formatPrice } from '../../config/pricing';
+import type { ComparedConfig, ComparisonRow, ComparisonSide, ConfigComparison, PriceLineItem } from '../../types';
+
+// =============================================================================
+// COMPARISON VIEW
+// =============================================================================
+
+export function ComparisonView() {
+  const comparison = useConfigStore((state) => state.comparison);
+  const config = useConfigStore((state) => state.config);
+  const showComparedConfig = useConfigStore((state) => state.showComparedConfig);
+  const closeComparison = useConfigStore((state) => state.closeComparison);
+  const [onlyDifferences, setOnlyDifferences] = useState(true);
+
+  // The current configuration keeps changing while the comparison is open
+  const result = useMemo(() => {
+    if (!comparison) return null;
+    const live = (side: ComparedConfig) => (side.id === CURRENT_CONFIG_REF ? { ...side, config } : side);
+    return compareConfigs(live(comparison.left), live(comparison.right));
+  }, [comparison, config]);
+
+  return (
+    <AnimatePresence>
+      {comparison && result && (
+        <motion.div
+          initial={{ y: 40, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          exit={{ y: 40, opacity: 0 }}
+          transition={{ duration: 0.3 }}
+          className="fixed bottom-24 left-[300px] right-[444px] z-40 max-h-[60vh] flex flex-col glass rounded-xl overflow-hidden"
+        >
+          {/* Header */}
+          <div className="px-5 py-3 border-b border-white/10 bg-obsidian-900/50 flex items-center justify-between">
+            <h3 className="font-display font-semibold text-sm text-obsidian-100">Vergleich</h3>
+            <div className="flex items-center gap-3">
+              <label className="flex items-center gap-1.5 text-[11px] text-obsidian-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={onlyDifferences}
+                  onChange={(e) => setOnlyDifferences(e.target.checked)}
+                />
+                Nur Unterschiede
+              </label>
+              <button
+                onClick={closeComparison}
+                className="px-2 py-1 rounded text-obsidian-400 hover:text-white hover:bg-white/10 text-xs"
+              >
+                Schließen
+              </button>
+            </div>
+          </div>
+
+          {/* Table */}
+          <div className="flex-1 overflow-y-auto px-5 py-3">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left">
+                  <th className="py-1 w-1/5" />
+                  {(['left', 'right'] as const).map((side) => (
+                    <SideHeader
+                      key={side}
+                      side={side}
+                      comparison={result}
+                      shown={comparison.shown === side}
+                      onShow={() => showComparedConfig(comparison.shown === side ? null : side)}
+                    />
+                  ))}
+                  <th className="py-1 text-right text-[10px] uppercase tracking-wider text-obsidian-500 font-normal">Δ Preis</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.rows
+                  .filter((row) => !onlyDifferences || row.differs)
+                  .map((row) => <RowView key={row.id} row={row} />)}
+                <tr className="border-t border-white/10 font-semibold text-obsidian-100">
+                  <td className="py-2">Gesamtpreis</td>
+                  <td className="py-2">{formatPrice(result.prices.left.total)}</td>
+                  <td className="py-2">{formatPrice(result.prices.right.total)}</td>
+                  <td className="py-2 text-right"><Delta amount={result.totalDelta} /></td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
+
+// =============================================================================
+// HELPER COMPONENTS
+// =============================================================================
+
+function SideHeader({ side, comparison, shown, onShow }: {
+  side: ComparisonSide;
+  comparison: ConfigComparison;
+  shown: boolean;
+  onShow: () => void;
+}) {
+  const validation = comparison.validation[side];
+
+  return (
+    <th className="py-1 pr-3 font-normal align-top">
+      <p className="font-medium text-obsidian-100 truncate">{comparison[side].name}</p>
+      <p className={`text-[10px] ${validation.isValid ? 'text-green-400' : 'text-red-400'}`}>
+        {validation.isValid ? 'Gültig' : `${validation.blockers.length} Fehler`}
+        {validation.warnings.length > 0 && <span className="text-yellow-400"> • {validation.warnings.length} Hinweis(e)</span>}
+      </p>
+      <button
+        onClick={onShow}
+        className={`
+          mt-1 px-2 py-0.5 rounded text-[10px] transition-colors
+          ${shown ? 'bg-bmw-blue text-white' : 'bg-obsidian-800/60 text-obsidian-300 hover:bg-white/5'}
+        `}
+      >
+        {shown ? 'Wird angezeigt' : 'Im 3D zeigen'}
+      </button>
+    </th>
+  );
+}
+
+function RowView({ row }: { row: ComparisonRow }) {
+  return (
+    <tr className={`border-t border-white/5 ${row.differs ? 'text-obsidian-100' : 'text-obsidian-500'}`}>
+      <td className="py-1.5 text-obsidian-500">{row.label}</td>
+      <td className="py-1.5 pr-3"><ItemCell item={row.left} /></td>
+      <td className="py-1.5 pr-3"><ItemCell item={row.right} /></td>
+      <td className="py-1.5 text-right">{row.priceDelta !== 0 && <Delta amount={row.priceDelta} />}</td>
+    </tr>
+  );
+}
+
+function ItemCell({ item }: { item: PriceLineItem | null }) {
+  if (!item) return <span className="text-obsidian-600">-</span>;
+  return (
+    <span>
+      {item.name}
+      <span className="block text-[10px] text-obsidian-500">
+        {item.includedIn ? `im ${item.includedIn} enthalten` : formatPrice(item.price)}
+      </span>
+    </span>
+  );
+}
+
+function Delta({ amount }: { amount: number }) {
+  return (
+    <span className={amount > 0 ? 'text-red-400' : amount < 0 ? 'text-green-400' : 'text-obsidian-400'}>
+      {amount > 0 ? '+' : ''}{formatPrice(amount)}
+    </span>
+  );
+}
@@ -4,8 +4,18 @@
  * Shows current configuration in a clean compact sidebar
  */
 
-import { motion } from 'framer-motion';
-import { useConfigStore } from '../../stores/configStore';
+import { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useConfigStore, CURRENT_CONFIG_REF } from '../../stores/configStore';
+import { getOptionAvailability, getActiveConstraints } from '../../config/constraints';
+import { getDimension } from '../../config/options';
+import { describeDependencyChange } from '../../config/dependencies';
+import { calculatePrice, formatPrice, getIncludedValue } from '../../config/pricing';
+import { getIncludingPackage } from '../../config/packages';
+import { MODELS, getModel, isPackageOffered } from '../../config/models';
+import { describeUnknownId } from '../../config/serialization';
+import { AVAILABLE_PACKAGES } from '../../types';
+import type { CarConfig, OptionAvailability, OptionAvailabilityMap, OptionField, PackageOption } from '../../types';
 
 // =============================================================================
 // COLOR SWATCH
@@ -29,6 +39,25 @@ function ColorSwatch({ hex, name }: { hex: string; name: string }) {
 
 export function ConfigSummary() {
   const config = useConfigStore((state) => state.config);
+  const selectOption = useConfigStore((state) => state.selectOption);
+  const dependencyChanges = useConfigStore((state) => state.dependencyChanges);
+  const togglePackage = useConfigStore((state) => state.togglePackage);
+  const changeModel = useConfigStore((state) => state.changeModel);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  // Which choices are valid right now (recomputed on every config change)
+  const availability = useMemo(() => getOptionAvailability(config), [config]);
+  const price = useMemo(() => calculatePrice(config), [config]);
+
+  const itemProps = (label: string, fields: OptionField[]) => ({
+    label,
+    fields,
+    availability,
+    includedIn: fields.map((field) => getIncludingPackage(config, field)?.name).find(Boolean),
+    expanded: expanded === label,
+    onToggle: () => setExpanded(expanded === label ? null : label),
+    onSelect: selectOption,
+  });
 
   return (
     <motion.div
@@ -42,69 +71,378 @@ export function ConfigSummary() {
         <h3 className="font-display font-semibold text-sm text-obsidian-100">
           Ihre Konfiguration
         </h3>
-        <p className="text-xs text-obsidian-500 mt-1">BMW M5 Limousine</p>
+        <p className="text-xs text-obsidian-500 mt-1">{getModel(config.model).name}</p>
+
+        {/* Model Switch */}
+        <div className="mt-3 flex gap-1.5">
+          {MODELS.map((model) => (
+            <button
+              key={model.id}
+              onClick={() => changeModel(model.id)}
+              className={`
+                flex-1 px-2 py-1 rounded text-[11px] transition-colors
+                ${config.model === model.id ? 'bg-bmw-blue text-white' : 'bg-obsidian-800/60 text-obsidian-300 hover:bg-white/5'}
+              `}
+            >
+              {model.shortName}
+            </button>
+          ))}
+        </div>
       </div>
 
       {/* Config Items */}
       <div className="flex-1 overflow-y-auto px-6 py-5 space-y-5">
-        <ConfigItem label="Farbe">
+        <ConfigItem {...itemProps('Farbe', ['color'])}>
           <ColorSwatch hex={config.color.hex} name={config.color.name} />
         </ConfigItem>
 
-        <ConfigItem label="Felgen">
+        <ConfigItem {...itemProps('Felgen', ['wheels'])}>
           <span className="text-xs text-obsidian-200">{config.wheels.name}</span>
         </ConfigItem>
 
-        <ConfigItem label="Bremsen">
+        <ConfigItem {...itemProps('Bremsen', ['brakes'])}>
           <span className="text-xs text-obsidian-200">{getBrakesLabel(config.brakes)}</span>
         </ConfigItem>
 
-        <ConfigItem label="Performance">
+        <ConfigItem {...itemProps('Performance', ['performancePackage'])}>
           <span className="text-xs text-obsidian-200">{getPackageLabel(config.performancePackage)}</span>
         </ConfigItem>
 
-        <ConfigItem label="Interieur">
+        <PackagesItem
+          config={config}
+          expanded={expanded === 'Pakete'}
+          onToggle={() => setExpanded(expanded === 'Pakete' ? null : 'Pakete')}
+          onTogglePackage={togglePackage}
+        />
+
+        <ConfigItem {...itemProps('Interieur', ['interior.leather', 'interior.color', 'interior.trim'])}>
           <span className="text-xs text-obsidian-200">
             {getLeatherLabel(config.interior.leather)} / {getTrimLabel(config.interior.trim)}
           </span>
         </ConfigItem>
 
-        <ConfigItem label="Licht">
+        <ConfigItem {...itemProps('Licht', ['lights'])}>
           <span className="text-xs text-obsidian-200">
             {config.lights === 'laser' ? 'BMW Laserlicht' : 'LED'}
           </span>
         </ConfigItem>
 
-        <ConfigItem label="Sound">
+        <ConfigItem {...itemProps('Sound', ['sound'])}>
           <span className="text-xs text-obsidian-200">{getSoundLabel(config.sound)}</span>
         </ConfigItem>
 
-        <ConfigItem label="Niere">
+        <ConfigItem {...itemProps('Niere', ['grillColor'])}>
           <span className="text-xs text-obsidian-200">{config.grillColor?.name || 'Shadow Line'}</span>
         </ConfigItem>
 
-        <ConfigItem label="Haube">
+        <ConfigItem {...itemProps('Haube', ['hoodPattern'])}>
           <span className="text-xs text-obsidian-200">{config.hoodPattern?.name || 'Standard'}</span>
         </ConfigItem>
+
+        <SavedConfigurationsItem
+          expanded={expanded === 'Gespeichert'}
+          onToggle={() => setExpanded(expanded === 'Gespeichert' ? null : 'Gespeichert')}
+        />
       </div>
 
+      {/* Price Breakdown */}
+      <div className="px-6 py-4 border-t border-white/10 bg-obsidian-900/50 space-y-1.5 text-xs">
+        <PriceRow label={price.base.label} amount={price.base.price} />
+        <PriceRow label="Pakete" amount={price.packagesTotal} />
+        <PriceRow label="Sonderausstattung" amount={price.optionsTotal} />
+        <div className="flex justify-between pt-1.5 border-t border-white/5">
+          <span className="font-medium text-obsidian-100">Gesamtpreis</span>
+          <span className="font-display font-semibold text-obsidian-100">{formatPrice(price.total)}</span>
+        </div>
+        <p className="text-[10px] text-obsidian-500 text-right">
+          inkl. {Math.round(price.vatRate * 100)} % MwSt. ({formatPrice(price.vat)})
+        </p>
+      </div>
+
+      {/* Options adjusted automatically by the last change */}
+      {dependencyChanges.length > 0 && (
+        <div className="px-6 py-4 border-t border-white/10 bg-obsidian-900/50">
+          <p className="text-[10px] uppercase tracking-wider text-obsidian-500 mb-2">
+            Automatisch angepasst
+          </p>
+          <ul className="space-y-1">
+            {dependencyChanges.map((change) => (
+              <li key={`${change.ruleId}-${change.field}`} className="text-xs text-obsidian-300">
+                {describeDependencyChange(change)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </motion.div>
   );
 }
 
+// =============================================================================
+// PRICE ROW
+// =============================================================================
+
+function PriceRow({ label, amount }: { label: string; amount: number }) {
+  return (
+    <div className="flex justify-between text-obsidian-400">
+      <span>{label}</span>
+      <span className="text-obsidian-200">{formatPrice(amount)}</span>
+    </div>
+  );
+}
+
 // =============================================================================
 // CONFIG ITEM COMPONENT
 // =============================================================================
 
-function ConfigItem({ label, children }: { label: string; children: React.ReactNode }) {
+interface ConfigItemProps {
+  label: string;
+  children: React.ReactNode;
+  fields: OptionField[];
+  availability: OptionAvailabilityMap;
+  /** Name of the package that includes the current choice */
+  includedIn?: string;
+  expanded: boolean;
+  onToggle: () => void;
+  onSelect: (field: OptionField, key: string) => void;
+}
+
+function ConfigItem({ label, children, fields, availability, includedIn, expanded, onToggle, onSelect }: ConfigItemProps) {
+  const blockedCount = fields.reduce(
+    (count, field) => count + availability[field].filter(o => o.status === 'block').length,
+    0
+  );
+
   return (
     <div className="space-y-1">
-      <p className="text-[10px] text-obsidian-500 uppercase tracking-wider">{label}</p>
+      <button onClick={onToggle} className="w-full flex items-center justify-between text-left">
+        <p className="text-[10px] text-obsidian-500 uppercase tracking-wider">{label}</p>
+        {blockedCount > 0 && (
+          <span className="text-[10px] text-obsidian-600">{blockedCount} nicht verfügbar</span>
+        )}
+      </button>
       {children}
+      {includedIn && (
+        <p className="text-[10px] text-obsidian-500">im {includedIn} enthalten</p>
+      )}
+
+      <AnimatePresence>
+        {expanded && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="overflow-hidden pt-2 space-y-2"
+          >
+            {fields.map((field) => (
+              <div key={field} className="space-y-1">
+                {fields.length > 1 && (
+                  <p className="text-[10px] text-obsidian-600">{getDimension(field).label}</p>
+                )}
+                {availability[field].map((option) => (
+                  <OptionRow key={option.key} option={option} onSelect={() => onSelect(field, option.key)} />
+                ))}
+              </div>
+            ))}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
+
+// =============================================================================
+// PACKAGES (add-on bundles)
+// =============================================================================
+
+interface PackagesItemProps {
+  config: CarConfig;
+  expanded: boolean;
+  onToggle: () => void;
+  onTogglePackage: (packageId: string) => void;
+}
+
+function PackagesItem({ config, expanded, onToggle, onTogglePackage }: PackagesItemProps) {
+  const addons = AVAILABLE_PACKAGES.filter((pkg) => pkg.kind === 'addon' && isPackageOffered(config.model, pkg.id));
+  const selected = addons.filter((pkg) => config.packages.includes(pkg.id));
+
+  return (
+    <div className="space-y-1">
+      <button onClick={onToggle} className="w-full flex items-center justify-between text-left">
+        <p className="text-[10px] text-obsidian-500 uppercase tracking-wider">Pakete</p>
+      </button>
+      <span className="text-xs text-obsidian-200">
+        {selected.length > 0 ? selected.map((pkg) => pkg.name).join(', ') : 'Keine'}
+      </span>
+
+      <AnimatePresence>
+        {expanded && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="overflow-hidden pt-2 space-y-1"
+          >
+            {addons.map((pkg) => (
+              <PackageRow
+                key={pkg.id}
+                pkg={pkg}
+                selected={config.packages.includes(pkg.id)}
+                onToggle={() => onTogglePackage(pkg.id)}
+              />
+            ))}
+          </motion.div>
+        )}
+      </AnimatePresence>
     </div>
   );
 }
 
+function PackageRow({ pkg, selected, onToggle }: { pkg: PackageOption; selected: boolean; onToggle: () => void }) {
+  const includedValue = getIncludedValue(pkg);
+
+  return (
+    <button
+      onClick={onToggle}
+      title={pkg.description}
+      className={`
+        w-full px-2 py-1 rounded text-left text-[11px] transition-colors
+        ${selected ? 'bg-bmw-blue/20 text-white' : 'text-obsidian-300 hover:bg-white/5'}
+      `}
+    >
+      <span className="flex items-center justify-between gap-2">
+        <span className="truncate">{pkg.name}</span>
+        <span className="text-obsidian-500 flex-shrink-0">+{formatPrice(pkg.price)}</span>
+      </span>
+      {includedValue > pkg.price && (
+        <span className="block text-[10px] text-green-400">
+          {formatPrice(includedValue - pkg.price)} günstiger als einzeln
+        </span>
+      )}
+    </button>
+  );
+}
+
+// =============================================================================
+// SAVED CONFIGURATIONS
+// =============================================================================
+
+function SavedConfigurationsItem({ expanded, onToggle }: { expanded: boolean; onToggle: () => void }) {
+  const savedConfigurations = useConfigStore((state) => state.savedConfigurations);
+  const saveConfiguration = useConfigStore((state) => state.saveConfiguration);
+  const loadConfiguration = useConfigStore((state) => state.loadConfiguration);
+  const deleteConfiguration = useConfigStore((state) => state.deleteConfiguration);
+  const compareConfigurations = useConfigStore((state) => state.compareConfigurations);
+  const [name, setName] = useState('');
+  const [notice, setNotice] = useState<string[]>([]);
+
+  const onSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveConfiguration(name);
+    setName('');
+  };
+
+  const onLoad = (id: string) => {
+    const unknownIds = loadConfiguration(id) ?? [];
+    setNotice(unknownIds.map(describeUnknownId));
+  };
+
+  return (
+    <div className="space-y-1">
+      <button onClick={onToggle} className="w-full flex items-center justify-between text-left">
+        <p className="text-[10px] text-obsidian-500 uppercase tracking-wider">Gespeichert</p>
+      </button>
+      <span className="text-xs text-obsidian-200">
+        {savedConfigurations.length > 0 ? `${savedConfigurations.length} Konfiguration(en)` : 'Keine'}
+      </span>
+
+      <AnimatePresence>
+        {expanded && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="overflow-hidden pt-2 space-y-1"
+          >
+            <form onSubmit={onSave} className="flex gap-1.5">
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Name"
+                className="flex-1 min-w-0 px-2 py-1 rounded bg-obsidian-800/60 text-[11px] text-white placeholder-obsidian-500 outline-none focus:ring-1 focus:ring-bmw-blue"
+              />
+              <button type="submit" className="px-2 py-1 rounded bg-bmw-blue text-[11px] text-white">
+                Speichern
+              </button>
+            </form>
+
+            {savedConfigurations.map((saved) => (
+              <div key={saved.id} className="flex items-center gap-1 text-[11px] text-obsidian-300">
+                <button
+                  onClick={() => onLoad(saved.id)}
+                  title={`Gespeichert am ${new Date(saved.savedAt).toLocaleString('de-DE')}`}
+                  className="flex-1 px-2 py-1 rounded text-left truncate hover:bg-white/5"
+                >
+                  {saved.name}
+                </button>
+                <button
+                  onClick={() => compareConfigurations(CURRENT_CONFIG_REF, saved.id)}
+                  title="Mit aktueller Konfiguration vergleichen"
+                  className="px-1.5 py-1 rounded text-obsidian-500 hover:text-white hover:bg-white/5"
+                >
+                  ⇄
+                </button>
+                <button
+                  onClick={() => deleteConfiguration(saved.id)}
+                  title="Löschen"
+                  className="px-1.5 py-1 rounded text-obsidian-500 hover:text-red-400 hover:bg-white/5"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+
+            {notice.map((line) => (
+              <p key={line} className="text-[10px] text-yellow-400">{line}</p>
+            ))}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
+
+// =============================================================================
+// OPTION ROW (availability of a single choice)
+// =============================================================================
+
+function OptionRow({ option, onSelect }: { option: OptionAvailability; onSelect: () => void }) {
+  const model = useConfigStore((state) => state.config.model);
+  const reasons = getActiveConstraints(model)
+    .filter((rule) => option.ruleIds.includes(rule.id))
+    .map((rule) => rule.message)
+    .join('\n');
+
+  return (
+    <button
+      onClick={onSelect}
+      disabled={option.status === 'block' || option.selected}
+      title={reasons || undefined}
+      className={`
+        w-full flex items-center justify-between gap-2 px-2 py-1 rounded text-left text-[11px] transition-colors
+        ${option.selected ? 'bg-bmw-blue/20 text-white' : 'text-obsidian-300 hover:bg-white/5'}
+        ${option.status === 'block' ? 'opacity-40 line-through cursor-not-allowed hover:bg-transparent' : ''}
+      `}
+    >
+      <span className="truncate">{option.name}</span>
+      {option.status === 'warn' && <span className="text-yellow-400 flex-shrink-0">!</span>}
+      {option.status !== 'warn' && option.price > 0 && (
+        <span className="text-obsidian-500 flex-shrink-0">+{option.price.toLocaleString('de-DE')} €</span>
+      )}
+    </button>
+  );
+}
+
 // =============================================================================
 // LABEL HELPERS
 // =============================================================================
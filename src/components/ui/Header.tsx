@@ -1,11 +1,20 @@
 /**
  * Header Component
  *
- * Displays BMW logo and price - clean minimal design
+ * Displays BMW logo, undo/redo, share link, spec sheet, AI settings and price - clean minimal design
  */
 
+import { useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
 import { useConfigStore } from '../../stores/configStore';
+import { calculatePrice, formatPrice } from '../../config/pricing';
+import { getModel } from '../../config/models';
+import { encodeConfigCode, getShareUrl } from '../../config/shareCode';
+import { printSpecSheet } from '../../services/specSheet';
+import { captureSceneSnapshot } from '../3d/snapshot';
+import { LLMSettingsButton } from './LLMSettingsPanel';
+import { MeshInspectorButton } from './MeshInspector';
+import type { CarConfig } from '../../types';
 
 // =============================================================================
 // BMW LOGO SVG - Simplified
@@ -24,22 +33,95 @@ function BMWLogo() {
   );
 }
 
+// =============================================================================
+// UNDO / REDO
+// =============================================================================
+
+function HistoryButton({ direction, label, onClick }: {
+  direction: 'undo' | 'redo';
+  label?: string;
+  onClick: () => void;
+}) {
+  const title = direction === 'undo' ? 'Rückgängig' : 'Wiederholen';
+  const shortcut = direction === 'undo' ? 'Strg+Z' : 'Strg+Umschalt+Z';
+
+  return (
+    <button
+      onClick={onClick}
+      disabled={!label}
+      title={label ? `${title}: ${label} (${shortcut})` : title}
+      className="p-2 rounded-lg text-obsidian-300 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent disabled:cursor-not-allowed transition-colors"
+    >
+      <svg className={`w-4 h-4 ${direction === 'redo' ? '-scale-x-100' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+      </svg>
+    </button>
+  );
+}
+
+// =============================================================================
+// SHARE
+// =============================================================================
+
+function ShareButton({ config }: { config: CarConfig }) {
+  const [copied, setCopied] = useState(false);
+
+  const onShare = async () => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(config));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Clipboard error:', error);
+    }
+  };
+
+  return (
+    <button
+      onClick={onShare}
+      title={`Link zu dieser Konfiguration kopieren (Code ${encodeConfigCode(config)})`}
+      className="glass px-3 py-2 rounded-lg text-xs text-obsidian-300 hover:text-white transition-colors"
+    >
+      {copied ? 'Link kopiert' : 'Teilen'}
+    </button>
+  );
+}
+
+// =============================================================================
+// SPEC SHEET
+// =============================================================================
+
+function SpecSheetButton() {
+  const onPrint = () => {
+    const { config, validationResult } = useConfigStore.getState();
+    const opened = printSpecSheet({ config, validation: validationResult, snapshot: captureSceneSnapshot() });
+    if (!opened) {
+      console.error('Spec sheet window was blocked');
+    }
+  };
+
+  return (
+    <button
+      onClick={onPrint}
+      title="Datenblatt drucken oder als PDF speichern"
+      className="glass px-3 py-2 rounded-lg text-xs text-obsidian-300 hover:text-white transition-colors"
+    >
+      Datenblatt
+    </button>
+  );
+}
+
 // =============================================================================
 // HEADER
 // =============================================================================
 
 export function Header() {
   const config = useConfigStore((state) => state.config);
+  const history = useConfigStore((state) => state.history);
+  const undo = useConfigStore((state) => state.undo);
+  const redo = useConfigStore((state) => state.redo);
 
-  // Calculate approximate price
-  const basePrice = 135000;
-  const colorPrice = config.color.price;
-  const wheelPrice = config.wheels.price;
-  const packagePrice =
-    config.performancePackage === 'competition' ? 12000 :
-    config.performancePackage === 'performance' ? 8000 : 0;
-  const brakePrice = config.brakes === 'ceramic' ? 8500 : config.brakes === 'performance' ? 2500 : 0;
-  const totalPrice = basePrice + colorPrice + wheelPrice + packagePrice + brakePrice;
+  const price = useMemo(() => calculatePrice(config), [config]);
 
   return (
     <motion.header
@@ -52,17 +134,31 @@ export function Header() {
       <div className="flex items-center gap-3">
         <BMWLogo />
         <div>
-          <h1 className="font-display font-bold text-xl text-white">M5 Konfigurator</h1>
+          <h1 className="font-display font-bold text-xl text-white">{getModel(config.model).shortName} Konfigurator</h1>
           <p className="text-xs text-obsidian-400">KI-gesteuert</p>
         </div>
       </div>
 
-      {/* Right: Price */}
-      <div className="glass px-4 py-2 rounded-lg">
-        <p className="text-[10px] text-obsidian-400 uppercase">Preis</p>
-        <p className="font-display font-bold text-lg text-white">
-          {totalPrice.toLocaleString('de-DE')} €
-        </p>
+      {/* Right: Undo/Redo, Share, Spec Sheet, AI Settings and Price */}
+      <div className="flex items-center gap-3">
+        <div className="glass flex items-center gap-1 p-1 rounded-lg">
+          <HistoryButton direction="undo" label={history.past[history.past.length - 1]?.label} onClick={undo} />
+          <HistoryButton direction="redo" label={history.future[history.future.length - 1]?.label} onClick={redo} />
+        </div>
+
+        <ShareButton config={config} />
+        <SpecSheetButton />
+        <LLMSettingsButton />
+        {/* Debug tool for the mesh mapping, development builds only */}
+        {import.meta.env.DEV && <MeshInspectorButton />}
+
+        <div className="glass px-4 py-2 rounded-lg">
+          <p className="text-[10px] text-obsidian-400 uppercase">Preis</p>
+          <p className="font-display font-bold text-lg text-white">
+            {formatPrice(price.total)}
+          </p>
+          <p className="text-[10px] text-obsidian-500">inkl. MwSt.</p>
+        </div>
       </div>
     </motion.header>
   );
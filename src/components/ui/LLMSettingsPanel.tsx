@@ -0,0 +1,174 @@
+/**
+ * LLM Settings Panel
+ *
+ * Header popover to switch between the server proxy, a local inference
+ * server (e.g. during development) and demo mode, and to tune the request
+ * parameters. Changes are stored as overrides of the environment defaults.
+ * The proxy's provider and model are configured on the server.
+ */
+
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useConfigStore } from '../../stores/configStore';
+import { LLM_PROVIDERS, REASONING_EFFORTS, detectCapabilities, getDefaultLLMSettings, resolveLLMSettings } from '../../services/llm';
+import type { LLMProviderId, LLMSettings, ReasoningEffort } from '../../types';
+
+const inputClass = 'w-full px-2 py-1 rounded bg-obsidian-800/60 text-[11px] text-white placeholder-obsidian-500 outline-none focus:ring-1 focus:ring-bmw-blue';
+
+// =============================================================================
+// SETTINGS BUTTON
+// =============================================================================
+
+export function LLMSettingsButton() {
+  const [open, setOpen] = useState(false);
+  const overrides = useConfigStore((state) => state.llmSettings);
+  const settings = resolveLLMSettings(overrides);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        title={`KI-Einstellungen (${settings.provider}${settings.model ? `, ${settings.model}` : ''})`}
+        className="glass px-3 py-2 rounded-lg text-xs text-obsidian-300 hover:text-white transition-colors"
+      >
+        KI
+      </button>
+      <AnimatePresence>
+        {/* Remount on open so the form starts from the stored settings */}
+        {open && <SettingsForm settings={settings} onClose={() => setOpen(false)} />}
+      </AnimatePresence>
+    </div>
+  );
+}
+
+// =============================================================================
+// FORM
+// =============================================================================
+
+function SettingsForm({ settings, onClose }: { settings: LLMSettings; onClose: () => void }) {
+  const updateLLMSettings = useConfigStore((state) => state.updateLLMSettings);
+  const resetLLMSettings = useConfigStore((state) => state.resetLLMSettings);
+  const [draft, setDraft] = useState(settings);
+
+  const capabilities = detectCapabilities(draft.baseURL, draft.model);
+  const isLocal = draft.provider === 'local';
+  const defaults = getDefaultLLMSettings(draft.provider);
+
+  const onProviderChange = (provider: LLMProviderId) => {
+    // Endpoint and model belong to the provider; tuning carries over
+    const next = getDefaultLLMSettings(provider);
+    setDraft({ ...next, reasoningEffort: draft.reasoningEffort, maxTokens: draft.maxTokens });
+  };
+
+  const onApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateLLMSettings(draft);
+    onClose();
+  };
+
+  const onReset = () => {
+    resetLLMSettings();
+    onClose();
+  };
+
+  return (
+    <motion.form
+      initial={{ opacity: 0, y: -8 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -8 }}
+      transition={{ duration: 0.15 }}
+      onSubmit={onApply}
+      className="absolute right-0 top-full mt-2 w-72 glass rounded-xl p-4 space-y-3 text-xs"
+    >
+      <h3 className="font-display font-semibold text-sm text-obsidian-100">KI-Einstellungen</h3>
+
+      <Field label="Anbieter">
+        <select
+          value={draft.provider}
+          onChange={(e) => onProviderChange(e.target.value as LLMProviderId)}
+          className={inputClass}
+        >
+          {LLM_PROVIDERS.map((provider) => (
+            <option key={provider.id} value={provider.id}>{provider.name}</option>
+          ))}
+        </select>
+      </Field>
+
+      {draft.provider !== 'demo' && (
+        <>
+          <Field label={isLocal ? 'Basis-URL' : 'Proxy-URL'}>
+            <input
+              value={draft.baseURL}
+              onChange={(e) => setDraft({ ...draft, baseURL: e.target.value })}
+              placeholder={defaults.baseURL}
+              className={inputClass}
+            />
+          </Field>
+
+          {isLocal && (
+            <Field label="Modell">
+              <input
+                value={draft.model}
+                onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+                placeholder={defaults.model}
+                className={inputClass}
+              />
+            </Field>
+          )}
+
+          <div className="flex gap-2">
+            <Field label="Reasoning">
+              <select
+                value={draft.reasoningEffort}
+                onChange={(e) => setDraft({ ...draft, reasoningEffort: e.target.value as ReasoningEffort })}
+                disabled={isLocal && !capabilities.reasoningEffort}
+                className={`${inputClass} disabled:opacity-40`}
+              >
+                {REASONING_EFFORTS.map((effort) => <option key={effort} value={effort}>{effort}</option>)}
+              </select>
+            </Field>
+            <Field label="Max. Tokens">
+              <input
+                type="number"
+                min={1}
+                value={draft.maxTokens}
+                onChange={(e) => setDraft({ ...draft, maxTokens: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </Field>
+          </div>
+
+          <p className="text-[10px] text-obsidian-500">
+            {!isLocal
+              ? 'Anbieter und Modell legt der Server fest; Max. Tokens höchstens bis zu seinem Limit'
+              : capabilities.reasoningEffort
+                ? `Reasoning-Modell: sendet reasoning_effort und ${capabilities.tokenLimitParam}`
+                : `Sendet ${capabilities.tokenLimitParam}, kein reasoning_effort`}
+          </p>
+        </>
+      )}
+
+      <div className="flex justify-between pt-1">
+        <button
+          type="button"
+          onClick={onReset}
+          className="px-2 py-1 rounded text-obsidian-400 hover:text-white hover:bg-white/10"
+        >
+          Zurücksetzen
+        </button>
+        <button type="submit" className="px-3 py-1 rounded bg-bmw-blue text-white">
+          Übernehmen
+        </button>
+      </div>
+    </motion.form>
+  );
+}
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <label className="block flex-1">
+      <span className="block mb-1 text-[10px] uppercase tracking-wider text-obsidian-500">{label}</span>
+      {children}
+    </label>
+  );
+}
@@ -0,0 +1,138 @@
+/**
+ * Mesh Inspector
+ *
+ * Debug panel for the mesh mapping of the shown model: click a part of the
+ * car to see its original mesh and material names and its category, assign
+ * a different category (by material or for this mesh only) and export the
+ * corrected mapping as the next version of the mapping file.
+ */
+
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useConfigStore, selectSceneConfig } from '../../stores/configStore';
+import { getModel } from '../../config/models';
+import { MESH_CATEGORIES, exportMeshMapping } from '../../config/meshMappings';
+import type { MeshCategory, MeshCategorySource } from '../../types';
+
+const SOURCE_LABELS: Record<MeshCategorySource, string> = {
+  mesh: 'Mesh-Zuordnung',
+  material: 'Material-Zuordnung',
+  guess: 'Nicht zugeordnet (geraten)',
+};
+
+// =============================================================================
+// TOGGLE BUTTON
+// =============================================================================
+
+export function MeshInspectorButton() {
+  const active = useConfigStore((state) => state.ui.showMeshInspector);
+  const toggleMeshInspector = useConfigStore((state) => state.toggleMeshInspector);
+
+  return (
+    <button
+      onClick={toggleMeshInspector}
+      title="Mesh-Inspektor: Bauteile anklicken, Kategorie prüfen und korrigieren"
+      className={`glass px-3 py-2 rounded-lg text-xs transition-colors ${active ? 'text-white ring-1 ring-bmw-blue' : 'text-obsidian-300 hover:text-white'}`}
+    >
+      Meshes
+    </button>
+  );
+}
+
+// =============================================================================
+// PANEL
+// =============================================================================
+
+export function MeshInspector() {
+  const active = useConfigStore((state) => state.ui.showMeshInspector);
+  const model = useConfigStore((state) => selectSceneConfig(state).model);
+  const { selected, corrections } = useConfigStore((state) => state.meshInspection);
+  const correctMeshCategory = useConfigStore((state) => state.correctMeshCategory);
+  const [target, setTarget] = useState<'material' | 'mesh'>('material');
+
+  const { meshMapping } = getModel(model).asset;
+  const assetCorrections = corrections[meshMapping.asset];
+  const correctionCount = assetCorrections
+    ? Object.keys(assetCorrections.materials).length + Object.keys(assetCorrections.meshes).length
+    : 0;
+
+  const onExport = () => {
+    const json = exportMeshMapping(meshMapping, assetCorrections);
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${meshMapping.asset.split('/').pop()?.replace(/\.glb$/, '')}.mapping.v${meshMapping.version + 1}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <AnimatePresence>
+      {active && (
+        <motion.div
+          initial={{ y: 20, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          exit={{ y: 20, opacity: 0 }}
+          transition={{ duration: 0.2 }}
+          className="fixed bottom-24 left-[300px] z-40 w-80 glass rounded-xl p-4 space-y-3 text-xs"
+        >
+          <div className="flex items-baseline justify-between">
+            <h3 className="font-display font-semibold text-sm text-obsidian-100">Mesh-Inspektor</h3>
+            <span className="text-[10px] text-obsidian-500">Mapping v{meshMapping.version}</span>
+          </div>
+
+          {!selected ? (
+            <p className="text-obsidian-400">Bauteil im 3D-Modell anklicken.</p>
+          ) : (
+            <dl className="space-y-1.5">
+              <Row label="Mesh">{selected.meshName || '(ohne Namen)'}</Row>
+              <Row label="Material">{selected.materialName}</Row>
+              <Row label="Quelle">
+                <span className={selected.source === 'guess' ? 'text-yellow-400' : undefined}>
+                  {SOURCE_LABELS[selected.source]}
+                </span>
+              </Row>
+              <Row label="Kategorie">
+                <select
+                  value={selected.category}
+                  onChange={(e) => correctMeshCategory(meshMapping.asset, target, e.target.value as MeshCategory)}
+                  className="w-full px-2 py-1 rounded bg-obsidian-800/60 text-[11px] text-white outline-none focus:ring-1 focus:ring-bmw-blue"
+                >
+                  {MESH_CATEGORIES.map((category) => <option key={category} value={category}>{category}</option>)}
+                </select>
+              </Row>
+              <Row label="Gilt für">
+                <select
+                  value={target}
+                  onChange={(e) => setTarget(e.target.value as 'material' | 'mesh')}
+                  className="w-full px-2 py-1 rounded bg-obsidian-800/60 text-[11px] text-white outline-none focus:ring-1 focus:ring-bmw-blue"
+                >
+                  <option value="material">Alle Meshes mit diesem Material</option>
+                  <option value="mesh">Nur dieses Mesh</option>
+                </select>
+              </Row>
+            </dl>
+          )}
+
+          <div className="flex items-center justify-between pt-1">
+            <span className="text-[10px] text-obsidian-500">
+              {correctionCount} {correctionCount === 1 ? 'Korrektur' : 'Korrekturen'}
+            </span>
+            <button onClick={onExport} className="px-3 py-1 rounded bg-bmw-blue text-white">
+              Mapping exportieren
+            </button>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
+
+function Row({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex items-center gap-2">
+      <dt className="w-16 shrink-0 text-[10px] uppercase tracking-wider text-obsidian-500">{label}</dt>
+      <dd className="flex-1 min-w-0 truncate text-obsidian-200">{children}</dd>
+    </div>
+  );
+}
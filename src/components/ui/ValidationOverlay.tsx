@@ -7,6 +7,10 @@
 
 import { motion, AnimatePresence } from 'framer-motion';
 import { useConfigStore } from '../../stores/configStore';
+import { getFixActions } from '../../config/constraints';
+import { calculatePrice, formatPrice } from '../../config/pricing';
+import { getModel } from '../../config/models';
+import type { FixAction } from '../../types';
 
 // =============================================================================
 // ICONS
@@ -90,6 +94,12 @@ export function ValidationOverlay() {
   const config = useConfigStore((state) => state.config);
   const showOverlay = useConfigStore((state) => state.ui.showValidationOverlay);
   const toggleOverlay = useConfigStore((state) => state.toggleValidationOverlay);
+  const repairConfig = useConfigStore((state) => state.repairConfig);
+  const applyFix = useConfigStore((state) => state.applyFix);
+
+  const fixes = getFixActions(validation, config);
+  const price = calculatePrice(config);
+  const fixFor = (ruleId: string) => fixes.find((fix) => fix.ruleId === ruleId);
 
   return (
     <AnimatePresence>
@@ -133,7 +143,7 @@ export function ValidationOverlay() {
                     {validation.isValid ? 'Konfiguration gültig' : 'Konfiguration ungültig'}
                   </h3>
                   <p className="text-sm text-obsidian-400">
-                    BMW M5 • {config.color.name}
+                    {getModel(config.model).name} • {config.color.name}
                   </p>
                 </div>
               </div>
@@ -155,6 +165,12 @@ export function ValidationOverlay() {
                 <ConfigItem label="Interieur" value={config.interior.leather} />
               </div>
 
+              {/* Price */}
+              <div className="flex items-baseline justify-between px-3 text-sm">
+                <span className="text-obsidian-500 text-xs">Gesamtpreis inkl. MwSt.</span>
+                <span className="font-display font-semibold text-obsidian-100">{formatPrice(price.total)}</span>
+              </div>
+
               {/* Blockers */}
               {validation.blockers.length > 0 && (
                 <div className="space-y-3">
@@ -170,11 +186,7 @@ export function ValidationOverlay() {
                       <p className="text-obsidian-100 font-body text-sm">
                         {blocker.message}
                       </p>
-                      {blocker.suggestedAlternative && (
-                        <p className="mt-2 text-xs text-obsidian-400">
-                          Empfehlung: {blocker.suggestedAlternative}
-                        </p>
-                      )}
+                      <FixSuggestion fix={fixFor(blocker.id)} onApply={applyFix} />
                     </div>
                   ))}
                 </div>
@@ -195,6 +207,7 @@ export function ValidationOverlay() {
                       <p className="text-obsidian-100 font-body text-sm">
                         {warning.message}
                       </p>
+                      <FixSuggestion fix={fixFor(warning.id)} onApply={applyFix} />
                     </div>
                   ))}
                 </div>
@@ -211,7 +224,16 @@ export function ValidationOverlay() {
             </div>
 
             {/* Footer */}
-            <div className="px-6 py-4 bg-obsidian-900/50 border-t border-white/5 flex justify-end">
+            <div className="px-6 py-4 bg-obsidian-900/50 border-t border-white/5 flex justify-end gap-3">
+              {!validation.isValid && (
+                <button
+                  onClick={() => repairConfig()}
+                  className="px-6 py-2 bg-obsidian-800 text-obsidian-100 rounded-lg font-body text-sm
+                             border border-white/10 hover:bg-obsidian-700 transition-colors"
+                >
+                  Automatisch korrigieren
+                </button>
+              )}
               <button
                 onClick={toggleOverlay}
                 className="px-6 py-2 bg-bmw-blue text-white rounded-lg font-body text-sm
@@ -239,3 +261,27 @@ function ConfigItem({ label, value }: { label: string; value: string }) {
     </div>
   );
 }
+
+function FixSuggestion({ fix, onApply }: { fix?: FixAction; onApply: (ruleId: string) => void }) {
+  if (!fix) return null;
+
+  return (
+    <div className="mt-3 flex items-center justify-between gap-3">
+      <p className="text-xs text-obsidian-400">
+        Empfehlung: {fix.label}
+        {fix.priceDelta !== 0 && (
+          <span className="ml-1 text-obsidian-500">
+            ({fix.priceDelta > 0 ? '+' : ''}{formatPrice(fix.priceDelta)})
+          </span>
+        )}
+      </p>
+      <button
+        onClick={() => onApply(fix.ruleId)}
+        className="px-3 py-1 bg-bmw-blue text-white rounded-md font-body text-xs
+                   hover:bg-bmw-blue-dark transition-colors flex-shrink-0"
+      >
+        Übernehmen
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+/**
+ * Configuration Comparison
+ *
+ * Diffs two configurations line by line on top of the pricing engine, so
+ * every row carries the catalog price of each side (package-included
+ * options at 0 €) and the price delta, plus the validation state of both.
+ */
+
+import type { ComparedConfig, ComparisonRow, ConfigComparison, PriceBreakdown, PriceLineItem } from '../types';
+import { calculatePrice, formatPrice } from './pricing';
+import { validateConfiguration } from './constraints';
+
+// =============================================================================
+// COMPARISON
+// =============================================================================
+
+export function compareConfigs(left: ComparedConfig, right: ComparedConfig): ConfigComparison {
+  const prices = { left: calculatePrice(left.config), right: calculatePrice(right.config) };
+  const leftItems = lineItems(prices.left);
+  const rightItems = lineItems(prices.right);
+
+  // Rows keep the pricing order; lines that only exist on the right side come last
+  const keys = [...leftItems.keys()];
+  for (const key of rightItems.keys()) {
+    if (!leftItems.has(key)) keys.push(key);
+  }
+
+  const rows = keys.map((key): ComparisonRow => {
+    const a = leftItems.get(key) ?? null;
+    const b = rightItems.get(key) ?? null;
+    return {
+      id: key,
+      label: (a ?? b)!.label,
+      left: a,
+      right: b,
+      differs: a?.id !== b?.id || a?.price !== b?.price,
+      priceDelta: (b?.price ?? 0) - (a?.price ?? 0),
+    };
+  });
+
+  return {
+    left,
+    right,
+    rows,
+    prices,
+    validation: {
+      left: validateConfiguration(left.config),
+      right: validateConfiguration(right.config),
+    },
+    totalDelta: prices.right.total - prices.left.total,
+  };
+}
+
+/**
+ * Line items keyed by what they describe: the field for options, the
+ * package id for add-on packages
+ */
+function lineItems(price: PriceBreakdown): Map<string, PriceLineItem> {
+  const items = new Map<string, PriceLineItem>([['base', price.base]]);
+  for (const item of [...price.packages, ...price.options]) {
+    items.set(item.field ?? item.id, item);
+  }
+  return items;
+}
+
+// =============================================================================
+// DESCRIPTION (for chat)
+// =============================================================================
+
+/**
+ * German summary of the differences, e.g. for the AI's answer
+ */
+export function describeComparison(comparison: ConfigComparison): string {
+  const { left, right } = comparison;
+  const differences = comparison.rows.filter(row => row.differs);
+  const status = (side: 'left' | 'right') => comparison.validation[side].isValid ? 'gültig' : 'ungültig';
+
+  if (differences.length === 0) {
+    return `„${left.name}“ und „${right.name}“ sind identisch (${formatPrice(comparison.prices.left.total)}).`;
+  }
+
+  const lines = differences.map(row => {
+    const delta = row.priceDelta === 0 ? '' : ` (${row.priceDelta > 0 ? '+' : ''}${formatPrice(row.priceDelta)})`;
+    return `• ${row.label}: ${row.left?.name ?? '-'} → ${row.right?.name ?? '-'}${delta}`;
+  });
+
+  return [
+    `Unterschiede „${left.name}“ → „${right.name}“:`,
+    ...lines,
+    `Gesamtpreis: ${formatPrice(comparison.prices.left.total)} → ${formatPrice(comparison.prices.right.total)} (${comparison.totalDelta >= 0 ? '+' : ''}${formatPrice(comparison.totalDelta)})`,
+    `Status: ${left.name} ${status('left')}, ${right.name} ${status('right')}`,
+  ].join('\n');
+}
@@ -8,125 +8,53 @@
  * ein Modell zu konfigurieren ist bei 2^40 (2 hoch 40)"
  */
 
-import type { CarConfig, ConstraintRule, ValidationResult } from '../types';
+import type { CarConfig, ConstraintRule, FixAction, ModelId, OptionAvailabilityMap, OptionField, RuleSet, ValidationResult } from '../types';
+import { compileRule, compileRuleSet, collectPaths } from './ruleEngine';
+import { OPTION_DIMENSIONS, applyOption, fieldForPath, getDimension, toConfigChanges } from './options';
+import { getIncludingPackage, getPackageRules } from './packages';
+import { getPriceDelta } from './pricing';
+import { DEFAULT_MODEL, getModel, getOfferedOptions } from './models';
+
+export { BMW_M5_RULE_SET, BMW_5_SERIES_RULE_SET } from './ruleSets';
 
 // =============================================================================
-// BMW M5 CONSTRAINT RULES
+// ACTIVE RULE SETS (one per model, swappable at runtime)
 // =============================================================================
 
-export const BMW_M5_CONSTRAINTS: ConstraintRule[] = [
-  // --------------------------------------------------------------------------
-  // WHEEL CONSTRAINTS - The example from the interview!
-  // --------------------------------------------------------------------------
-  {
-    id: 'M5_REQUIRES_M_WHEELS',
-    description: 'M5 Sportwagen erfordert M Sport Felgen',
-    condition: (config) =>
-      config.model === 'M5' &&
-      !config.wheels.id.startsWith('m-'),
-    message: 'Der BMW M5 Sportwagen erfordert M Sport Felgen. Standard-Alufelgen sind für dieses Hochleistungsfahrzeug nicht verfügbar.',
-    severity: 'block',
-    suggestedAlternative: 'm-double-spoke-20',
-    category: 'wheels'
-  },
-  {
-    id: 'M_COMPETITION_21_INCH',
-    description: 'M Competition Package erfordert 21 Zoll Felgen',
-    condition: (config) =>
-      config.performancePackage === 'competition' &&
-      !config.wheels.id.includes('21'),
-    message: 'Das M Competition Paket ist nur mit 21 Zoll Felgen kompatibel für optimale Bremsleistung.',
-    severity: 'block',
-    suggestedAlternative: 'm-star-spoke-21',
-    category: 'wheels'
-  },
-
-  // --------------------------------------------------------------------------
-  // BRAKE CONSTRAINTS
-  // --------------------------------------------------------------------------
-  {
-    id: 'CERAMIC_BRAKES_PERFORMANCE',
-    description: 'Keramikbremsen erfordern Performance-Paket',
-    condition: (config) =>
-      config.brakes === 'ceramic' &&
-      config.performancePackage === 'none',
-    message: 'Die M Carbon Keramikbremsen sind nur in Kombination mit einem M Performance Paket verfügbar.',
-    severity: 'block',
-    suggestedAlternative: 'performance',
-    category: 'brakes'
-  },
-
-  // --------------------------------------------------------------------------
-  // COLOR CONSTRAINTS
-  // --------------------------------------------------------------------------
-  {
-    id: 'FROZEN_COLOR_M5',
-    description: 'Frozen Lackierungen nur für M5',
-    condition: (config) =>
-      config.color.id.startsWith('frozen-') &&
-      config.model !== 'M5',
-    message: 'Frozen Individual Lackierungen sind exklusiv für den BMW M5 verfügbar.',
-    severity: 'block',
-    suggestedAlternative: 'sapphire-black',
-    category: 'color'
-  },
-
-  // --------------------------------------------------------------------------
-  // INTERIOR CONSTRAINTS
-  // --------------------------------------------------------------------------
-  {
-    id: 'MERINO_LEATHER_M5',
-    description: 'Extended Merino Leder erfordert M5 oder höher',
-    condition: (config) =>
-      config.interior.leather === 'extended-merino' &&
-      config.model !== 'M5',
-    message: 'Das Extended Merino Leder ist ein exklusives Feature für den BMW M5.',
-    severity: 'block',
-    suggestedAlternative: 'vernasca',
-    category: 'interior'
-  },
-  {
-    id: 'CARBON_TRIM_PERFORMANCE',
-    description: 'Carbon Interieur erfordert Performance-Paket',
-    condition: (config) =>
-      config.interior.trim === 'carbon' &&
-      config.performancePackage === 'none',
-    message: 'Das M Carbon Interieurpaket ist nur mit einem Performance-Paket erhältlich.',
-    severity: 'warn',
-    suggestedAlternative: 'aluminum',
-    category: 'interior'
-  },
-
-  // --------------------------------------------------------------------------
-  // DRIVING ASSISTANCE CONSTRAINTS
-  // --------------------------------------------------------------------------
-  {
-    id: 'DRIVING_ASSIST_PRO_LASER',
-    description: 'Driving Assistant Pro erfordert Laserlicht',
-    condition: (config) =>
-      config.drivingAssistant === 'pro' &&
-      config.lights !== 'laser',
-    message: 'Der Driving Assistant Professional nutzt das Laserlicht-System für optimale Funktionalität.',
-    severity: 'warn',
-    suggestedAlternative: 'laser',
-    category: 'tech'
-  },
-
-  // --------------------------------------------------------------------------
-  // SOUND CONSTRAINTS
-  // --------------------------------------------------------------------------
-  {
-    id: 'HARMAN_KARDON_MIN',
-    description: 'M5 inkludiert mindestens Harman Kardon',
-    condition: (config) =>
-      config.model === 'M5' &&
-      config.sound === 'standard',
-    message: 'Der BMW M5 wird serienmäßig mit dem Harman Kardon Surround Sound System ausgestattet.',
-    severity: 'warn',
-    suggestedAlternative: 'harman-kardon',
-    category: 'tech'
-  },
-];
+// Mandatory package options are enforced alongside whichever rule set is active
+const PACKAGE_CONSTRAINTS: ConstraintRule[] = getPackageRules().map(compileRule);
+
+const activeRuleSets = new Map<ModelId, { ruleSet: RuleSet; constraints: ConstraintRule[] }>();
+
+function getActiveEntry(model: ModelId) {
+  let entry = activeRuleSets.get(model);
+  if (!entry) {
+    const ruleSet = getModel(model).ruleSet;
+    entry = { ruleSet, constraints: [...compileRuleSet(ruleSet), ...PACKAGE_CONSTRAINTS] };
+    activeRuleSets.set(model, entry);
+  }
+  return entry;
+}
+
+/**
+ * Replaces the rule set used to validate configurations of `model`
+ * (by default the model named in the rule set, else the default model).
+ * Callers holding a ValidationResult must revalidate afterwards.
+ */
+export function setActiveRuleSet(ruleSet: RuleSet, model: ModelId = ruleSet.model ?? DEFAULT_MODEL): void {
+  activeRuleSets.set(model, {
+    ruleSet,
+    constraints: [...compileRuleSet(ruleSet), ...PACKAGE_CONSTRAINTS],
+  });
+}
+
+export function getActiveRuleSet(model: ModelId = DEFAULT_MODEL): RuleSet {
+  return getActiveEntry(model).ruleSet;
+}
+
+export function getActiveConstraints(model: ModelId = DEFAULT_MODEL): ConstraintRule[] {
+  return getActiveEntry(model).constraints;
+}
 
 // =============================================================================
 // VALIDATION ENGINE
@@ -141,7 +69,7 @@ export function validateConfiguration(config: CarConfig): ValidationResult {
     triggered: boolean;
   }> = [];
 
-  for (const rule of BMW_M5_CONSTRAINTS) {
+  for (const rule of getActiveConstraints(config.model)) {
     if (rule.condition(config)) {
       violations.push({ rule, triggered: true });
     }
@@ -158,6 +86,45 @@ export function validateConfiguration(config: CarConfig): ValidationResult {
   };
 }
 
+/**
+ * Checks every option the model offers against the current configuration: would
+ * choosing it be valid, warned or blocked, and by which rules. Only rules
+ * that read the option's field are considered, so an unrelated existing
+ * blocker does not grey out every other choice.
+ */
+export function getOptionAvailability(config: CarConfig): OptionAvailabilityMap {
+  const constraints = getActiveConstraints(config.model);
+  const fieldsByRule = new Map<ConstraintRule, Set<OptionField | null>>(
+    constraints.map(rule => [rule, new Set([...collectPaths(rule.when)].map(fieldForPath))])
+  );
+  const availability = {} as OptionAvailabilityMap;
+
+  for (const dimension of OPTION_DIMENSIONS) {
+    const rules = constraints.filter(rule => fieldsByRule.get(rule)!.has(dimension.field));
+    const selectedKey = dimension.key(dimension.get(config));
+
+    availability[dimension.field] = getOfferedOptions(config.model, dimension).map(option => {
+      const candidate = dimension.set(config, option);
+      const violated = rules.filter(rule => rule.condition(candidate));
+      const key = dimension.key(option);
+
+      return {
+        field: dimension.field,
+        key,
+        name: dimension.name(option),
+        price: getIncludingPackage(candidate, dimension.field) ? 0 : dimension.price(option),
+        selected: key === selectedKey,
+        status: violated.some(rule => rule.severity === 'block') ? 'block'
+          : violated.length > 0 ? 'warn'
+          : 'valid',
+        ruleIds: violated.map(rule => rule.id),
+      };
+    });
+  }
+
+  return availability;
+}
+
 /**
  * Gets a human-readable explanation of why a configuration is invalid
  * (for the AI to use in responses)
@@ -187,54 +154,39 @@ export function getValidationExplanation(result: ValidationResult): string {
 }
 
 /**
- * Suggests fixes for invalid configurations
+ * Resolves the typed fix of every violated rule against the given config,
+ * including the price impact, so it can be applied in one step
  */
-export function suggestFixes(result: ValidationResult, _config: CarConfig): string[] {
-  const suggestions: string[] = [];
+export function getFixActions(result: ValidationResult, config: CarConfig): FixAction[] {
+  const actions: FixAction[] = [];
 
   for (const rule of [...result.blockers, ...result.warnings]) {
-    if (rule.suggestedAlternative) {
-      switch (rule.category) {
-        case 'wheels':
-          suggestions.push(`Felgen ändern zu: ${getWheelName(rule.suggestedAlternative)}`);
-          break;
-        case 'brakes':
-          suggestions.push(`Performance-Paket hinzufügen für Keramikbremsen`);
-          break;
-        case 'color':
-          suggestions.push(`Farbe ändern zu: ${getColorName(rule.suggestedAlternative)}`);
-          break;
-        case 'interior':
-          suggestions.push(`Interieur ändern zu: ${rule.suggestedAlternative}`);
-          break;
-        case 'tech':
-          suggestions.push(`Ausstattung hinzufügen: ${rule.suggestedAlternative}`);
-          break;
-      }
-    }
+    if (!rule.fix) continue;
+
+    const dimension = getDimension(rule.fix.field);
+    const fixed = applyOption(config, rule.fix.field, rule.fix.value);
+    if (!fixed) continue;
+
+    const target = dimension.get(fixed);
+    actions.push({
+      ...rule.fix,
+      ruleId: rule.id,
+      label: `${dimension.label}: ${dimension.name(target)}`,
+      priceDelta: getPriceDelta(config, fixed),
+      changes: toConfigChanges(fixed, [rule.fix.field]),
+    });
   }
 
-  return suggestions;
-}
-
-// =============================================================================
-// HELPER FUNCTIONS
-// =============================================================================
-
-function getWheelName(id: string): string {
-  const wheels: Record<string, string> = {
-    'm-double-spoke-20': 'M Doppelspeiche 20"',
-    'm-star-spoke-21': 'M Sternspeiche 21"',
-    'm-y-spoke-21': 'M Y-Speiche 21"',
-  };
-  return wheels[id] || id;
+  return actions;
 }
 
-function getColorName(id: string): string {
-  const colors: Record<string, string> = {
-    'sapphire-black': 'Saphirschwarz Metallic',
-    'alpine-white': 'Alpinweiß',
-    'brooklyn-grey': 'Brooklyn Grau Metallic',
-  };
-  return colors[id] || id;
+/**
+ * Suggests fixes for invalid configurations
+ */
+export function suggestFixes(result: ValidationResult, config: CarConfig): string[] {
+  return getFixActions(result, config).map(action =>
+    action.priceDelta === 0
+      ? action.label
+      : `${action.label} (${action.priceDelta > 0 ? '+' : ''}€${action.priceDelta.toLocaleString('de-DE')})`
+  );
 }
@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { CarConfig } from '../types';
+import { BMW_M5_RULE_SET, setActiveRuleSet } from './constraints';
+import { describeDependencyChange, resolveDependencies } from './dependencies';
+import { getModel } from './models';
+import { getPriceDelta } from './pricing';
+
+const M5 = getModel('M5').defaults;
+
+function steps(previous: CarConfig, next: CarConfig) {
+  return resolveDependencies(previous, next).changes.map(change => [change.ruleId, change.kind, change.field, change.to]);
+}
+
+afterEach(() => {
+  setActiveRuleSet(BMW_M5_RULE_SET);
+});
+
+describe('resolveDependencies', () => {
+  it('leaves a change without violated rules alone', () => {
+    expect(resolveDependencies(M5, { ...M5, sound: 'bowers-wilkins' })).toEqual({
+      config: { ...M5, sound: 'bowers-wilkins' },
+      changes: [],
+      priceDelta: 0,
+    });
+  });
+
+  it('adds what a selected option requires', () => {
+    const previous: CarConfig = { ...M5, performancePackage: 'none', brakes: 'standard' };
+    const resolution = resolveDependencies(previous, { ...previous, brakes: 'ceramic' });
+
+    expect(resolution.config.performancePackage).toBe('performance');
+    expect(resolution.priceDelta).toBe(8000);
+    expect(resolution.changes.map(describeDependencyChange)).toEqual([
+      'Performance-Paket: Kein Paket → M Performance (+8.000 €, erforderlich)',
+    ]);
+  });
+
+  it('uses the otherwise fix instead of overriding the field the user set', () => {
+    const previous: CarConfig = { ...M5, brakes: 'ceramic' };
+    const resolution = resolveDependencies(previous, { ...previous, performancePackage: 'none' });
+
+    expect(resolution.config).toMatchObject({ performancePackage: 'none', brakes: 'performance' });
+    expect(steps(previous, { ...previous, performancePackage: 'none' })).toEqual([
+      ['CERAMIC_BRAKES_PERFORMANCE', 'requires', 'brakes', 'M Performance'],
+    ]);
+  });
+
+  it('replaces an option the selection excludes', () => {
+    setActiveRuleSet({
+      id: 'test',
+      version: 1,
+      rules: [{
+        id: 'CERAMIC_EXCLUDES_CARBON',
+        description: 'Test',
+        when: {
+          op: 'and',
+          all: [
+            { op: 'equals', path: 'brakes', value: 'ceramic' },
+            { op: 'equals', path: 'interior.trim', value: 'carbon' },
+          ],
+        },
+        message: 'Test',
+        severity: 'block',
+        fix: { field: 'interior.trim', value: 'aluminum' },
+        autoResolve: { kind: 'excludes' },
+        category: 'interior',
+      }],
+    }, 'M5');
+    const previous: CarConfig = { ...M5, interior: { ...M5.interior, trim: 'carbon' } };
+
+    expect(steps(previous, { ...previous, brakes: 'ceramic' })).toEqual([
+      ['CERAMIC_EXCLUDES_CARBON', 'excludes', 'interior.trim', 'Aluminium Rhombicle'],
+    ]);
+  });
+
+  it('brings the options of an added package along and reverts them on removal', () => {
+    const withComfort = resolveDependencies(M5, { ...M5, packages: ['comfort'] }).config;
+    expect(withComfort.interior.leather).toBe('extended-merino');
+    expect(steps(M5, { ...M5, packages: ['comfort'] })).toEqual([
+      ['PACKAGE_COMFORT', 'includes', 'interior.leather', 'Extended Merino'],
+    ]);
+
+    const removed = resolveDependencies(withComfort, { ...withComfort, packages: [] });
+    expect(removed.config.interior.leather).toBe('merino');
+    expect(removed.config.sound).toBe('standard');
+    expect(removed.changes.map(change => change.kind)).toEqual(['reverts', 'reverts']);
+  });
+
+  it('cascades: an included option triggers the rules it reads', () => {
+    const previous: CarConfig = { ...M5, lights: 'led' };
+    const resolution = resolveDependencies(previous, { ...previous, packages: ['technology'] });
+
+    expect(resolution.config).toMatchObject({ drivingAssistant: 'pro', lights: 'laser' });
+    expect(steps(previous, { ...previous, packages: ['technology'] })).toEqual([
+      ['PACKAGE_TECHNOLOGY', 'includes', 'drivingAssistant', 'Driving Assistant Professional'],
+      ['DRIVING_ASSIST_PRO_LASER', 'requires', 'lights', 'BMW Laserlicht'],
+    ]);
+    expect(resolution.priceDelta).toBe(resolution.changes.reduce((sum, change) => sum + change.priceDelta, 0));
+  });
+
+  it('reports add-on packages a model switch drops, with the price of every step', () => {
+    const previous: CarConfig = { ...M5, packages: ['comfort'], interior: { ...M5.interior, leather: 'extended-merino' } };
+    const next: CarConfig = { ...previous, model: '5-series' };
+    const resolution = resolveDependencies(previous, next);
+
+    expect(resolution.config.packages).toEqual([]);
+    expect(resolution.changes[0]).toMatchObject({ kind: 'unavailable', field: 'packages', from: 'Comfort Paket', to: 'entfernt' });
+    // The base price difference is the customer's own change, not part of the cascade
+    expect(resolution.priceDelta).toBe(getPriceDelta(next, resolution.config));
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Dependency Resolution ("requires" / "excludes" / "includes")
+ *
+ * Rules that declare `autoResolve` are not left to turn validation red:
+ * when a change violates them, the store applies the rule's fix (or its
+ * `otherwise` fix) and reports the cascade with its price impact, the way
+ * OEM configurators handle option dependencies. Packages added or removed
+ * in the change bring or revert their included options first, and a model
+ * switch replaces options the new model does not offer before that.
+ */
+
+import type { CarConfig, ConstraintRule, DependencyChange, FixTarget, OptionField } from '../types';
+import { getActiveConstraints } from './constraints';
+import { collectPaths } from './ruleEngine';
+import { OPTION_DIMENSIONS, applyOption, fieldForPath, getDimension } from './options';
+import { getPackage, getPackageAdjustments, packageRuleId } from './packages';
+import { getPriceDelta } from './pricing';
+import { getModel, isOffered, isPackageOffered } from './models';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface DependencyResolution {
+  config: CarConfig;
+  changes: DependencyChange[];
+  priceDelta: number;
+}
+
+type TriggerField = OptionField | 'model' | 'packages';
+
+interface ResolvedStep {
+  change: DependencyChange;
+  config: CarConfig;
+}
+
+// Guards against rule sets whose fixes keep re-triggering each other
+const MAX_CASCADE_STEPS = 8;
+
+// =============================================================================
+// RESOLVER
+// =============================================================================
+
+/**
+ * Resolves the dependencies of a change from `previous` to `next`.
+ *
+ * Only rules that read a field changed in this step (by the user or by the
+ * cascade itself) are resolved, and a field the user set explicitly is never
+ * overridden - if a rule's fix targets it, the `otherwise` fix is used.
+ */
+export function resolveDependencies(previous: CarConfig, next: CarConfig): DependencyResolution {
+  const touched = new Set<TriggerField>(getChangedFields(previous, next));
+  const userFields = new Set(touched);
+  const changes: DependencyChange[] = [];
+  let config = next;
+
+  const record = (resolved: ResolvedStep) => {
+    config = resolved.config;
+    touched.add(resolved.change.field);
+    changes.push(resolved.change);
+  };
+
+  // A new model keeps the options it offers and falls back to its defaults for the rest
+  if (previous.model !== next.model) {
+    const model = getModel(next.model);
+    for (const id of config.packages.filter(id => !isPackageOffered(model.id, id))) {
+      const dropped = { ...config, packages: config.packages.filter(other => other !== id) };
+      const pkg = getPackage(id);
+      record({
+        change: {
+          ruleId: pkg ? packageRuleId(pkg) : 'MODEL_CATALOG',
+          kind: 'unavailable',
+          field: 'packages',
+          from: pkg?.name ?? id,
+          to: 'entfernt',
+          priceDelta: getPriceDelta(config, dropped),
+        },
+        config: dropped,
+      });
+    }
+    // The new model's rule set applies to every option, not just the changed ones
+    OPTION_DIMENSIONS.forEach(d => touched.add(d.field));
+
+    for (const dimension of OPTION_DIMENSIONS) {
+      if (userFields.has(dimension.field)) continue;
+      if (isOffered(model.id, dimension.field, dimension.key(dimension.get(config)))) continue;
+
+      const fallback = { field: dimension.field, value: dimension.key(dimension.get(model.defaults)) } as FixTarget;
+      const resolved = applyStep(config, 'MODEL_CATALOG', 'unavailable', fallback);
+      if (resolved) record(resolved);
+    }
+  }
+
+  for (const adjustment of getPackageAdjustments(previous, config)) {
+    if (userFields.has(adjustment.target.field)) continue;
+    const resolved = applyStep(config, packageRuleId(adjustment.package), adjustment.kind, adjustment.target);
+    if (resolved) record(resolved);
+  }
+
+  for (let step = 0; step < MAX_CASCADE_STEPS; step++) {
+    const resolved = resolveNext(config, touched, userFields);
+    if (!resolved) break;
+    record(resolved);
+  }
+
+  return {
+    config,
+    changes,
+    priceDelta: changes.reduce((sum, change) => sum + change.priceDelta, 0),
+  };
+}
+
+function resolveNext(
+  config: CarConfig,
+  touched: Set<TriggerField>,
+  userFields: Set<TriggerField>
+): ResolvedStep | null {
+  for (const rule of getActiveConstraints(config.model)) {
+    if (!rule.autoResolve || !rule.fix) continue;
+    if (!readsAny(rule, touched) || !rule.condition(config)) continue;
+
+    const target = userFields.has(rule.fix.field) ? rule.autoResolve.otherwise : rule.fix;
+    if (!target || userFields.has(target.field)) continue;
+
+    const resolved = applyStep(config, rule.id, rule.autoResolve.kind, target);
+    if (resolved) return resolved;
+  }
+
+  return null;
+}
+
+/**
+ * Applies one target and records it; null if the option is unknown or already selected
+ */
+function applyStep(
+  config: CarConfig,
+  ruleId: string,
+  kind: DependencyChange['kind'],
+  target: FixTarget
+): ResolvedStep | null {
+  const resolved = applyOption(config, target.field, target.value);
+  if (!resolved) return null;
+
+  const dimension = getDimension(target.field);
+  const from = dimension.get(config);
+  const to = dimension.get(resolved);
+  if (dimension.key(from) === dimension.key(to)) return null;
+
+  return {
+    change: {
+      ruleId,
+      kind,
+      field: target.field,
+      from: dimension.name(from),
+      to: dimension.name(to),
+      priceDelta: getPriceDelta(config, resolved),
+    },
+    config: resolved,
+  };
+}
+
+function readsAny(rule: ConstraintRule, fields: Set<TriggerField>): boolean {
+  for (const path of collectPaths(rule.when)) {
+    const field = path === 'model' || path === 'packages' ? path : fieldForPath(path);
+    if (field && fields.has(field)) return true;
+  }
+  return false;
+}
+
+function getChangedFields(previous: CarConfig, next: CarConfig): TriggerField[] {
+  const fields: TriggerField[] = OPTION_DIMENSIONS
+    .filter(d => d.key(d.get(previous)) !== d.key(d.get(next)))
+    .map(d => d.field);
+  if (previous.model !== next.model) fields.push('model');
+  if (previous.packages.join() !== next.packages.join()) fields.push('packages');
+  return fields;
+}
+
+// =============================================================================
+// DESCRIPTION (for chat and UI notices)
+// =============================================================================
+
+const KIND_LABELS: Record<DependencyChange['kind'], string> = {
+  requires: 'erforderlich',
+  excludes: 'nicht kombinierbar',
+  includes: 'im Paket enthalten',
+  reverts: 'Paket entfernt',
+  unavailable: 'für dieses Modell nicht erhältlich',
+};
+
+/**
+ * German one-liner per automatic change, e.g.
+ * 'Performance-Paket: Kein Paket → M Performance (+8.000 €, erforderlich)'
+ */
+export function describeDependencyChange(change: DependencyChange): string {
+  const price = change.priceDelta === 0
+    ? ''
+    : `${change.priceDelta > 0 ? '+' : ''}${change.priceDelta.toLocaleString('de-DE')} €, `;
+  const label = change.field === 'packages' ? 'Zusatzpakete' : getDimension(change.field).label;
+  return `${label}: ${change.from} → ${change.to} (${price}${KIND_LABELS[change.kind]})`;
+}
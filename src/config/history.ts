@@ -0,0 +1,105 @@
+/**
+ * Configuration History
+ *
+ * Undo/redo stacks of configuration snapshots. Every committed change
+ * pushes the previous config with a label describing the step; undo and
+ * redo swap snapshots between the stacks. Labels are German, e.g.
+ * 'KI: Felgen → M Sternspeiche 21"'.
+ */
+
+import type { CarConfig, ConfigHistory, HistoryEntry } from '../types';
+import { AVAILABLE_PACKAGES } from '../types';
+import { OPTION_DIMENSIONS } from './options';
+import { getModel } from './models';
+
+// =============================================================================
+// STACKS
+// =============================================================================
+
+/** Maximum number of undo steps kept */
+export const HISTORY_LIMIT = 50;
+
+export const EMPTY_HISTORY: ConfigHistory = { past: [], future: [] };
+
+/**
+ * Records a step away from `previous`; clears the redo stack
+ */
+export function recordStep(history: ConfigHistory, previous: CarConfig, label: string): ConfigHistory {
+  const entry: HistoryEntry = { config: previous, label, timestamp: new Date() };
+  return {
+    past: [...history.past, entry].slice(-HISTORY_LIMIT),
+    future: [],
+  };
+}
+
+/**
+ * Steps back to the last snapshot; the current config moves to the redo stack
+ */
+export function undoStep(history: ConfigHistory, current: CarConfig): { history: ConfigHistory; entry: HistoryEntry } | null {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    history: {
+      past: history.past.slice(0, -1),
+      future: [...history.future, { ...entry, config: current }],
+    },
+    entry,
+  };
+}
+
+/**
+ * Re-applies the last undone step; the current config moves back to the undo stack
+ */
+export function redoStep(history: ConfigHistory, current: CarConfig): { history: ConfigHistory; entry: HistoryEntry } | null {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+  return {
+    history: {
+      past: [...history.past, { ...entry, config: current }],
+      future: history.future.slice(0, -1),
+    },
+    entry,
+  };
+}
+
+// =============================================================================
+// LABELS
+// =============================================================================
+
+/**
+ * One "Feld → Wert" entry per field that differs between two configs
+ */
+export function describeConfigChanges(previous: CarConfig, next: CarConfig): string[] {
+  const changes: string[] = [];
+
+  if (previous.model !== next.model) {
+    changes.push(`Modell → ${getModel(next.model).name}`);
+  }
+
+  for (const dimension of OPTION_DIMENSIONS) {
+    const before = dimension.get(previous);
+    const after = dimension.get(next);
+    if (dimension.key(before) !== dimension.key(after)) {
+      changes.push(`${dimension.label} → ${dimension.name(after)}`);
+    }
+  }
+
+  for (const pkg of AVAILABLE_PACKAGES.filter(p => p.kind === 'addon')) {
+    const before = previous.packages.includes(pkg.id);
+    const after = next.packages.includes(pkg.id);
+    if (before !== after) {
+      changes.push(`${pkg.name} ${after ? 'hinzugefügt' : 'entfernt'}`);
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Short label for a history step, optionally prefixed with its source (e.g. "KI")
+ */
+export function describeStep(previous: CarConfig, next: CarConfig, source?: string): string {
+  const changes = describeConfigChanges(previous, next);
+  const text = changes.length > 0 ? changes.join(', ') : 'Keine Änderung';
+  return source ? `${source}: ${text}` : text;
+}
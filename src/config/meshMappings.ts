@@ -0,0 +1,189 @@
+/**
+ * Mesh Mappings per Model Asset
+ *
+ * Which material group (MeshCategory) each mesh of a GLB belongs to, keyed
+ * by the original material and mesh names in the file. Plain data
+ * referenced by the model registry (models.ts); corrected versions are
+ * exported from the mesh inspector and replace the entries here.
+ *
+ * Names missing from a mapping fall back to a guess from the material
+ * name, and are reported as such in the console and the inspector.
+ */
+
+import type { MeshCategory, MeshCategorySource, MeshMapping, MeshMappingCorrections } from '../types';
+
+export const MESH_CATEGORIES: MeshCategory[] = [
+  'body', 'hood', 'glass', 'taillight', 'headlight', 'wheel', 'tire', 'caliper',
+  'interior', 'trim', 'grille', 'badge', 'carbon', 'chrome', 'other',
+];
+
+// =============================================================================
+// MAPPINGS
+// =============================================================================
+
+/**
+ * BMW M5 (Get3DModels.com). The grille materials are not listed
+ * individually yet and are still guessed.
+ */
+export const BMW_M5_MESH_MAPPING: MeshMapping = {
+  asset: '/models/bmw-m5.glb',
+  version: 1,
+  materials: {
+    Paint_Material: 'body',
+    Base_Material: 'body',
+    Window_Material: 'glass',
+    RED_GLASS: 'taillight',
+    LightA_Material: 'headlight',
+    Wheel1A_Material: 'wheel',
+    mat_wheels: 'wheel',
+    esr_cs1_gloss_black: 'wheel',
+    Tire_Shader: 'tire',
+    calipers: 'caliper',
+    Callipers: 'caliper',
+    InteriorA_Material: 'interior',
+    SeatBelt_Material: 'interior',
+    InteriorTilling: 'trim',
+    BadgeA_Material: 'badge',
+    Carbon1M_Material: 'carbon',
+    SpecularTintA_Material: 'chrome',
+    // Baked textures and decals keep their original material
+    EngineA_Material: 'other',
+    TexturedA_Material: 'other',
+  },
+  meshes: {},
+};
+
+/**
+ * Generic sedan used for the 5 Series
+ */
+export const SEDAN_MESH_MAPPING: MeshMapping = {
+  asset: '/models/car.glb',
+  version: 1,
+  materials: {
+    body_diff: 'body',
+    Lamborginhi_base_phong: 'body',
+    Lamborginhi_glass_phong: 'glass',
+    rim_: 'wheel',
+    tyre1: 'tire',
+    seats: 'interior',
+    steering1: 'interior',
+    car_inner_part: 'interior',
+    // Dashboard panel
+    blinn7: 'trim',
+  },
+  meshes: {},
+};
+
+// =============================================================================
+// LOOKUP
+// =============================================================================
+
+/**
+ * Category of a mesh: its mesh entry, else its material entry, else a guess
+ */
+export function resolveMeshCategory(
+  mapping: MeshMapping | undefined,
+  meshName: string,
+  materialName: string
+): { category: MeshCategory; source: MeshCategorySource } {
+  const byMesh = mapping?.meshes[meshName];
+  if (byMesh) return { category: byMesh, source: 'mesh' };
+
+  const byMaterial = mapping?.materials[materialName];
+  if (byMaterial) return { category: byMaterial, source: 'material' };
+
+  return { category: guessMeshCategory(materialName), source: 'guess' };
+}
+
+/**
+ * The mapping with inspector corrections applied
+ */
+export function applyMeshCorrections(mapping: MeshMapping, corrections?: MeshMappingCorrections): MeshMapping {
+  if (!corrections) return mapping;
+  return {
+    ...mapping,
+    materials: { ...mapping.materials, ...corrections.materials },
+    meshes: { ...mapping.meshes, ...corrections.meshes },
+  };
+}
+
+/**
+ * Next version of a mapping with the corrections applied, as JSON for the
+ * mapping file
+ */
+export function exportMeshMapping(mapping: MeshMapping, corrections?: MeshMappingCorrections): string {
+  const corrected = applyMeshCorrections(mapping, corrections);
+  const sorted = (entries: Record<string, MeshCategory>) =>
+    Object.fromEntries(Object.entries(entries).sort(([a], [b]) => a.localeCompare(b)));
+
+  return JSON.stringify({
+    asset: corrected.asset,
+    version: mapping.version + 1,
+    materials: sorted(corrected.materials),
+    meshes: sorted(corrected.meshes),
+  }, null, 2);
+}
+
+/**
+ * Substring heuristic for material names that are not mapped
+ */
+function guessMeshCategory(materialName: string): MeshCategory {
+  const name = materialName.toLowerCase();
+
+  // Hood, if the model has it as a separate part
+  if (name.includes('hood') || name.includes('bonnet')) return 'hood';
+
+  // Body paint - only Paint_Material should get body color
+  if (name.includes('paint_material') || name.includes('body_diff') || name.includes('base_phong')) return 'body';
+
+  // Glass/Windows
+  if (name.includes('window_material') || name === 'window' || name.includes('glass_phong')) return 'glass';
+
+  // Tail lights (red glass)
+  if (name.includes('red_glass')) return 'taillight';
+
+  // Headlights
+  if (name.includes('lighta_material') || name.includes('light_material')) return 'headlight';
+
+  // Wheels (rims)
+  if (name.includes('wheel') || name.includes('mat_wheels') || name.includes('esr_cs1') || name.startsWith('rim')) return 'wheel';
+
+  // Tires
+  if (name.includes('tire_shader') || name.includes('tire') || name.includes('tyre')) return 'tire';
+
+  // Brake calipers
+  if (name.includes('calliper') || name.includes('caliper')) return 'caliper';
+
+  // Interior trim strips (aluminium, wood or carbon)
+  if (name.includes('interiortilling') || name.includes('interior_trim')) return 'trim';
+
+  // Interior (leather)
+  if (name.includes('interior') || name.includes('seatbelt') || name.includes('seats') ||
+      name.includes('steering') || name.includes('inner_part')) return 'interior';
+
+  // Grille (kidney grille)
+  if (name.includes('grille')) return 'grille';
+
+  // Badge
+  if (name.includes('badge')) return 'badge';
+
+  // Carbon fiber
+  if (name.includes('carbon')) return 'carbon';
+
+  // Chrome/metal trim (window trim, door handles, exhaust tips, mirror caps)
+  if (name.includes('speculartint') || name.includes('chrome') ||
+      name.includes('exhaust') || name.includes('tip') ||
+      name.includes('trim') || name.includes('door_handle') ||
+      name.includes('mirror_cap') || name.includes('window_trim')) return 'chrome';
+
+  // Base material is usually body
+  if (name.includes('base_material')) return 'body';
+
+  // Engine, textured parts - keep original (these have baked textures/decals)
+  if (name.includes('engine') || name.includes('textured')) return 'other';
+
+  // TEX materials - usually misc parts with textures
+  if (name.startsWith('tex')) return 'other';
+
+  return 'other';
+}
@@ -0,0 +1,175 @@
+/**
+ * Model Registry
+ *
+ * Everything that differs between models: option catalogs, base price,
+ * constraint set, 3D asset, camera presets and a valid default
+ * configuration. Switching models goes through the store's updateConfig,
+ * which replaces options the new model does not offer (see dependencies.ts).
+ */
+
+import type { CameraPosition, CameraPreset, ModelDefinition, ModelId, OptionField } from '../types';
+import { AVAILABLE_COLORS, AVAILABLE_WHEELS, AVAILABLE_GRILL_COLORS, AVAILABLE_HOOD_PATTERNS } from '../types';
+import type { OptionDimension } from './options';
+import { BMW_M5_RULE_SET, BMW_5_SERIES_RULE_SET } from './ruleSets';
+import { BMW_M5_MESH_MAPPING, SEDAN_MESH_MAPPING } from './meshMappings';
+
+// =============================================================================
+// SHARED PRESETS
+// =============================================================================
+
+const SEDAN_CAMERA_PRESETS: Record<CameraPosition, CameraPreset> = {
+  front: { position: [0, 2, 8], target: [0, 0, 0] },
+  side: { position: [8, 2, 0], target: [0, 0, 0] },
+  rear: { position: [0, 2, -8], target: [0, 0, 0] },
+  interior: { position: [0.5, 1.5, 1], target: [0, 1, 3] },
+  wheels: { position: [4, 1, 4], target: [0, 0, 0] },
+};
+
+function color(id: string) {
+  return AVAILABLE_COLORS.find(c => c.id === id)!;
+}
+
+function wheels(id: string) {
+  return AVAILABLE_WHEELS.find(w => w.id === id)!;
+}
+
+function grillColor(id: string) {
+  return AVAILABLE_GRILL_COLORS.find(g => g.id === id)!;
+}
+
+function hoodPattern(id: string) {
+  return AVAILABLE_HOOD_PATTERNS.find(h => h.id === id)!;
+}
+
+// =============================================================================
+// MODELS
+// =============================================================================
+
+export const DEFAULT_MODEL: ModelId = 'M5';
+
+export const MODELS: ModelDefinition[] = [
+  {
+    id: 'M5',
+    name: 'BMW M5 Limousine',
+    shortName: 'M5',
+    description: 'Hochleistungslimousine mit spezifischen Anforderungen an Felgen, Bremsen und Pakete',
+    highlights: [
+      '625 PS starker V8 Twin-Turbo Motor für außergewöhnliche Leistung',
+      'M xDrive Allradantrieb für optimale Traktion und Handling',
+      'Adaptive M Federung für perfekte Balance zwischen Komfort und Sportlichkeit',
+      'Exklusive M Performance-Komponenten für Rennstrecken-Performance',
+    ],
+    basePrice: 135000,
+    // Full catalog - M-exclusive and blocked options are governed by the rule set
+    catalog: {},
+    packages: ['performance', 'competition', 'comfort', 'technology'],
+    ruleSet: BMW_M5_RULE_SET,
+    asset: {
+      url: '/models/bmw-m5.glb',
+      scale: 1,
+      rotation: [0, -Math.PI / 4, 0],
+      wheelSize: 20,
+      hood: { front: 1, length: 0.3 },
+      meshMapping: BMW_M5_MESH_MAPPING,
+    },
+    cameraPresets: SEDAN_CAMERA_PRESETS,
+    defaults: {
+      model: 'M5',
+      performancePackage: 'performance',
+      packages: [],
+      color: color('sapphire-black'),
+      wheels: wheels('m-double-spoke-20'),
+      brakes: 'performance',
+      interior: {
+        leather: 'merino',
+        color: 'black',
+        trim: 'aluminum',
+      },
+      lights: 'laser',
+      sound: 'harman-kardon',
+      drivingAssistant: 'plus',
+      grillColor: grillColor('shadow-line'),
+      hoodPattern: hoodPattern('standard'),
+    },
+  },
+  {
+    id: '5-series',
+    name: 'BMW 5er Limousine',
+    shortName: '5er',
+    description: 'Komfortable Business-Limousine; M-exklusive Optionen bleiben dem M5 vorbehalten',
+    highlights: [
+      'Effiziente Motoren mit niedrigen Unterhaltskosten',
+      'Komfortabel abgestimmtes Fahrwerk für lange Strecken',
+      'Großzügiger Innenraum und Kofferraum für Alltag und Reisen',
+      'Deutlich günstigerer Einstiegspreis als der M5',
+    ],
+    basePrice: 62000,
+    catalog: {
+      performancePackage: ['none'],
+      color: AVAILABLE_COLORS.filter(c => c.type !== 'frozen').map(c => c.id),
+      wheels: ['standard-19', 'm-double-spoke-20', 'm-star-spoke-21', 'm-y-spoke-21'],
+      brakes: ['standard', 'performance'],
+      'interior.leather': ['vernasca', 'merino'],
+    },
+    packages: ['technology'],
+    ruleSet: BMW_5_SERIES_RULE_SET,
+    asset: {
+      url: '/models/car.glb',
+      scale: 1,
+      rotation: [0, -Math.PI / 4, 0],
+      wheelSize: 19,
+      hood: { front: 1, length: 0.24 },
+      meshMapping: SEDAN_MESH_MAPPING,
+    },
+    cameraPresets: SEDAN_CAMERA_PRESETS,
+    defaults: {
+      model: '5-series',
+      performancePackage: 'none',
+      packages: [],
+      color: color('alpine-white'),
+      wheels: wheels('standard-19'),
+      brakes: 'standard',
+      interior: {
+        leather: 'vernasca',
+        color: 'black',
+        trim: 'aluminum',
+      },
+      lights: 'led',
+      sound: 'standard',
+      drivingAssistant: 'plus',
+      grillColor: grillColor('chrome'),
+      hoodPattern: hoodPattern('standard'),
+    },
+  },
+];
+
+// =============================================================================
+// LOOKUP
+// =============================================================================
+
+export function getModel(id: ModelId): ModelDefinition {
+  return MODELS.find(m => m.id === id) ?? MODELS.find(m => m.id === DEFAULT_MODEL)!;
+}
+
+export function isModelId(value: unknown): value is ModelId {
+  return MODELS.some(m => m.id === value);
+}
+
+/**
+ * Whether a model offers the option `key` for `field`
+ */
+export function isOffered(model: ModelId, field: OptionField, key: string): boolean {
+  const offered = getModel(model).catalog[field] as string[] | undefined;
+  return !offered || offered.includes(key);
+}
+
+/**
+ * The options of a dimension that a model offers, in catalog order
+ */
+export function getOfferedOptions<T>(model: ModelId, dimension: OptionDimension<T>): T[] {
+  return dimension.options.filter(option => isOffered(model, dimension.field, dimension.key(option)));
+}
+
+export function isPackageOffered(model: ModelId, packageId: string): boolean {
+  return getModel(model).packages.includes(packageId);
+}
@@ -0,0 +1,204 @@
+/**
+ * Option Dimensions
+ *
+ * One entry per configurable field: which options exist, how to read and
+ * write them on a CarConfig, and their display name and surcharge.
+ * Shared by the repair solver, fix actions and availability checks.
+ */
+
+import type { CarConfig, ConfigPath, OptionField } from '../types';
+import { AVAILABLE_COLORS, AVAILABLE_WHEELS, AVAILABLE_GRILL_COLORS, AVAILABLE_HOOD_PATTERNS, AVAILABLE_PACKAGES, INTERIOR_COLORS } from '../types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface OptionDimension<T> {
+  field: OptionField;
+  label: string;
+  options: T[];
+  get: (config: CarConfig) => T;
+  set: (config: CarConfig, value: T) => CarConfig;
+  key: (value: T) => string;
+  name: (value: T) => string;
+  price: (value: T) => number;
+}
+
+interface EnumOption {
+  name: string;
+  price: number;
+}
+
+function enumDimension<T extends string>(
+  field: OptionField,
+  label: string,
+  options: Record<T, EnumOption>,
+  get: (config: CarConfig) => T,
+  set: (config: CarConfig, value: T) => CarConfig,
+): OptionDimension<T> {
+  return {
+    field,
+    label,
+    options: Object.keys(options) as T[],
+    get,
+    set,
+    key: v => v,
+    name: v => options[v].name,
+    price: v => options[v].price,
+  };
+}
+
+// =============================================================================
+// DIMENSIONS
+// =============================================================================
+
+const PERFORMANCE_PACKAGES = {
+  none: { name: 'Kein Paket', price: 0 },
+  ...Object.fromEntries(
+    AVAILABLE_PACKAGES
+      .filter(p => p.kind === 'performance')
+      .map(p => [p.id, { name: p.name, price: p.price }])
+  ),
+} as Record<CarConfig['performancePackage'], EnumOption>;
+
+// Other enum options have no catalog entry, so their surcharges (gross, EUR) live here
+export const OPTION_DIMENSIONS = [
+  enumDimension<CarConfig['performancePackage']>('performancePackage', 'Performance-Paket', PERFORMANCE_PACKAGES,
+    c => c.performancePackage, (c, v) => ({ ...c, performancePackage: v })),
+  {
+    field: 'color',
+    label: 'Farbe',
+    options: AVAILABLE_COLORS,
+    get: c => c.color,
+    set: (c, v) => ({ ...c, color: v }),
+    key: v => v.id,
+    name: v => v.name,
+    price: v => v.price,
+  } satisfies OptionDimension<CarConfig['color']>,
+  {
+    field: 'wheels',
+    label: 'Felgen',
+    options: AVAILABLE_WHEELS,
+    get: c => c.wheels,
+    set: (c, v) => ({ ...c, wheels: v }),
+    key: v => v.id,
+    name: v => v.name,
+    price: v => v.price,
+  } satisfies OptionDimension<CarConfig['wheels']>,
+  enumDimension<CarConfig['brakes']>('brakes', 'Bremsen', {
+    standard: { name: 'M Compound', price: 0 },
+    performance: { name: 'M Performance', price: 2500 },
+    ceramic: { name: 'M Carbon Keramik', price: 8500 },
+  }, c => c.brakes, (c, v) => ({ ...c, brakes: v })),
+  enumDimension<CarConfig['interior']['leather']>('interior.leather', 'Leder', {
+    vernasca: { name: 'Vernasca', price: 0 },
+    merino: { name: 'Merino', price: 2400 },
+    'extended-merino': { name: 'Extended Merino', price: 4200 },
+  }, c => c.interior.leather, (c, v) => ({ ...c, interior: { ...c.interior, leather: v } })),
+  enumDimension<CarConfig['interior']['trim']>('interior.trim', 'Zierleisten', {
+    aluminum: { name: 'Aluminium Rhombicle', price: 0 },
+    wood: { name: 'Edelholz Eiche', price: 600 },
+    carbon: { name: 'M Carbon', price: 1300 },
+  }, c => c.interior.trim, (c, v) => ({ ...c, interior: { ...c.interior, trim: v } })),
+  {
+    field: 'interior.color',
+    label: 'Interieurfarbe',
+    options: INTERIOR_COLORS.map(c => c.id),
+    get: c => c.interior.color,
+    set: (c, v) => ({ ...c, interior: { ...c.interior, color: v } }),
+    key: v => v,
+    name: v => INTERIOR_COLORS.find(c => c.id === v)?.name ?? v,
+    price: () => 0,
+  } satisfies OptionDimension<string>,
+  enumDimension<CarConfig['lights']>('lights', 'Licht', {
+    led: { name: 'LED', price: 0 },
+    laser: { name: 'BMW Laserlicht', price: 1900 },
+  }, c => c.lights, (c, v) => ({ ...c, lights: v })),
+  enumDimension<CarConfig['sound']>('sound', 'Sound', {
+    standard: { name: 'HiFi', price: 0 },
+    'harman-kardon': { name: 'Harman Kardon', price: 1100 },
+    'bowers-wilkins': { name: 'B&W Diamond', price: 4900 },
+  }, c => c.sound, (c, v) => ({ ...c, sound: v })),
+  enumDimension<CarConfig['drivingAssistant']>('drivingAssistant', 'Fahrassistent', {
+    none: { name: 'Ohne', price: 0 },
+    plus: { name: 'Driving Assistant Plus', price: 1450 },
+    pro: { name: 'Driving Assistant Professional', price: 2600 },
+  }, c => c.drivingAssistant, (c, v) => ({ ...c, drivingAssistant: v })),
+  {
+    field: 'grillColor',
+    label: 'Niere',
+    options: AVAILABLE_GRILL_COLORS,
+    get: c => c.grillColor,
+    set: (c, v) => ({ ...c, grillColor: v }),
+    key: v => v.id,
+    name: v => v.name,
+    price: v => v.price,
+  } satisfies OptionDimension<CarConfig['grillColor']>,
+  {
+    field: 'hoodPattern',
+    label: 'Haube',
+    options: AVAILABLE_HOOD_PATTERNS,
+    get: c => c.hoodPattern,
+    set: (c, v) => ({ ...c, hoodPattern: v }),
+    key: v => v.id,
+    name: v => v.name,
+    price: v => v.price,
+  } satisfies OptionDimension<CarConfig['hoodPattern']>,
+] as OptionDimension<unknown>[];
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+export function getDimension(field: OptionField): OptionDimension<unknown> {
+  return OPTION_DIMENSIONS.find(d => d.field === field)!;
+}
+
+/**
+ * Maps a rule path onto the dimension that controls it.
+ * 'model' and 'packages' are not option dimensions and map to null.
+ */
+export function fieldForPath(path: ConfigPath): OptionField | null {
+  if (path === 'model' || path === 'packages') return null;
+  if (path.startsWith('color.')) return 'color';
+  if (path.startsWith('wheels.')) return 'wheels';
+  if (path === 'grillColor.id') return 'grillColor';
+  if (path === 'hoodPattern.id') return 'hoodPattern';
+  return path as OptionField;
+}
+
+/**
+ * The rule path that identifies the selected option of a field
+ */
+export function pathForField(field: OptionField): ConfigPath {
+  if (field === 'color' || field === 'wheels' || field === 'grillColor' || field === 'hoodPattern') {
+    return `${field}.id`;
+  }
+  return field;
+}
+
+/**
+ * Returns the config with `field` set to the option identified by `key`,
+ * or null if no such option exists in the catalog
+ */
+export function applyOption(config: CarConfig, field: OptionField, key: string): CarConfig | null {
+  const dimension = getDimension(field);
+  const option = dimension.options.find(o => dimension.key(o) === key);
+  return option === undefined ? null : dimension.set(config, option);
+}
+
+/**
+ * Builds the Partial<CarConfig> diff for the given fields, taking values from `to`.
+ * Interior sub-fields are emitted as a complete interior object.
+ */
+export function toConfigChanges(to: CarConfig, fields: OptionField[]): Partial<CarConfig> {
+  const changes: Partial<CarConfig> = {};
+  for (const field of fields) {
+    if (field.startsWith('interior.')) {
+      changes.interior = to.interior;
+    } else {
+      Object.assign(changes, { [field]: to[field as keyof CarConfig] });
+    }
+  }
+  return changes;
+}
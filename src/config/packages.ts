@@ -0,0 +1,152 @@
+/**
+ * Package Bundles
+ *
+ * Packages declare the options they include at no extra charge and the
+ * options they make mandatory. Mandatory options become ordinary rules
+ * (so validation, availability and the solver see them); included options
+ * are applied when a package is added and reverted when it is removed.
+ */
+
+import type { CarConfig, FixTarget, OptionField, PackageOption, RuleDefinition } from '../types';
+import { AVAILABLE_PACKAGES } from '../types';
+import { getDimension, pathForField } from './options';
+
+// =============================================================================
+// LOOKUP
+// =============================================================================
+
+export function getPackage(id: string): PackageOption | undefined {
+  return AVAILABLE_PACKAGES.find(p => p.id === id);
+}
+
+/**
+ * Packages active in a configuration: the performance tier plus add-ons
+ */
+export function getSelectedPackages(config: CarConfig): PackageOption[] {
+  return AVAILABLE_PACKAGES.filter(p =>
+    p.kind === 'performance' ? config.performancePackage === p.id : config.packages.includes(p.id)
+  );
+}
+
+/**
+ * The selected package that includes the current option of `field`, if any
+ */
+export function getIncludingPackage(config: CarConfig, field: OptionField): PackageOption | undefined {
+  const dimension = getDimension(field);
+  const key = dimension.key(dimension.get(config));
+  return getSelectedPackages(config).find(p =>
+    p.includes.some(item => item.field === field && item.value === key)
+  );
+}
+
+/**
+ * Returns the config with an add-on package added or removed.
+ * Performance packages are exclusive and switched via performancePackage.
+ */
+export function togglePackage(config: CarConfig, id: string): CarConfig | null {
+  const pkg = getPackage(id);
+  if (!pkg) return null;
+
+  if (pkg.kind === 'performance') {
+    const performancePackage = config.performancePackage === pkg.id ? 'none' : pkg.id;
+    return { ...config, performancePackage: performancePackage as CarConfig['performancePackage'] };
+  }
+
+  const packages = config.packages.includes(pkg.id)
+    ? config.packages.filter(p => p !== pkg.id)
+    : [...config.packages, pkg.id];
+  return { ...config, packages };
+}
+
+// =============================================================================
+// MANDATORY OPTIONS (as rules)
+// =============================================================================
+
+const CATEGORIES: Partial<Record<OptionField, RuleDefinition['category']>> = {
+  wheels: 'wheels',
+  brakes: 'brakes',
+  color: 'color',
+  'interior.leather': 'interior',
+  'interior.color': 'interior',
+  'interior.trim': 'interior',
+};
+
+/**
+ * One blocking rule per mandatory option, resolved automatically like any
+ * other 'requires' rule, e.g. PACKAGE_TECHNOLOGY_LIGHTS
+ */
+export function getPackageRules(): RuleDefinition[] {
+  return AVAILABLE_PACKAGES.flatMap(pkg => pkg.mandatory.map((target): RuleDefinition => {
+    const dimension = getDimension(target.field);
+    const option = dimension.options.find(o => dimension.key(o) === target.value);
+    const optionName = option === undefined ? target.value : dimension.name(option);
+
+    return {
+      id: `${packageRuleId(pkg)}_${target.field.replace('.', '_').toUpperCase()}`,
+      description: `${pkg.name} erfordert ${dimension.label} ${optionName}`,
+      when: {
+        op: 'and',
+        all: [
+          pkg.kind === 'performance'
+            ? { op: 'equals', path: 'performancePackage', value: pkg.id }
+            : { op: 'contains', path: 'packages', value: pkg.id },
+          { op: 'not', expr: { op: 'equals', path: pathForField(target.field), value: target.value } },
+        ],
+      },
+      message: `Das ${pkg.name} setzt ${dimension.label} „${optionName}“ voraus.`,
+      severity: 'block',
+      fix: target,
+      autoResolve: { kind: 'requires' },
+      category: CATEGORIES[target.field] ?? 'tech',
+    };
+  }));
+}
+
+export function packageRuleId(pkg: PackageOption): string {
+  return `PACKAGE_${pkg.id.toUpperCase()}`;
+}
+
+// =============================================================================
+// INCLUDED OPTIONS
+// =============================================================================
+
+export interface PackageAdjustment {
+  package: PackageOption;
+  kind: 'includes' | 'reverts';
+  target: FixTarget;
+}
+
+/**
+ * Adjustments caused by packages added or removed between two configs:
+ * added packages bring their included options, removed packages revert
+ * included options that are still selected (unless another newly added
+ * package includes the same field, e.g. switching performance → competition).
+ */
+export function getPackageAdjustments(previous: CarConfig, next: CarConfig): PackageAdjustment[] {
+  const before = getSelectedPackages(previous);
+  const after = getSelectedPackages(next);
+  const added = after.filter(p => !before.includes(p));
+  const removed = before.filter(p => !after.includes(p));
+  const addedFields = new Set(added.flatMap(p => p.includes.map(item => item.field)));
+
+  const reverts = removed.flatMap(pkg => pkg.includes
+    .filter(item => !addedFields.has(item.field))
+    .filter(item => {
+      const dimension = getDimension(item.field);
+      return dimension.key(dimension.get(next)) === item.value;
+    })
+    .map((item): PackageAdjustment => ({
+      package: pkg,
+      kind: 'reverts',
+      target: { field: item.field, value: item.without } as FixTarget,
+    }))
+  );
+
+  const includes = added.flatMap(pkg => pkg.includes.map((item): PackageAdjustment => ({
+    package: pkg,
+    kind: 'includes',
+    target: { field: item.field, value: item.value } as FixTarget,
+  })));
+
+  return [...reverts, ...includes];
+}
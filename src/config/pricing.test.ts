@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import type { CarConfig } from '../types';
+import { getModel } from './models';
+import { VAT_RATE, calculatePrice, describePrice, formatPrice, getPriceDelta } from './pricing';
+
+const M5 = getModel('M5').defaults;
+
+describe('calculatePrice', () => {
+  it('adds base price, options and packages', () => {
+    const price = calculatePrice(M5);
+
+    expect(price.base).toMatchObject({ id: 'model:M5', category: 'base', price: 135000 });
+    expect(price.optionsTotal).toBe(10500);
+    expect(price.packagesTotal).toBe(8000);
+    expect(price.total).toBe(153500);
+  });
+
+  it('totals match the sum of the line items', () => {
+    const price = calculatePrice({ ...M5, packages: ['comfort', 'technology'] });
+    const sum = (items: { price: number }[]) => items.reduce((total, item) => total + item.price, 0);
+
+    expect(price.optionsTotal).toBe(sum(price.options));
+    expect(price.packagesTotal).toBe(sum(price.packages));
+    expect(price.total).toBe(price.base.price + price.optionsTotal + price.packagesTotal);
+  });
+
+  it('breaks out the VAT contained in the gross total', () => {
+    const price = calculatePrice(M5);
+
+    expect(price.vatRate).toBe(VAT_RATE);
+    expect(price.net).toBe(128991.6);
+    expect(price.vat).toBe(24508.4);
+    expect(price.net + price.vat).toBeCloseTo(price.total, 2);
+  });
+
+  it('lists options included in a selected package at 0 €', () => {
+    const price = calculatePrice(M5);
+
+    expect(price.options.find(item => item.field === 'brakes')).toMatchObject({
+      name: 'M Performance',
+      price: 0,
+      includedIn: 'M Performance',
+    });
+    expect(price.packages.find(item => item.field === 'performancePackage')).toMatchObject({ price: 8000, includedValue: 2500 });
+  });
+
+  it('lists add-on packages as their own line items', () => {
+    const config: CarConfig = { ...M5, packages: ['comfort'], interior: { ...M5.interior, leather: 'extended-merino' } };
+    const price = calculatePrice(config);
+
+    expect(price.packages.find(item => item.id === 'package:comfort')).toMatchObject({ price: 4500, includedValue: 5300 });
+    expect(price.options.find(item => item.field === 'interior.leather')?.price).toBe(0);
+    expect(getPriceDelta(M5, config)).toBe(4500 - 2400 - 1100);
+  });
+});
+
+describe('describePrice', () => {
+  it('omits standard equipment and states the total with VAT', () => {
+    const lines = describePrice(calculatePrice(M5)).split('\n');
+
+    expect(lines[0]).toBe(`Grundpreis BMW M5 Limousine: ${formatPrice(135000)}`);
+    expect(lines).toContain('• Bremsen: M Performance (im M Performance enthalten)');
+    expect(lines.some(line => line.startsWith('• Haube'))).toBe(false);
+    expect(lines.at(-1)).toBe(`Gesamtpreis: ${formatPrice(153500)} (inkl. 19 % MwSt. ${formatPrice(24508.4)})`);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Pricing Engine
+ *
+ * Single source for what a configuration costs: base price of the model plus
+ * one line item per option dimension, with packages listed separately and
+ * the contained VAT broken out. Options included in a selected package are
+ * listed at 0 €. Used by the header, summary, validation overlay and the
+ * AI get_price function.
+ */
+
+import type { CarConfig, OptionField, PackageOption, PriceBreakdown, PriceLineItem } from '../types';
+import { OPTION_DIMENSIONS, getDimension } from './options';
+import { getIncludingPackage, getSelectedPackages } from './packages';
+import { getModel } from './models';
+
+// =============================================================================
+// PRICE LIST
+// =============================================================================
+
+export const VAT_RATE = 0.19;
+
+// Dimensions listed as packages rather than individual options
+const PACKAGE_FIELDS = new Set<OptionField>(['performancePackage']);
+
+// =============================================================================
+// CALCULATION
+// =============================================================================
+
+/**
+ * Computes the itemised price of a configuration
+ */
+export function calculatePrice(config: CarConfig): PriceBreakdown {
+  const model = getModel(config.model);
+  const base: PriceLineItem = {
+    id: `model:${model.id}`,
+    category: 'base',
+    label: 'Grundpreis',
+    name: model.name,
+    price: model.basePrice,
+  };
+
+  const options: PriceLineItem[] = [];
+  const packages: PriceLineItem[] = [];
+
+  for (const dimension of OPTION_DIMENSIONS) {
+    const value = dimension.get(config);
+    const isPackage = PACKAGE_FIELDS.has(dimension.field);
+    const includedIn = isPackage ? undefined : getIncludingPackage(config, dimension.field);
+    const item: PriceLineItem = {
+      id: `${dimension.field}:${dimension.key(value)}`,
+      category: isPackage ? 'package' : 'option',
+      label: dimension.label,
+      name: dimension.name(value),
+      price: includedIn ? 0 : dimension.price(value),
+      field: dimension.field,
+      includedIn: includedIn?.name,
+    };
+    (isPackage ? packages : options).push(item);
+  }
+
+  for (const pkg of getSelectedPackages(config)) {
+    const includedValue = getIncludedValue(pkg);
+    if (pkg.kind === 'performance') {
+      packages.find(item => item.field === 'performancePackage')!.includedValue = includedValue;
+      continue;
+    }
+    packages.push({
+      id: `package:${pkg.id}`,
+      category: 'package',
+      label: 'Paket',
+      name: pkg.name,
+      price: pkg.price,
+      includedValue,
+    });
+  }
+
+  const optionsTotal = sum(options);
+  const packagesTotal = sum(packages);
+  const total = base.price + optionsTotal + packagesTotal;
+  const net = Math.round((total / (1 + VAT_RATE)) * 100) / 100;
+
+  return {
+    base,
+    options,
+    packages,
+    optionsTotal,
+    packagesTotal,
+    vatRate: VAT_RATE,
+    net,
+    vat: Math.round((total - net) * 100) / 100,
+    total,
+  };
+}
+
+/**
+ * Price difference between two configurations (positive = more expensive)
+ */
+export function getPriceDelta(from: CarConfig, to: CarConfig): number {
+  return calculatePrice(to).total - calculatePrice(from).total;
+}
+
+/**
+ * What a package's included options would cost when ordered separately
+ */
+export function getIncludedValue(pkg: PackageOption): number {
+  return pkg.includes.reduce((total, item) => {
+    const dimension = getDimension(item.field);
+    const option = dimension.options.find(o => dimension.key(o) === item.value);
+    return total + (option === undefined ? 0 : dimension.price(option));
+  }, 0);
+}
+
+function sum(items: PriceLineItem[]): number {
+  return items.reduce((total, item) => total + item.price, 0);
+}
+
+// =============================================================================
+// FORMATTING (for UI and chat)
+// =============================================================================
+
+export function formatPrice(amount: number): string {
+  const digits = Number.isInteger(amount) ? 0 : 2;
+  return `${amount.toLocaleString('de-DE', { minimumFractionDigits: digits, maximumFractionDigits: digits })} €`;
+}
+
+/**
+ * German multi-line price summary; standard equipment (0 €) is omitted
+ */
+export function describePrice(breakdown: PriceBreakdown): string {
+  const lines = [
+    `${breakdown.base.label} ${breakdown.base.name}: ${formatPrice(breakdown.base.price)}`,
+    ...[...breakdown.packages, ...breakdown.options]
+      .filter(item => item.price > 0 || item.includedIn)
+      .map(item => item.includedIn
+        ? `• ${item.label}: ${item.name} (im ${item.includedIn} enthalten)`
+        : `• ${item.label}: ${item.name} +${formatPrice(item.price)}`),
+    `Gesamtpreis: ${formatPrice(breakdown.total)} (inkl. ${Math.round(breakdown.vatRate * 100)} % MwSt. ${formatPrice(breakdown.vat)})`,
+  ];
+  return lines.join('\n');
+}
@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { CarConfig } from '../types';
+import { AVAILABLE_WHEELS } from '../types';
+import { BMW_M5_RULE_SET, setActiveRuleSet, validateConfiguration } from './constraints';
+import { getModel } from './models';
+import { parseRuleSet } from './ruleEngine';
+
+const RULE = {
+  id: 'TEST_RULE',
+  description: 'Test',
+  when: { op: 'equals', path: 'brakes', value: 'ceramic' },
+  message: 'Test',
+  severity: 'block',
+  category: 'brakes',
+};
+
+function ruleSet(rules: unknown[], extra: Record<string, unknown> = {}) {
+  return { id: 'test', version: 1, rules, ...extra };
+}
+
+function violatedIds(config: CarConfig) {
+  const result = validateConfiguration(config);
+  return { isValid: result.isValid, blockers: result.blockers.map(r => r.id), warnings: result.warnings.map(r => r.id) };
+}
+
+afterEach(() => {
+  setActiveRuleSet(BMW_M5_RULE_SET);
+});
+
+describe('parseRuleSet', () => {
+  it('rejects a malformed rule set', () => {
+    expect(() => parseRuleSet([])).toThrow('Rule set must be an object');
+    expect(() => parseRuleSet({ version: 1, rules: [] })).toThrow('missing a string "id"');
+    expect(() => parseRuleSet({ id: 'test', rules: [] })).toThrow('missing a numeric "version"');
+    expect(() => parseRuleSet({ id: 'test', version: 1 })).toThrow('missing a "rules" array');
+    expect(() => parseRuleSet(ruleSet([], { model: 'X6' }))).toThrow('unknown model "X6"');
+    expect(() => parseRuleSet(ruleSet([RULE, RULE]))).toThrow('Duplicate rule id "TEST_RULE" at rules[1]');
+  });
+
+  it('reports where a rule is invalid', () => {
+    const invalid: Array<[Record<string, unknown>, string]> = [
+      [{ severity: 'error' }, 'rules[0].severity must be "block" or "warn"'],
+      [{ category: 'engine' }, 'rules[0].category "engine" is unknown'],
+      [{ when: { op: 'xor' } }, 'rules[0].when.op "xor" is not supported'],
+      [{ when: { op: 'not', expr: { op: 'equals', path: 'engine', value: 1 } } }, 'rules[0].when.expr.path "engine" is not a known configuration path'],
+      [{ when: { op: 'in', path: 'brakes', values: [true] } }, 'rules[0].when.values[0] must be a string or number'],
+      [{ fix: { field: 'brakes', value: 'carbon' } }, 'rules[0].fix.value "carbon" is not an option of brakes'],
+      [{ autoResolve: { kind: 'requires' } }, 'rules[0].autoResolve requires the rule to declare a fix'],
+    ];
+    for (const [change, message] of invalid) {
+      expect(() => parseRuleSet(ruleSet([{ ...RULE, ...change }]))).toThrow(message);
+    }
+  });
+
+  it('drops unknown properties', () => {
+    const parsed = parseRuleSet(ruleSet([{ ...RULE, condition: 'return true' }], { extra: 1 }));
+    expect(parsed).toEqual(ruleSet([RULE], { model: undefined }));
+  });
+
+  it('parses the built-in rule set from JSON unchanged', () => {
+    expect(parseRuleSet(JSON.parse(JSON.stringify(BMW_M5_RULE_SET)))).toEqual(BMW_M5_RULE_SET);
+  });
+});
+
+describe('compiled rule sets', () => {
+  const M5 = getModel('M5').defaults;
+  const configs: CarConfig[] = [
+    M5,
+    { ...M5, wheels: AVAILABLE_WHEELS.find(w => w.id === 'standard-19')! },
+    { ...M5, performancePackage: 'competition' },
+    { ...M5, performancePackage: 'none', brakes: 'ceramic' },
+  ];
+
+  it('validate like the built-in rule set after a JSON round trip', () => {
+    const builtIn = configs.map(violatedIds);
+    setActiveRuleSet(parseRuleSet(JSON.parse(JSON.stringify(BMW_M5_RULE_SET))));
+
+    expect(configs.map(violatedIds)).toEqual(builtIn);
+    expect(builtIn.some(result => !result.isValid)).toBe(true);
+  });
+});
@@ -0,0 +1,335 @@
+/**
+ * Declarative Rule Engine
+ *
+ * Compiles serializable rule definitions (JSON expression trees over
+ * CarConfig paths) into the ConstraintRule closures used by the
+ * validation engine, and loads rule sets at runtime.
+ */
+
+import type { AutoResolve, CarConfig, ConfigPath, ConstraintRule, FixTarget, RuleDefinition, RuleExpression, RuleSet, RuleValue } from '../types';
+import { OPTION_DIMENSIONS } from './options';
+import { isModelId } from './models';
+
+// =============================================================================
+// PATH RESOLUTION
+// =============================================================================
+
+const CONFIG_PATHS: ConfigPath[] = [
+  'model',
+  'performancePackage',
+  'color.id',
+  'color.type',
+  'wheels.id',
+  'wheels.size',
+  'wheels.type',
+  'brakes',
+  'interior.leather',
+  'interior.color',
+  'interior.trim',
+  'lights',
+  'sound',
+  'drivingAssistant',
+  'grillColor.id',
+  'hoodPattern.id',
+  'packages',
+];
+
+/**
+ * Reads the value at a dotted path (e.g. 'wheels.id') from a configuration
+ */
+export function resolvePath(config: CarConfig, path: ConfigPath): RuleValue | undefined {
+  let value: unknown = config;
+  for (const key of path.split('.')) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return typeof value === 'string' || typeof value === 'number' ? value : undefined;
+}
+
+/**
+ * Reads a list-valued path (e.g. 'packages'); empty for scalar paths
+ */
+export function resolveList(config: CarConfig, path: ConfigPath): RuleValue[] {
+  const value = (config as unknown as Record<string, unknown>)[path];
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Lists every configuration path an expression reads
+ */
+export function collectPaths(expr: RuleExpression, into: Set<ConfigPath> = new Set()): Set<ConfigPath> {
+  switch (expr.op) {
+    case 'equals':
+    case 'in':
+    case 'startsWith':
+    case 'contains':
+      into.add(expr.path);
+      break;
+    case 'and':
+      expr.all.forEach(child => collectPaths(child, into));
+      break;
+    case 'or':
+      expr.any.forEach(child => collectPaths(child, into));
+      break;
+    case 'not':
+      collectPaths(expr.expr, into);
+      break;
+    case 'implies':
+      collectPaths(expr.if, into);
+      collectPaths(expr.then, into);
+      break;
+  }
+  return into;
+}
+
+// =============================================================================
+// COMPILER
+// =============================================================================
+
+/**
+ * Compiles an expression tree into a predicate over CarConfig
+ */
+export function compileExpression(expr: RuleExpression): (config: CarConfig) => boolean {
+  switch (expr.op) {
+    case 'equals':
+      return (config) => resolvePath(config, expr.path) === expr.value;
+
+    case 'in':
+      return (config) => {
+        const value = resolvePath(config, expr.path);
+        return value !== undefined && expr.values.includes(value);
+      };
+
+    case 'startsWith':
+      return (config) => {
+        const value = resolvePath(config, expr.path);
+        return typeof value === 'string' && value.startsWith(expr.prefix);
+      };
+
+    case 'contains':
+      return (config) => resolveList(config, expr.path).includes(expr.value);
+
+    case 'and': {
+      const parts = expr.all.map(compileExpression);
+      return (config) => parts.every(part => part(config));
+    }
+
+    case 'or': {
+      const parts = expr.any.map(compileExpression);
+      return (config) => parts.some(part => part(config));
+    }
+
+    case 'not': {
+      const inner = compileExpression(expr.expr);
+      return (config) => !inner(config);
+    }
+
+    case 'implies': {
+      const antecedent = compileExpression(expr.if);
+      const consequent = compileExpression(expr.then);
+      return (config) => !antecedent(config) || consequent(config);
+    }
+  }
+}
+
+export function compileRule(definition: RuleDefinition): ConstraintRule {
+  return {
+    ...definition,
+    condition: compileExpression(definition.when),
+  };
+}
+
+export function compileRuleSet(ruleSet: RuleSet): ConstraintRule[] {
+  return ruleSet.rules.map(compileRule);
+}
+
+// =============================================================================
+// LOADER
+// =============================================================================
+
+const RULE_CATEGORIES: RuleDefinition['category'][] = ['wheels', 'brakes', 'color', 'interior', 'tech'];
+const AUTO_RESOLVE_KINDS: AutoResolve['kind'][] = ['requires', 'excludes', 'includes'];
+
+/**
+ * Validates untrusted JSON (e.g. fetched from a CMS) and returns a typed RuleSet.
+ * Throws with the offending location if the structure is invalid.
+ */
+export function parseRuleSet(json: unknown): RuleSet {
+  if (!isObject(json)) {
+    throw new Error('Rule set must be an object');
+  }
+  if (typeof json.id !== 'string') {
+    throw new Error('Rule set is missing a string "id"');
+  }
+  if (typeof json.version !== 'number') {
+    throw new Error(`Rule set "${json.id}" is missing a numeric "version"`);
+  }
+  if (!Array.isArray(json.rules)) {
+    throw new Error(`Rule set "${json.id}" is missing a "rules" array`);
+  }
+  if (json.model !== undefined && !isModelId(json.model)) {
+    throw new Error(`Rule set "${json.id}" targets unknown model "${String(json.model)}"`);
+  }
+
+  const seen = new Set<string>();
+  const rules = json.rules.map((rule, index) => {
+    const parsed = parseRuleDefinition(rule, `rules[${index}]`);
+    if (seen.has(parsed.id)) {
+      throw new Error(`Duplicate rule id "${parsed.id}" at rules[${index}]`);
+    }
+    seen.add(parsed.id);
+    return parsed;
+  });
+
+  return { id: json.id, version: json.version, model: json.model as RuleSet['model'], rules };
+}
+
+/**
+ * Fetches and parses a rule set published as JSON
+ */
+export async function fetchRuleSet(url: string): Promise<RuleSet> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load rule set from ${url}: HTTP ${response.status}`);
+  }
+  return parseRuleSet(await response.json());
+}
+
+/**
+ * Builds the definition from the validated fields only; unknown properties
+ * of the JSON are dropped
+ */
+function parseRuleDefinition(json: unknown, at: string): RuleDefinition {
+  if (!isObject(json)) {
+    throw new Error(`${at} must be an object`);
+  }
+  const { id, description, message } = json;
+  if (typeof id !== 'string') throw new Error(`${at}.id must be a string`);
+  if (typeof description !== 'string') throw new Error(`${at}.description must be a string`);
+  if (typeof message !== 'string') throw new Error(`${at}.message must be a string`);
+
+  const severity = json.severity;
+  if (severity !== 'block' && severity !== 'warn') {
+    throw new Error(`${at}.severity must be "block" or "warn"`);
+  }
+  const category = json.category as RuleDefinition['category'];
+  if (!RULE_CATEGORIES.includes(category)) {
+    throw new Error(`${at}.category "${String(json.category)}" is unknown`);
+  }
+
+  const fix = json.fix !== undefined ? parseFix(json.fix, `${at}.fix`) : undefined;
+  const autoResolve = json.autoResolve !== undefined
+    ? parseAutoResolve(json.autoResolve, fix !== undefined, `${at}.autoResolve`)
+    : undefined;
+
+  return {
+    id,
+    description,
+    when: parseExpression(json.when, `${at}.when`),
+    message,
+    severity,
+    ...(fix && { fix }),
+    ...(autoResolve && { autoResolve }),
+    category,
+  };
+}
+
+function parseFix(json: unknown, at: string): FixTarget {
+  if (!isObject(json)) {
+    throw new Error(`${at} must be an object`);
+  }
+  const dimension = OPTION_DIMENSIONS.find(d => d.field === json.field);
+  if (!dimension) {
+    throw new Error(`${at}.field "${String(json.field)}" is not a configurable field`);
+  }
+  if (!dimension.options.some(option => dimension.key(option) === json.value)) {
+    throw new Error(`${at}.value "${String(json.value)}" is not an option of ${dimension.field}`);
+  }
+  return { field: dimension.field, value: json.value } as FixTarget;
+}
+
+function parseAutoResolve(json: unknown, hasFix: boolean, at: string): AutoResolve {
+  if (!isObject(json)) {
+    throw new Error(`${at} must be an object`);
+  }
+  if (!hasFix) {
+    throw new Error(`${at} requires the rule to declare a fix`);
+  }
+  const kind = json.kind as AutoResolve['kind'];
+  if (!AUTO_RESOLVE_KINDS.includes(kind)) {
+    throw new Error(`${at}.kind "${String(json.kind)}" is unknown`);
+  }
+  return json.otherwise !== undefined
+    ? { kind, otherwise: parseFix(json.otherwise, `${at}.otherwise`) }
+    : { kind };
+}
+
+function parseExpression(json: unknown, at: string): RuleExpression {
+  if (!isObject(json)) {
+    throw new Error(`${at} must be an expression object`);
+  }
+
+  switch (json.op) {
+    case 'equals':
+    case 'contains':
+      return { op: json.op, path: parsePath(json.path, `${at}.path`), value: parseValue(json.value, `${at}.value`) };
+
+    case 'in':
+      if (!Array.isArray(json.values)) {
+        throw new Error(`${at}.values must be an array`);
+      }
+      return {
+        op: 'in',
+        path: parsePath(json.path, `${at}.path`),
+        values: json.values.map((value, i) => parseValue(value, `${at}.values[${i}]`)),
+      };
+
+    case 'startsWith':
+      if (typeof json.prefix !== 'string') {
+        throw new Error(`${at}.prefix must be a string`);
+      }
+      return { op: 'startsWith', path: parsePath(json.path, `${at}.path`), prefix: json.prefix };
+
+    case 'and':
+    case 'or': {
+      const key = json.op === 'and' ? 'all' : 'any';
+      const children = json[key];
+      if (!Array.isArray(children)) {
+        throw new Error(`${at}.${key} must be an array`);
+      }
+      const parsed = children.map((child, i) => parseExpression(child, `${at}.${key}[${i}]`));
+      return json.op === 'and' ? { op: 'and', all: parsed } : { op: 'or', any: parsed };
+    }
+
+    case 'not':
+      return { op: 'not', expr: parseExpression(json.expr, `${at}.expr`) };
+
+    case 'implies':
+      return {
+        op: 'implies',
+        if: parseExpression(json.if, `${at}.if`),
+        then: parseExpression(json.then, `${at}.then`),
+      };
+
+    default:
+      throw new Error(`${at}.op "${String(json.op)}" is not supported`);
+  }
+}
+
+function parsePath(path: unknown, at: string): ConfigPath {
+  if (!CONFIG_PATHS.includes(path as ConfigPath)) {
+    throw new Error(`${at} "${String(path)}" is not a known configuration path`);
+  }
+  return path as ConfigPath;
+}
+
+function parseValue(value: unknown, at: string): RuleValue {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    throw new Error(`${at} must be a string or number`);
+  }
+  return value;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,237 @@
+/**
+ * Rule Sets per Model
+ *
+ * The declarative constraint sets referenced by the model registry
+ * (models.ts). Compiled and activated by constraints.ts.
+ */
+
+import type { RuleSet } from '../types';
+
+// =============================================================================
+// BMW M5 CONSTRAINT RULES
+// =============================================================================
+
+/**
+ * Declarative rule set - plain data, so it can be reviewed, diffed and
+ * shipped as JSON without a code release (see ruleEngine.ts)
+ */
+export const BMW_M5_RULE_SET: RuleSet = {
+  id: 'bmw-m5',
+  version: 1,
+  model: 'M5',
+  rules: [
+    // --------------------------------------------------------------------------
+    // WHEEL CONSTRAINTS - The example from the interview!
+    // --------------------------------------------------------------------------
+    {
+      id: 'M5_REQUIRES_M_WHEELS',
+      description: 'M5 Sportwagen erfordert M Sport Felgen',
+      when: {
+        op: 'and',
+        all: [
+          { op: 'equals', path: 'model', value: 'M5' },
+          { op: 'not', expr: { op: 'startsWith', path: 'wheels.id', prefix: 'm-' } },
+        ],
+      },
+      message: 'Der BMW M5 Sportwagen erfordert M Sport Felgen. Standard-Alufelgen sind für dieses Hochleistungsfahrzeug nicht verfügbar.',
+      severity: 'block',
+      fix: { field: 'wheels', value: 'm-double-spoke-20' },
+      category: 'wheels'
+    },
+    {
+      id: 'M_COMPETITION_21_INCH',
+      description: 'M Competition Package erfordert 21 Zoll Felgen',
+      when: {
+        op: 'and',
+        all: [
+          { op: 'equals', path: 'performancePackage', value: 'competition' },
+          { op: 'not', expr: { op: 'equals', path: 'wheels.size', value: 21 } },
+        ],
+      },
+      message: 'Das M Competition Paket ist nur mit 21 Zoll Felgen kompatibel für optimale Bremsleistung.',
+      severity: 'block',
+      fix: { field: 'wheels', value: 'm-star-spoke-21' },
+      autoResolve: { kind: 'requires', otherwise: { field: 'performancePackage', value: 'performance' } },
+      category: 'wheels'
+    },
+
+    // --------------------------------------------------------------------------
+    // BRAKE CONSTRAINTS
+    // --------------------------------------------------------------------------
+    {
+      id: 'CERAMIC_BRAKES_PERFORMANCE',
+      description: 'Keramikbremsen erfordern Performance-Paket',
+      when: {
+        op: 'and',
+        all: [
+          { op: 'equals', path: 'brakes', value: 'ceramic' },
+          { op: 'equals', path: 'performancePackage', value: 'none' },
+        ],
+      },
+      message: 'Die M Carbon Keramikbremsen sind nur in Kombination mit einem M Performance Paket verfügbar.',
+      severity: 'block',
+      fix: { field: 'performancePackage', value: 'performance' },
+      autoResolve: { kind: 'requires', otherwise: { field: 'brakes', value: 'performance' } },
+      category: 'brakes'
+    },
+
+    // --------------------------------------------------------------------------
+    // COLOR CONSTRAINTS
+    // --------------------------------------------------------------------------
+    {
+      id: 'FROZEN_COLOR_M5',
+      description: 'Frozen Lackierungen nur für M5',
+      when: {
+        op: 'and',
+        all: [
+          { op: 'startsWith', path: 'color.id', prefix: 'frozen-' },
+          { op: 'not', expr: { op: 'equals', path: 'model', value: 'M5' } },
+        ],
+      },
+      message: 'Frozen Individual Lackierungen sind exklusiv für den BMW M5 verfügbar.',
+      severity: 'block',
+      fix: { field: 'color', value: 'sapphire-black' },
+      autoResolve: { kind: 'excludes' },
+      category: 'color'
+    },
+
+    // --------------------------------------------------------------------------
+    // INTERIOR CONSTRAINTS
+    // --------------------------------------------------------------------------
+    {
+      id: 'MERINO_LEATHER_M5',
+      description: 'Extended Merino Leder erfordert M5 oder höher',
+      when: {
+        op: 'and',
+        all: [
+          { op: 'equals', path: 'interior.leather', value: 'extended-merino' },
+          { op: 'not', expr: { op: 'equals', path: 'model', value: 'M5' } },
+        ],
+      },
+      message: 'Das Extended Merino Leder ist ein exklusives Feature für den BMW M5.',
+      severity: 'block',
+      fix: { field: 'interior.leather', value: 'vernasca' },
+      autoResolve: { kind: 'excludes' },
+      category: 'interior'
+    },
+    {
+      id: 'CARBON_TRIM_PERFORMANCE',
+      description: 'Carbon Interieur erfordert Performance-Paket',
+      when: {
+        op: 'and',
+        all: [
+          { op: 'equals', path: 'interior.trim', value: 'carbon' },
+          { op: 'equals', path: 'performancePackage', value: 'none' },
+        ],
+      },
+      message: 'Das M Carbon Interieurpaket ist nur mit einem Performance-Paket erhältlich.',
+      severity: 'warn',
+      fix: { field: 'interior.trim', value: 'aluminum' },
+      category: 'interior'
+    },
+
+    // --------------------------------------------------------------------------
+    // DRIVING ASSISTANCE CONSTRAINTS
+    // --------------------------------------------------------------------------
+    {
+      id: 'DRIVING_ASSIST_PRO_LASER',
+      description: 'Driving Assistant Pro erfordert Laserlicht',
+      when: {
+        op: 'and',
+        all: [
+          { op: 'equals', path: 'drivingAssistant', value: 'pro' },
+          { op: 'not', expr: { op: 'equals', path: 'lights', value: 'laser' } },
+        ],
+      },
+      message: 'Der Driving Assistant Professional nutzt das Laserlicht-System für optimale Funktionalität.',
+      severity: 'warn',
+      fix: { field: 'lights', value: 'laser' },
+      autoResolve: { kind: 'requires', otherwise: { field: 'drivingAssistant', value: 'plus' } },
+      category: 'tech'
+    },
+
+    // --------------------------------------------------------------------------
+    // SOUND CONSTRAINTS
+    // --------------------------------------------------------------------------
+    {
+      id: 'HARMAN_KARDON_MIN',
+      description: 'M5 inkludiert mindestens Harman Kardon',
+      when: {
+        op: 'and',
+        all: [
+          { op: 'equals', path: 'model', value: 'M5' },
+          { op: 'equals', path: 'sound', value: 'standard' },
+        ],
+      },
+      message: 'Der BMW M5 wird serienmäßig mit dem Harman Kardon Surround Sound System ausgestattet.',
+      severity: 'warn',
+      fix: { field: 'sound', value: 'harman-kardon' },
+      category: 'tech'
+    },
+  ],
+};
+
+// =============================================================================
+// BMW 5 SERIES CONSTRAINT RULES
+// =============================================================================
+
+// M5 rules that also guard the 5 Series (M-exclusive options, tech dependencies)
+const SHARED_RULE_IDS = ['FROZEN_COLOR_M5', 'MERINO_LEATHER_M5', 'DRIVING_ASSIST_PRO_LASER'];
+
+export const BMW_5_SERIES_RULE_SET: RuleSet = {
+  id: 'bmw-5-series',
+  version: 1,
+  model: '5-series',
+  rules: [
+    ...BMW_M5_RULE_SET.rules.filter(rule => SHARED_RULE_IDS.includes(rule.id)),
+
+    {
+      id: 'M_PACKAGES_M5_ONLY',
+      description: 'M Performance Pakete nur für M5',
+      when: {
+        op: 'and',
+        all: [
+          { op: 'not', expr: { op: 'equals', path: 'performancePackage', value: 'none' } },
+          { op: 'not', expr: { op: 'equals', path: 'model', value: 'M5' } },
+        ],
+      },
+      message: 'Die M Performance und M Competition Pakete sind exklusiv für den BMW M5 erhältlich.',
+      severity: 'block',
+      fix: { field: 'performancePackage', value: 'none' },
+      autoResolve: { kind: 'excludes' },
+      category: 'tech'
+    },
+    {
+      id: 'CERAMIC_BRAKES_M5_ONLY',
+      description: 'Keramikbremsen nur für M5',
+      when: {
+        op: 'and',
+        all: [
+          { op: 'equals', path: 'brakes', value: 'ceramic' },
+          { op: 'not', expr: { op: 'equals', path: 'model', value: 'M5' } },
+        ],
+      },
+      message: 'Die M Carbon Keramikbremsen sind exklusiv für den BMW M5 erhältlich.',
+      severity: 'block',
+      fix: { field: 'brakes', value: 'performance' },
+      autoResolve: { kind: 'excludes' },
+      category: 'brakes'
+    },
+    {
+      id: 'FORGED_WHEELS_M5_ONLY',
+      description: 'Geschmiedete M Performance Felgen nur für M5',
+      when: {
+        op: 'and',
+        all: [
+          { op: 'equals', path: 'wheels.type', value: 'm-performance' },
+          { op: 'not', expr: { op: 'equals', path: 'model', value: 'M5' } },
+        ],
+      },
+      message: 'Die geschmiedeten M Performance Felgen sind exklusiv für den BMW M5 erhältlich.',
+      severity: 'block',
+      fix: { field: 'wheels', value: 'm-star-spoke-21' },
+      autoResolve: { kind: 'excludes' },
+      category: 'wheels'
+    },
+  ],
+};
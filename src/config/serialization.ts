@@ -0,0 +1,133 @@
+/**
+ * Configuration Serialization
+ *
+ * Converts a CarConfig to option ids and back. Stored and shared
+ * configurations keep only ids, so names and prices always come from the
+ * current catalogs; ids that no longer exist fall back to the model's
+ * default and are reported, instead of failing the whole load.
+ */
+
+import type { CarConfig, SerializedConfig, UnknownOptionId } from '../types';
+import { AVAILABLE_PACKAGES } from '../types';
+import { OPTION_DIMENSIONS, applyOption, getDimension } from './options';
+import { DEFAULT_MODEL, getModel, isModelId, isPackageOffered } from './models';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface DeserializedConfig {
+  config: CarConfig;
+  /** Ids that were dropped or replaced by the model default */
+  unknownIds: UnknownOptionId[];
+}
+
+/** Bumped when the serialized shape changes; older versions are migrated on load */
+export const SERIALIZATION_VERSION = 1;
+
+// =============================================================================
+// SERIALIZE / DESERIALIZE
+// =============================================================================
+
+export function serializeConfig(config: CarConfig): SerializedConfig {
+  return {
+    version: SERIALIZATION_VERSION,
+    model: config.model,
+    options: Object.fromEntries(OPTION_DIMENSIONS.map(d => [d.field, d.key(d.get(config))])),
+    packages: [...config.packages],
+  };
+}
+
+/**
+ * Rebuilds a CarConfig from ids. Tolerates partial or malformed input:
+ * missing fields take the model default, unknown ids are reported.
+ */
+export function deserializeConfig(data: unknown): DeserializedConfig {
+  const serialized = migrateSerializedConfig(data);
+  const unknownIds: UnknownOptionId[] = [];
+
+  if (!isModelId(serialized.model)) {
+    unknownIds.push({ field: 'model', id: serialized.model });
+  }
+  const model = getModel(isModelId(serialized.model) ? serialized.model : DEFAULT_MODEL);
+  let config: CarConfig = { ...model.defaults, packages: [] };
+
+  for (const dimension of OPTION_DIMENSIONS) {
+    const id = serialized.options[dimension.field];
+    if (id === undefined) continue;
+    const applied = applyOption(config, dimension.field, id);
+    if (applied) {
+      config = applied;
+    } else {
+      unknownIds.push({ field: dimension.field, id });
+    }
+  }
+
+  for (const id of serialized.packages) {
+    const pkg = AVAILABLE_PACKAGES.find(p => p.id === id && p.kind === 'addon');
+    if (pkg && isPackageOffered(model.id, pkg.id)) {
+      config.packages = [...config.packages, pkg.id];
+    } else {
+      unknownIds.push({ field: 'packages', id });
+    }
+  }
+
+  return { config, unknownIds };
+}
+
+/**
+ * Brings any stored shape up to the current version. Version 0 is a plain
+ * CarConfig (option objects instead of ids).
+ */
+function migrateSerializedConfig(data: unknown): SerializedConfig {
+  const value = (typeof data === 'object' && data !== null ? data : {}) as Record<string, unknown>;
+
+  if (typeof value.version !== 'number') {
+    const legacy = value as Partial<CarConfig>;
+    return {
+      version: SERIALIZATION_VERSION,
+      model: String(legacy.model ?? DEFAULT_MODEL),
+      options: Object.fromEntries(OPTION_DIMENSIONS
+        .map(d => [d.field, readLegacyKey(legacy, d.field)])
+        .filter(([, id]) => id !== undefined)),
+      packages: Array.isArray(legacy.packages) ? legacy.packages.map(String) : [],
+    };
+  }
+
+  return {
+    version: SERIALIZATION_VERSION,
+    model: String(value.model ?? DEFAULT_MODEL),
+    options: typeof value.options === 'object' && value.options !== null
+      ? value.options as SerializedConfig['options']
+      : {},
+    packages: Array.isArray(value.packages) ? value.packages.map(String) : [],
+  };
+}
+
+function readLegacyKey(config: Partial<CarConfig>, field: string): string | undefined {
+  const [head, tail] = field.split('.');
+  const value = (config as Record<string, unknown>)[head];
+  const leaf = tail && typeof value === 'object' && value !== null
+    ? (value as Record<string, unknown>)[tail]
+    : value;
+  if (typeof leaf === 'string') return leaf;
+  if (typeof leaf === 'object' && leaf !== null && typeof (leaf as { id?: unknown }).id === 'string') {
+    return (leaf as { id: string }).id;
+  }
+  return undefined;
+}
+
+// =============================================================================
+// DESCRIPTIONS (for UI and chat)
+// =============================================================================
+
+export function describeUnknownId(unknown: UnknownOptionId): string {
+  switch (unknown.field) {
+    case 'model':
+      return `Modell „${unknown.id}“ nicht mehr erhältlich - ${getModel(DEFAULT_MODEL).name} verwendet`;
+    case 'packages':
+      return `Paket „${unknown.id}“ nicht mehr erhältlich - entfernt`;
+    default:
+      return `${getDimension(unknown.field).label} „${unknown.id}“ nicht mehr erhältlich - Standard verwendet`;
+  }
+}
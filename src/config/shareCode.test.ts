@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import type { CarConfig } from '../types';
+import { getModel } from './models';
+import { decodeConfigCode, encodeConfigCode, getShareUrl, readConfigCode } from './shareCode';
+
+const M5 = getModel('M5').defaults;
+
+describe('encodeConfigCode', () => {
+  it('writes the code version, the model, then one segment per option', () => {
+    const code = encodeConfigCode({ ...M5, packages: ['comfort', 'technology'] });
+
+    expect(code.startsWith('1.M5.Pperformance.Csapphire-black.Wm-double-spoke-20.Bperformance.')).toBe(true);
+    expect(code.endsWith('.Xcomfort~technology')).toBe(true);
+  });
+
+  it('round-trips every model through decodeConfigCode', () => {
+    const configs: CarConfig[] = [
+      M5,
+      { ...M5, packages: ['comfort', 'technology'], interior: { ...M5.interior, leather: 'extended-merino' }, drivingAssistant: 'pro' },
+      getModel('5-series').defaults,
+    ];
+    for (const config of configs) {
+      expect(decodeConfigCode(encodeConfigCode(config))).toEqual({ config, unknownIds: [] });
+    }
+  });
+});
+
+describe('decodeConfigCode', () => {
+  it('reports unknown ids and uses the model default for them', () => {
+    const decoded = decodeConfigCode('1.M5.Cneon-pink.Wm-star-spoke-21.Xcomfort~warp');
+
+    expect(decoded?.unknownIds).toEqual([
+      { field: 'color', id: 'neon-pink' },
+      { field: 'packages', id: 'warp' },
+    ]);
+    expect(decoded?.config.color).toEqual(M5.color);
+    expect(decoded?.config.wheels.id).toBe('m-star-spoke-21');
+    expect(decoded?.config.packages).toEqual(['comfort']);
+  });
+
+  it('reports an unknown model and falls back to the default model', () => {
+    const decoded = decodeConfigCode('1.Z4.Bceramic');
+
+    expect(decoded?.unknownIds).toEqual([{ field: 'model', id: 'Z4' }]);
+    expect(decoded?.config).toEqual({ ...M5, brakes: 'ceramic' });
+  });
+
+  it('rejects codes of other versions and malformed segments', () => {
+    for (const code of ['', '2.M5', '1', '1.M5.Qfoo', '1.M5.C']) {
+      expect(decodeConfigCode(code)).toBeNull();
+    }
+  });
+});
+
+describe('getShareUrl', () => {
+  it('carries the code in the query string', () => {
+    const url = getShareUrl(M5, { origin: 'https://example.com', pathname: '/konfigurator' });
+
+    expect(url.startsWith('https://example.com/konfigurator?config=1.M5.')).toBe(true);
+    expect(readConfigCode(new URL(url).search)).toBe(encodeConfigCode(M5));
+  });
+});
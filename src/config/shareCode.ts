@@ -0,0 +1,110 @@
+/**
+ * Configuration Codes
+ *
+ * Compact, versioned text code for a configuration (like an OEM order
+ * code), e.g. `1.M5.Pperformance.Cportimao-blue.Wm-star-spoke-21.…`:
+ * code version, model id, then one segment per option - a field letter
+ * followed by the option id. Ids are lowercase, so field letters never
+ * clash with them. Decoding goes through deserializeConfig, so ids that
+ * no longer exist are reported rather than rejected.
+ */
+
+import type { CarConfig, OptionField, SerializedConfig } from '../types';
+import { serializeConfig, deserializeConfig, SERIALIZATION_VERSION, type DeserializedConfig } from './serialization';
+
+// =============================================================================
+// FORMAT
+// =============================================================================
+
+export const CONFIG_CODE_VERSION = 1;
+
+/** URL query parameter that carries a configuration code */
+export const CONFIG_CODE_PARAM = 'config';
+
+const FIELD_CODES: Record<OptionField, string> = {
+  performancePackage: 'P',
+  color: 'C',
+  wheels: 'W',
+  brakes: 'B',
+  'interior.leather': 'L',
+  'interior.trim': 'T',
+  'interior.color': 'I',
+  lights: 'H',
+  sound: 'S',
+  drivingAssistant: 'D',
+  grillColor: 'G',
+  hoodPattern: 'K',
+};
+
+const PACKAGES_CODE = 'X';
+
+const SEGMENT_SEPARATOR = '.';
+const PACKAGE_SEPARATOR = '~';
+
+// =============================================================================
+// ENCODE / DECODE
+// =============================================================================
+
+export function encodeConfigCode(config: CarConfig): string {
+  const serialized = serializeConfig(config);
+  const segments = (Object.keys(FIELD_CODES) as OptionField[])
+    .filter(field => serialized.options[field] !== undefined)
+    .map(field => `${FIELD_CODES[field]}${serialized.options[field]}`);
+
+  if (serialized.packages.length > 0) {
+    segments.push(`${PACKAGES_CODE}${serialized.packages.join(PACKAGE_SEPARATOR)}`);
+  }
+
+  return [CONFIG_CODE_VERSION, serialized.model, ...segments].join(SEGMENT_SEPARATOR);
+}
+
+/**
+ * Decodes a configuration code; returns null if it is not a code of a
+ * known version. Fields missing from the code take the model default.
+ */
+export function decodeConfigCode(code: string): DeserializedConfig | null {
+  const [version, model, ...segments] = code.trim().split(SEGMENT_SEPARATOR);
+  if (Number(version) !== CONFIG_CODE_VERSION || !model) return null;
+
+  const serialized: SerializedConfig = {
+    version: SERIALIZATION_VERSION,
+    model,
+    options: {},
+    packages: [],
+  };
+
+  for (const segment of segments) {
+    const letter = segment.charAt(0);
+    const value = segment.slice(1);
+    if (!value) return null;
+
+    if (letter === PACKAGES_CODE) {
+      serialized.packages = value.split(PACKAGE_SEPARATOR);
+      continue;
+    }
+    const field = (Object.keys(FIELD_CODES) as OptionField[]).find(f => FIELD_CODES[f] === letter);
+    if (!field) return null;
+    serialized.options[field] = value;
+  }
+
+  return deserializeConfig(serialized);
+}
+
+// =============================================================================
+// DEEP LINKS
+// =============================================================================
+
+/**
+ * Link to the current page that opens the given configuration
+ */
+export function getShareUrl(config: CarConfig, location: Pick<Location, 'origin' | 'pathname'> = window.location): string {
+  const params = new URLSearchParams({ [CONFIG_CODE_PARAM]: encodeConfigCode(config) });
+  return `${location.origin}${location.pathname}?${params}`;
+}
+
+/**
+ * The configuration code in a query string (e.g. window.location.search), if any
+ */
+export function readConfigCode(search: string): string | null {
+  return new URLSearchParams(search).get(CONFIG_CODE_PARAM);
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import type { CarConfig } from '../types';
+import { AVAILABLE_WHEELS } from '../types';
+import { validateConfiguration } from './constraints';
+import { getModel } from './models';
+import { solveConfiguration, type RepairObjective } from './solver';
+
+const M5 = getModel('M5').defaults;
+const OBJECTIVES: RepairObjective[] = ['fewest-changes', 'cheapest'];
+
+function wheel(id: string): CarConfig['wheels'] {
+  return AVAILABLE_WHEELS.find(w => w.id === id)!;
+}
+
+function repaired(config: CarConfig, objective: RepairObjective): CarConfig {
+  const result = solveConfiguration(config, objective);
+  expect(result).not.toBeNull();
+  return { ...config, ...result!.changes };
+}
+
+describe('solveConfiguration', () => {
+  it.each(OBJECTIVES)('leaves a valid configuration unchanged (%s)', (objective) => {
+    expect(solveConfiguration(M5, objective)).toMatchObject({ changes: {}, changedFields: [], priceDelta: 0 });
+  });
+
+  it.each(OBJECTIVES)('repairs M5 standard wheels with the cheapest M wheel (%s)', (objective) => {
+    const result = solveConfiguration({ ...M5, wheels: wheel('standard-19') }, objective);
+
+    expect(result?.changedFields).toEqual(['wheels']);
+    expect(result?.changes.wheels?.id).toBe('m-double-spoke-20');
+    expect(result?.priceDelta).toBe(1800);
+    expect(result?.validation.isValid).toBe(true);
+  });
+
+  it.each(OBJECTIVES)('drops M Competition rather than buying 21" wheels (%s)', (objective) => {
+    const result = solveConfiguration({ ...M5, performancePackage: 'competition' }, objective);
+
+    expect(result?.changes).toEqual({ performancePackage: 'performance' });
+    expect(result?.priceDelta).toBeLessThan(0);
+  });
+
+  it.each(OBJECTIVES)('does not switch to M Competition without 21" wheels (%s)', (objective) => {
+    const config = repaired({ ...M5, performancePackage: 'none', brakes: 'ceramic' }, objective);
+
+    const validation = validateConfiguration(config);
+    expect(validation.isValid).toBe(true);
+    expect(validation.blockers.map(rule => rule.id)).not.toContain('M_COMPETITION_21_INCH');
+    if (config.performancePackage === 'competition') expect(config.wheels.size).toBe(21);
+  });
+
+  it.each(OBJECTIVES)('repairs several blockers in one diff (%s)', (objective) => {
+    const config: CarConfig = { ...M5, performancePackage: 'competition', brakes: 'ceramic', wheels: wheel('standard-19') };
+    const result = solveConfiguration(config, objective)!;
+
+    expect(result.validation.isValid).toBe(true);
+    expect(validateConfiguration({ ...config, ...result.changes }).isValid).toBe(true);
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Constraint Repair Solver
+ *
+ * Given an invalid configuration, searches the option catalogs for the
+ * closest configuration that passes validateConfiguration and returns it
+ * as a single Partial<CarConfig> diff (applied in one step by the store
+ * or the chat), so fixing one blocker never silently triggers another.
+ */
+
+import type { CarConfig, ConfigPath, ModelId, OptionField, PriceBreakdown, ValidationResult } from '../types';
+import { validateConfiguration, getActiveConstraints } from './constraints';
+import { collectPaths } from './ruleEngine';
+import { OPTION_DIMENSIONS, fieldForPath, getDimension, toConfigChanges, type OptionDimension } from './options';
+import { calculatePrice } from './pricing';
+import { getOfferedOptions } from './models';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * - 'fewest-changes': touch as few options as possible, then lowest surcharge
+ * - 'cheapest': lowest added surcharge, then fewest changes
+ */
+export type RepairObjective = 'fewest-changes' | 'cheapest';
+
+export interface RepairResult {
+  /** Diff to apply with updateConfig - empty if the config is already valid */
+  changes: Partial<CarConfig>;
+  /** Fields touched by the repair, e.g. ['performancePackage', 'wheels'] */
+  changedFields: OptionField[];
+  /** Price difference of the repaired configuration (may be negative) */
+  priceDelta: number;
+  /** Validation of the repaired configuration */
+  validation: ValidationResult;
+}
+
+/**
+ * Only dimensions read by at least one active rule can affect validity.
+ * The model is the customer's primary choice and is never changed.
+ */
+function getRelevantDimensions(model: ModelId): OptionDimension<unknown>[] {
+  const paths = new Set<ConfigPath>();
+  for (const rule of getActiveConstraints(model)) {
+    collectPaths(rule.when, paths);
+  }
+  const fields = new Set([...paths].map(fieldForPath));
+  return OPTION_DIMENSIONS.filter(d => fields.has(d.field));
+}
+
+// =============================================================================
+// SOLVER
+// =============================================================================
+
+interface Candidate {
+  config: CarConfig;
+  changedFields: OptionField[];
+  surcharge: number;
+  priceDelta: number;
+  validation: ValidationResult;
+}
+
+/**
+ * Finds the best valid configuration reachable by changing options the model offers.
+ * Returns null if no combination of options satisfies the active rules.
+ */
+export function solveConfiguration(
+  config: CarConfig,
+  objective: RepairObjective = 'fewest-changes'
+): RepairResult | null {
+  const currentValidation = validateConfiguration(config);
+  if (currentValidation.isValid) {
+    return { changes: {}, changedFields: [], priceDelta: 0, validation: currentValidation };
+  }
+
+  const dimensions = getRelevantDimensions(config.model);
+  const currentPrice = calculatePrice(config);
+  let best: Candidate | null = null;
+
+  // 'cheapest' skips branches that cannot beat the best repair found so far:
+  // a higher surcharge, or the same surcharge with more changes
+  const prune = objective === 'cheapest'
+    ? (partial: CarConfig, pending: OptionDimension<unknown>[], changes: number) => {
+        if (!best) return false;
+        const minimum = getMinimumSurcharge(currentPrice, partial, pending);
+        return minimum > best.surcharge || (minimum === best.surcharge && changes > best.changedFields.length);
+      }
+    : undefined;
+
+  for (let k = 1; k <= dimensions.length; k++) {
+    for (const subset of combinations(dimensions, k)) {
+      enumerate(config, subset, 0, [], prune, (repaired, changedFields, validation) => {
+        // Priced like the header: options included in a selected package cost nothing
+        const price = calculatePrice(repaired);
+        const candidate: Candidate = {
+          config: repaired,
+          changedFields,
+          surcharge: getSurcharge(currentPrice, price),
+          priceDelta: price.total - currentPrice.total,
+          validation,
+        };
+        if (!best || compareCandidates(candidate, best, objective) < 0) {
+          best = candidate;
+        }
+      });
+    }
+    // Any solution with k changes beats every solution with more changes
+    if (best && objective === 'fewest-changes') break;
+  }
+
+  if (!best) return null;
+  const solution: Candidate = best;
+
+  return {
+    changes: toConfigChanges(solution.config, solution.changedFields),
+    changedFields: solution.changedFields,
+    priceDelta: solution.priceDelta,
+    validation: solution.validation,
+  };
+}
+
+function enumerate(
+  config: CarConfig,
+  dimensions: OptionDimension<unknown>[],
+  index: number,
+  changedFields: OptionField[],
+  prune: ((config: CarConfig, pending: OptionDimension<unknown>[], changes: number) => boolean) | undefined,
+  visit: (config: CarConfig, changedFields: OptionField[], validation: ValidationResult) => void
+): void {
+  if (prune?.(config, dimensions.slice(index), dimensions.length)) return;
+
+  if (index === dimensions.length) {
+    const validation = validateConfiguration(config);
+    if (validation.isValid) {
+      visit(config, changedFields, validation);
+    }
+    return;
+  }
+
+  const dimension = dimensions[index];
+  const currentKey = dimension.key(dimension.get(config));
+
+  for (const option of getOfferedOptions(config.model, dimension)) {
+    if (dimension.key(option) === currentKey) continue;
+    enumerate(dimension.set(config, option), dimensions, index + 1, [...changedFields, dimension.field], prune, visit);
+  }
+}
+
+/**
+ * Sum of the price increases per line item - what the customer pays extra,
+ * not offset by options that get cheaper
+ */
+function getSurcharge(before: PriceBreakdown, after: PriceBreakdown, ignored = new Set<string>()): number {
+  const prices = (breakdown: PriceBreakdown) => new Map(
+    [...breakdown.options, ...breakdown.packages].map(item => [item.field ?? item.id, item.price])
+  );
+  const previous = prices(before);
+  let surcharge = 0;
+  for (const [key, price] of prices(after)) {
+    if (ignored.has(key)) continue;
+    surcharge += Math.max(0, price - (previous.get(key) ?? 0));
+  }
+  return surcharge;
+}
+
+/**
+ * Lower bound for the surcharge of any repair completing `partial`: the
+ * surcharge of the options already decided. Pending options only add to
+ * it, unless a pending package could still include a decided option.
+ */
+function getMinimumSurcharge(before: PriceBreakdown, partial: CarConfig, pending: OptionDimension<unknown>[]): number {
+  if (pending.some(d => d.field === 'performancePackage')) return 0;
+  return getSurcharge(before, calculatePrice(partial), new Set(pending.map(d => d.field)));
+}
+
+function compareCandidates(a: Candidate, b: Candidate, objective: RepairObjective): number {
+  const byChanges = a.changedFields.length - b.changedFields.length;
+  const bySurcharge = a.surcharge - b.surcharge;
+  const byWarnings = a.validation.warnings.length - b.validation.warnings.length;
+  const primary = objective === 'cheapest' ? [bySurcharge, byChanges] : [byChanges, bySurcharge];
+  return [...primary, byWarnings, a.priceDelta - b.priceDelta].find(v => v !== 0) ?? 0;
+}
+
+function* combinations<T>(items: T[], k: number, start = 0): Generator<T[]> {
+  if (k === 0) {
+    yield [];
+    return;
+  }
+  for (let i = start; i <= items.length - k; i++) {
+    for (const rest of combinations(items, k - 1, i + 1)) {
+      yield [items[i], ...rest];
+    }
+  }
+}
+
+// =============================================================================
+// DESCRIPTION (for chat responses)
+// =============================================================================
+
+/**
+ * Human-readable German summary of a repair, one line per changed option
+ */
+export function describeRepair(result: RepairResult, config: CarConfig): string[] {
+  const repaired = { ...config, ...result.changes };
+  return result.changedFields.map(field => {
+    const dimension = getDimension(field);
+    return `${dimension.label}: ${dimension.name(dimension.get(repaired))}`;
+  });
+}
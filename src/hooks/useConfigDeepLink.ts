@@ -0,0 +1,47 @@
+/**
+ * Configuration Deep Links
+ *
+ * Opens the configuration in `?config=<code>` on startup: the decoded
+ * config replaces the current one (undoable), is validated, and the chat
+ * reports options that no longer exist and rules it violates. The parameter
+ * is then removed so a reload keeps later changes.
+ */
+
+import { useEffect } from 'react';
+import { useConfigStore } from '../stores/configStore';
+import { CONFIG_CODE_PARAM, decodeConfigCode, readConfigCode } from '../config/shareCode';
+import { describeUnknownId } from '../config/serialization';
+import { getValidationExplanation } from '../config/constraints';
+import { getModel } from '../config/models';
+
+export function useConfigDeepLink() {
+  useEffect(() => {
+    const code = readConfigCode(window.location.search);
+    if (!code) return;
+
+    const { importConfig, addMessage } = useConfigStore.getState();
+    const decoded = decodeConfigCode(code);
+
+    if (!decoded) {
+      addMessage({
+        role: 'assistant',
+        content: `Der Konfigurationscode „${code}“ ist ungültig. Ihre bisherige Konfiguration bleibt erhalten.`,
+      });
+    } else {
+      const validation = importConfig(decoded.config, 'Link geöffnet');
+      const lines = [`Ich habe die geteilte Konfiguration geladen: ${getModel(decoded.config.model).name}.`];
+
+      if (decoded.unknownIds.length > 0) {
+        lines.push('Einige Optionen sind nicht mehr erhältlich:\n' +
+          decoded.unknownIds.map((unknown) => `• ${describeUnknownId(unknown)}`).join('\n'));
+      }
+      lines.push(`${validation.isValid ? '✅' : '⚠️'} ${getValidationExplanation(validation)}`);
+
+      addMessage({ role: 'assistant', content: lines.join('\n\n') });
+    }
+
+    const url = new URL(window.location.href);
+    url.searchParams.delete(CONFIG_CODE_PARAM);
+    window.history.replaceState(null, '', url);
+  }, []);
+}
@@ -0,0 +1,37 @@
+/**
+ * Keyboard Shortcuts for Undo/Redo
+ *
+ * Ctrl/Cmd+Z undoes the last configuration change, Ctrl/Cmd+Shift+Z and
+ * Ctrl+Y redo it. Ignored while typing so text fields keep their own undo.
+ */
+
+import { useEffect } from 'react';
+import { useConfigStore } from '../stores/configStore';
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+export function useHistoryShortcuts() {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      if (isEditableTarget(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      const { undo, redo } = useConfigStore.getState();
+
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+}
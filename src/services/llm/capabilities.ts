@@ -0,0 +1,61 @@
+/**
+ * Model Capabilities
+ *
+ * Decides which request parameters a model accepts, so GPT-5-only
+ * parameters are not sent to servers that reject them. The model name gives
+ * a first guess; parameters an endpoint rejects at runtime are remembered
+ * per endpoint and model.
+ */
+
+import type { ModelCapabilities, ReasoningEffort } from '../../types';
+
+export const REASONING_EFFORTS: ReasoningEffort[] = ['none', 'minimal', 'low', 'medium', 'high'];
+
+// =============================================================================
+// DETECTION
+// =============================================================================
+
+// GPT-5 and o-series reasoning models (also behind proxies like "openai/gpt-5")
+const REASONING_MODEL = /(^|\/)(gpt-5|o[134])(\b|-)/i;
+
+/** Parameters that can be left out or swapped when an endpoint rejects them */
+const OPTIONAL_PARAMS = ['reasoning_effort', 'max_completion_tokens', 'max_tokens'];
+
+/** Parameters rejected by an endpoint, keyed by `${baseURL}|${model}` */
+const rejected = new Map<string, Set<string>>();
+
+const endpointKey = (baseURL: string, model: string) => `${baseURL}|${model}`;
+
+export function detectCapabilities(baseURL: string, model: string): ModelCapabilities {
+  const reasoning = REASONING_MODEL.test(model);
+  const rejectedParams = rejected.get(endpointKey(baseURL, model));
+
+  let tokenLimitParam: ModelCapabilities['tokenLimitParam'] = reasoning ? 'max_completion_tokens' : 'max_tokens';
+  if (rejectedParams?.has(tokenLimitParam)) {
+    tokenLimitParam = tokenLimitParam === 'max_tokens' ? 'max_completion_tokens' : 'max_tokens';
+  }
+
+  return {
+    reasoningEffort: reasoning && !rejectedParams?.has('reasoning_effort'),
+    tokenLimitParam,
+  };
+}
+
+/**
+ * Finds the parameter named in a "bad request" error message (e.g.
+ * "Unsupported parameter: 'reasoning_effort'") among those that were sent
+ * and remembers it. Returns false if none matches, i.e. retrying won't help.
+ */
+export function markRejectedParameter(baseURL: string, model: string, sent: string[], errorMessage: string): boolean {
+  const param = sent.find(name => OPTIONAL_PARAMS.includes(name) && errorMessage.includes(name));
+  if (!param) return false;
+
+  const key = endpointKey(baseURL, model);
+  const params = rejected.get(key) ?? new Set<string>();
+  if (params.has(param)) return false;
+
+  params.add(param);
+  rejected.set(key, params);
+  console.warn(`⚠️ ${model} rejects "${param}" - not sending it again`);
+  return true;
+}
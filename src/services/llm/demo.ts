@@ -1,408 +1,104 @@
 /**
- * OpenAI Service for BMW M5 Configuration
+ * Demo Provider
  *
- * Uses GPT-5.1-2025-11-13 with function calling to handle car configuration
- * and provide intelligent suggestions with validation
- *
- * GPT-5 specific parameters:
- * - reasoning_effort: "none" | "minimal" | "low" | "medium" | "high" (top-level param)
- * - max_completion_tokens (replaces max_tokens)
- * - temperature/top_p NOT supported in GPT-5 models
+ * Keyword-based stand-in for a real model, used when no API key is
+ * configured or the provider is unreachable. Produces the same function
+ * calls as the real providers, so the rest of the app behaves identically.
  */
 
-import OpenAI from 'openai';
-import type { CarConfig } from '../types';
-import { validateConfiguration, getValidationExplanation } from '../config/constraints';
-import { AVAILABLE_COLORS, AVAILABLE_WHEELS, AVAILABLE_GRILL_COLORS, AVAILABLE_HOOD_PATTERNS, INTERIOR_COLORS } from '../types';
-
-// =============================================================================
-// CONFIGURATION
-// =============================================================================
-
-const API_KEY = import.meta.env.VITE_OPENAI_API_KEY || '';
-
-const openai = new OpenAI({
-  apiKey: API_KEY,
-  dangerouslyAllowBrowser: true, // Required for client-side usage
-});
-
-// =============================================================================
-// SYSTEM PROMPT (German)
-// =============================================================================
-
-const SYSTEM_PROMPT = `Du bist der BMW M5 KI-Konfigurator Assistent. Du hilfst Kunden dabei, ihren BMW M5 zu konfigurieren.
-
-WICHTIG - GESPRÄCHSKONTEXT:
-- Du MUSST den Kontext der vorherigen Nachrichten berücksichtigen!
-- Wenn der Kunde zuletzt über INTERIEUR/INNENRAUM sprach und dann "weiß" oder eine andere Farbe sagt, bezieht sich das auf das INTERIEUR, NICHT auf die Außenfarbe!
-- Wenn der Kunde "nein" sagt und eine Alternative nennt, bezieht sich das auf das GLEICHE Thema wie zuvor
-- Analysiere IMMER die vorherigen Nachrichten, um den Kontext zu verstehen
-- Beispiel: "Ändere Interieur auf braun" -> "Nein, weiß" = INTERIEUR weiß, nicht Außenfarbe!
-
-WICHTIG - VALIDIERUNGSLOGIK:
-- Der BMW M5 ist ein Hochleistungsfahrzeug mit spezifischen Anforderungen
-- STANDARD-ALUFELGEN SIND NICHT FÜR DEN M5 VERFÜGBAR - nur M Sport oder M Performance Felgen
-- Das M Competition Paket erfordert 21 Zoll Felgen
-- Keramikbremsen erfordern ein Performance-Paket
-- Frozen Lackierungen sind exklusiv für den M5
-
-DEINE AUFGABE:
-1. Verstehe die Konfigurationswünsche des Kunden IM KONTEXT der vorherigen Nachrichten
-2. Nutze die verfügbaren Funktionen, um Änderungen durchzuführen
-3. VALIDIERE IMMER die Konfiguration nach Änderungen
-4. Wenn eine Konfiguration NICHT für den M5 möglich ist, erkläre:
-   - WARUM es nicht möglich ist
-   - Die 4 HAUPTVORTEILE des M5, die diese Einschränkung rechtfertigen
-   - Passende Alternativen, die verfügbar sind
-
-M5 VORTEILE (zu erwähnen bei ungültigen Konfigurationen):
-1. 625 PS starker V8 Twin-Turbo Motor für außergewöhnliche Leistung
-2. M xDrive Allradantrieb für optimale Traktion und Handling
-3. Adaptive M Federung für perfekte Balance zwischen Komfort und Sportlichkeit
-4. Exklusive M Performance-Komponenten für Rennstrecken-Performance
-
-KOMMUNIKATIONSSTIL:
-- Professionell aber freundlich
-- IMMER auf Deutsch antworten
-- Bei ungültigen Konfigurationen: Erkläre WARUM + nenne die 4 M5 VORTEILE
-- Schlage passende Alternativen vor
-
-VERFÜGBARE AUSSENFARBEN: ${AVAILABLE_COLORS.map(c => c.name).join(', ')}
-VERFÜGBARE INTERIEURFARBEN: ${INTERIOR_COLORS.map(c => c.name).join(', ')}
-VERFÜGBARE FELGEN: ${AVAILABLE_WHEELS.filter(w => w.type !== 'standard').map(w => w.name).join(', ')}`;
+import type { CarConfig, LLMProvider, LLMRequest, LLMResponse, OptionAvailability, OptionField, ToolRound } from '../../types';
+import { validateConfiguration, getValidationExplanation, getOptionAvailability, getActiveConstraints } from '../../config/constraints';
+import { solveConfiguration, describeRepair } from '../../config/solver';
+import { calculatePrice, describePrice, formatPrice } from '../../config/pricing';
+import { getModel } from '../../config/models';
+import { AVAILABLE_COLORS, AVAILABLE_WHEELS, AVAILABLE_GRILL_COLORS, AVAILABLE_HOOD_PATTERNS } from '../../types';
 
 // =============================================================================
-// FUNCTION DEFINITIONS
+// PROVIDER
 // =============================================================================
 
-const CONFIGURATION_FUNCTIONS: OpenAI.Chat.ChatCompletionTool[] = [
-  {
-    type: 'function',
-    function: {
-      name: 'change_color',
-      description: 'Ändert die Farbe des Fahrzeugs',
-      parameters: {
-        type: 'object',
-        properties: {
-          colorId: {
-            type: 'string',
-            description: 'Die ID der gewünschten Farbe',
-            enum: AVAILABLE_COLORS.map(c => c.id),
-          },
-        },
-        required: ['colorId'],
-      },
-    },
-  },
-  {
-    type: 'function',
-    function: {
-      name: 'change_wheels',
-      description: 'Ändert die Felgen des Fahrzeugs',
-      parameters: {
-        type: 'object',
-        properties: {
-          wheelId: {
-            type: 'string',
-            description: 'Die ID der gewünschten Felgen',
-            enum: AVAILABLE_WHEELS.map(w => w.id),
-          },
-        },
-        required: ['wheelId'],
-      },
-    },
-  },
-  {
-    type: 'function',
-    function: {
-      name: 'change_interior',
-      description: 'Ändert die Innenausstattung des Fahrzeugs (Leder, Farbe der Sitze, Zierleisten). WICHTIG: Nutze diese Funktion wenn der Kunde über Interieur, Innenraum, Sitze, oder Leder spricht!',
-      parameters: {
-        type: 'object',
-        properties: {
-          leather: {
-            type: 'string',
-            enum: ['vernasca', 'merino', 'extended-merino'],
-            description: 'Lederart',
-          },
-          color: {
-            type: 'string',
-            enum: INTERIOR_COLORS.map(c => c.name),
-            description: 'Farbe des Interieurs/Sitze - verfügbare Farben: Schwarz, Cognac, Silverstone, Fiona Rot, Elfenbeinweiß, Alpinweiß',
-          },
-          trim: {
-            type: 'string',
-            enum: ['aluminum', 'wood', 'carbon'],
-            description: 'Zierleisten-Material',
-          },
-        },
-      },
-    },
-  },
-  {
-    type: 'function',
-    function: {
-      name: 'change_brakes',
-      description: 'Ändert das Bremssystem',
-      parameters: {
-        type: 'object',
-        properties: {
-          brakes: {
-            type: 'string',
-            enum: ['standard', 'performance', 'ceramic'],
-            description: 'Bremssystem-Typ',
-          },
-        },
-        required: ['brakes'],
-      },
-    },
-  },
-  {
-    type: 'function',
-    function: {
-      name: 'set_performance_package',
-      description: 'Setzt das Performance-Paket',
-      parameters: {
-        type: 'object',
-        properties: {
-          package: {
-            type: 'string',
-            enum: ['none', 'performance', 'competition'],
-            description: 'Performance-Paket',
-          },
-        },
-        required: ['package'],
-      },
-    },
-  },
-  {
-    type: 'function',
-    function: {
-      name: 'move_camera',
-      description: 'Bewegt die Kamera zu einer bestimmten Ansicht',
-      parameters: {
-        type: 'object',
-        properties: {
-          position: {
-            type: 'string',
-            enum: ['front', 'side', 'rear', 'interior', 'wheels'],
-            description: 'Kamera-Position',
-          },
-        },
-        required: ['position'],
-      },
-    },
-  },
-  {
-    type: 'function',
-    function: {
-      name: 'validate_configuration',
-      description: 'Validiert die aktuelle Konfiguration',
-      parameters: {
-        type: 'object',
-        properties: {},
-      },
-    },
-  },
-  {
-    type: 'function',
-    function: {
-      name: 'change_grill_color',
-      description: 'Ändert die Farbe des Frontgrills (Niere)',
-      parameters: {
-        type: 'object',
-        properties: {
-          grillColorId: {
-            type: 'string',
-            description: 'Die ID der gewünschten Grill-Farbe',
-            enum: AVAILABLE_GRILL_COLORS.map(g => g.id),
-          },
-        },
-        required: ['grillColorId'],
-      },
-    },
-  },
-  {
-    type: 'function',
-    function: {
-      name: 'change_hood_pattern',
-      description: 'Ändert das Muster/Design der Motorhaube',
-      parameters: {
-        type: 'object',
-        properties: {
-          hoodPatternId: {
-            type: 'string',
-            description: 'Die ID des gewünschten Hauben-Designs',
-            enum: AVAILABLE_HOOD_PATTERNS.map(h => h.id),
-          },
-        },
-        required: ['hoodPatternId'],
-      },
-    },
-  },
-];
+export const demoProvider: LLMProvider = {
+  id: 'demo',
+  name: 'Demo-Modus',
+  supportsStreaming: false,
+  send: async (request) => request.toolRounds?.length
+    ? summarizeOutcome(request.toolRounds)
+    : handleDemoMode(request),
+};
 
-// =============================================================================
-// AI SERVICE
-// =============================================================================
-
-export interface OpenAIResponse {
-  message: string;
-  functionCalls: Array<{
-    name: string;
-    args: Record<string, unknown>;
-  }>;
-}
-
-export async function sendMessageToOpenAI(
-  userMessage: string,
-  currentConfig: CarConfig,
-  conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }>
-): Promise<OpenAIResponse> {
-  if (!API_KEY) {
-    console.warn('⚠️ No OpenAI API key found - falling back to demo mode');
-    console.warn('Set VITE_OPENAI_API_KEY in your .env file to enable real AI chat');
-    return handleDemoMode(userMessage, currentConfig, conversationHistory);
-  }
-
-  console.log('✅ OpenAI API key detected - using real LLM');
-  console.log(`📝 User message: "${userMessage}"`);
-  console.log(`💬 Conversation history: ${conversationHistory.length} messages`);
-
-  try {
-    // Build context with current configuration
-    const configContext = `
-AKTUELLE KONFIGURATION:
-- Modell: BMW M5
-- Farbe: ${currentConfig.color.name}
-- Felgen: ${currentConfig.wheels.name}
-- Performance-Paket: ${currentConfig.performancePackage}
-- Bremsen: ${currentConfig.brakes}
-- Interieur: ${currentConfig.interior.leather} Leder, ${currentConfig.interior.trim} Zierleisten
-
-VALIDIERUNGSSTATUS: ${validateConfiguration(currentConfig).isValid ? 'GÜLTIG ✅' : 'UNGÜLTIG ⚠️'}
-
-Wenn der Kunde etwas anfragt, das nicht für den M5 verfügbar ist, erkläre:
-1. WARUM es nicht möglich ist
-2. Die 4 HAUPTVORTEILE des M5
-3. Passende Alternativen
-`;
-
-    // Prepare messages
-    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
-      { role: 'system', content: SYSTEM_PROMPT },
-      ...conversationHistory.map(msg => ({
-        role: msg.role as 'user' | 'assistant',
-        content: msg.content,
-      })),
-      { role: 'user', content: configContext + '\n\nKunde: ' + userMessage },
-    ];
-
-    console.log('📤 Sending request to OpenAI with function calling...');
-
-    // Call OpenAI with function calling
-    // Using gpt-5.1-2025-11-13 - the newest flagship model with enhanced reasoning
-    // GPT-5 models don't support temperature/top_p, use reasoning_effort instead
-    const response = await openai.chat.completions.create({
-      model: 'gpt-5.1-2025-11-13',
-      messages,
-      tools: CONFIGURATION_FUNCTIONS,
-      tool_choice: 'auto',
-      // GPT-5 specific parameters - reasoning_effort is top-level, not nested
-      reasoning_effort: 'low',  // Low effort for fast car config responses
-      max_completion_tokens: 800,
-    } as any);  // Type assertion needed for GPT-5 specific params
-
-    const message = response.choices[0]?.message;
-    const functionCalls: OpenAIResponse['functionCalls'] = [];
-
-    console.log('📥 Received response from OpenAI');
-
-    // Extract function calls
-    if (message.tool_calls && message.tool_calls.length > 0) {
-      console.log(`🔧 Processing ${message.tool_calls.length} function call(s)...`);
-
-      for (const toolCall of message.tool_calls) {
-        if (toolCall.type === 'function') {
-          try {
-            const args = JSON.parse(toolCall.function.arguments);
-            console.log(`  ✅ Function: ${toolCall.function.name}`, args);
-            functionCalls.push({
-              name: toolCall.function.name,
-              args,
-            });
-          } catch (e) {
-            console.error('❌ Error parsing function arguments:', e);
-          }
-        }
-      }
-    } else {
-      console.log('ℹ️ No function calls in response');
-    }
-
-    // If we need a response but got function calls without text, generate a response
-    let responseText = message.content || '';
-
-    // If there are function calls but no message content, provide default acknowledgment
-    if (!responseText && functionCalls.length > 0) {
-      const functionName = functionCalls[0].name;
-      if (functionName === 'change_color') {
-        const colorId = functionCalls[0].args.colorId;
-        const color = AVAILABLE_COLORS.find(c => c.id === colorId);
-        responseText = color ? `Ich ändere die Farbe auf ${color.name}.` : 'Farbe wird geändert.';
-      } else if (functionName === 'change_wheels') {
-        const wheelId = functionCalls[0].args.wheelId;
-        const wheel = AVAILABLE_WHEELS.find(w => w.id === wheelId);
-        responseText = wheel ? `Ich ändere die Felgen auf ${wheel.name}.` : 'Felgen werden geändert.';
-      } else if (functionName === 'move_camera') {
-        responseText = 'Die Ansicht wird geändert.';
-      } else {
-        responseText = 'Konfiguration wird aktualisiert.';
-      }
+/**
+ * Follow-up after the tool calls ran: only reports what did not work out
+ * as announced (failed calls, changes that left the configuration invalid)
+ */
+function summarizeOutcome(rounds: ToolRound[]): LLMResponse {
+  const results = rounds[rounds.length - 1].results;
+  const outcomes = results.map(result => {
+    try {
+      return JSON.parse(result.content) as {
+        error?: string;
+        changes?: string[];
+        validation?: { valid: boolean; blockers: string[] };
+      };
+    } catch {
+      return {};
     }
+  });
 
-    return {
-      message: responseText || 'Entschuldigung, ich konnte Ihre Anfrage nicht verarbeiten.',
-      functionCalls,
-    };
-  } catch (error: any) {
-    console.error('❌ OpenAI API error:', error);
-    console.error('Error details:', error?.message || 'Unknown error');
-
-    // Check for specific error types
-    if (error?.status === 401) {
-      console.error('🔑 Authentication error - check your API key');
-      throw new Error('OpenAI API authentication failed. Please check your API key.');
-    } else if (error?.status === 429) {
-      console.error('⏱️ Rate limit exceeded');
-      throw new Error('OpenAI API rate limit exceeded. Please try again later.');
-    } else if (error?.status === 500) {
-      console.error('🔥 OpenAI server error');
-      throw new Error('OpenAI server error. Please try again.');
-    } else if (error?.status === 400) {
-      console.error('⚠️ Bad request - check model name and parameters');
-      console.error('Full error:', JSON.stringify(error, null, 2));
-      throw new Error('Invalid request to OpenAI API. Please check console for details.');
-    }
-
-    // For other errors, provide informative message but don't fail completely
-    console.warn('⚠️ Falling back to demo mode due to API error');
-    return handleDemoMode(userMessage, currentConfig, conversationHistory);
+  const lines = outcomes.flatMap(outcome => (outcome.error ? [`⚠️ ${outcome.error}`] : []));
+  const validation = outcomes[outcomes.length - 1]?.validation;
+  const changed = outcomes.some(outcome => (outcome.changes?.length ?? 0) > 0);
+  if (changed && validation && !validation.valid) {
+    lines.push(
+      '⚠️ So ist die Konfiguration noch nicht bestellbar:',
+      ...validation.blockers.map(blocker => `• ${blocker}`),
+      'Sagen Sie „korrigieren“, und ich behebe das automatisch.'
+    );
   }
+  return { message: lines.join('\n'), functionCalls: [] };
 }
 
 // =============================================================================
-// DEMO MODE (without API key)
+// KEYWORD MATCHING
 // =============================================================================
 
 // Track the last topic for context-aware follow-ups
-let lastConversationTopic: 'exterior' | 'interior' | 'wheels' | 'brakes' | 'grill' | 'hood' | 'general' = 'general';
+type DemoTopic = 'exterior' | 'interior' | 'wheels' | 'brakes' | 'grill' | 'hood' | 'general';
+let lastConversationTopic: DemoTopic = 'general';
+
+// Option field a follow-up like "Alternativen?" refers to
+const DEMO_TOPIC_FIELDS: Record<DemoTopic, OptionField> = {
+  exterior: 'color',
+  interior: 'interior.leather',
+  wheels: 'wheels',
+  brakes: 'brakes',
+  grill: 'grillColor',
+  hood: 'hoodPattern',
+  general: 'wheels',
+};
 
-function handleDemoMode(
-  userMessage: string,
-  currentConfig: CarConfig,
-  conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }> = []
-): OpenAIResponse {
+/**
+ * Options of `field` the customer can choose with the current configuration.
+ * Blocked options stay listed if the store resolves the conflict by
+ * changing another field (e.g. Competition brings 21" wheels).
+ */
+function selectable(config: CarConfig, field: OptionField): OptionAvailability[] {
+  const rules = getActiveConstraints(config.model);
+  const resolvable = (ruleId: string) => {
+    const rule = rules.find(r => r.id === ruleId);
+    return !!rule?.autoResolve && [rule.fix, rule.autoResolve.otherwise].some(target => target && target.field !== field);
+  };
+  return getOptionAvailability(config)[field].filter(option => option.status !== 'block' || option.ruleIds.every(resolvable));
+}
+
+/**
+ * Bulleted option list, with prices
+ */
+function listOptions(options: OptionAvailability[]): string {
+  return options.map(o => `• ${o.name} ${o.price > 0 ? `(+${formatPrice(o.price)})` : '(inkl.)'}`).join('\n');
+}
+
+function handleDemoMode({ message: userMessage, config: currentConfig, savedConfigurationNames }: LLMRequest): LLMResponse {
+  const model = getModel(currentConfig.model);
   const lowerMessage = userMessage.toLowerCase();
   // Normalize German characters
   const normalizedMessage = lowerMessage
@@ -414,6 +110,43 @@ function handleDemoMode(
   console.log('🎮 Demo mode active - processing message:', userMessage);
   console.log('📝 Last conversation topic:', lastConversationTopic);
 
+  // ==========================================================================
+  // UNDO / REDO
+  // ==========================================================================
+  if (normalizedMessage.includes('rueckgaengig') || normalizedMessage.includes('undo')) {
+    return {
+      message: 'Ich mache die letzte Änderung rückgängig.',
+      functionCalls: [{ name: 'undo_change', args: {} }],
+    };
+  }
+  if (normalizedMessage.includes('wiederherstell') || normalizedMessage.includes('redo')) {
+    return {
+      message: 'Ich stelle die Änderung wieder her.',
+      functionCalls: [{ name: 'redo_change', args: {} }],
+    };
+  }
+
+  // ==========================================================================
+  // COMPARISON
+  // ==========================================================================
+  if (lowerMessage.includes('vergleich') || lowerMessage.includes('unterschied')) {
+    if (savedConfigurationNames.length === 0) {
+      return {
+        message: 'Speichern Sie zuerst eine Konfiguration (links unter „Gespeichert“) - dann kann ich sie mit Ihrer aktuellen vergleichen.',
+        functionCalls: [],
+      };
+    }
+    // Named configurations in the message, otherwise the most recently saved one
+    const named = savedConfigurationNames.filter(name => lowerMessage.includes(name.toLowerCase()));
+    const [left, right] = named.length >= 2
+      ? named
+      : ['current', named[0] ?? savedConfigurationNames[savedConfigurationNames.length - 1]];
+    return {
+      message: 'Gerne! Hier sind die Unterschiede:',
+      functionCalls: [{ name: 'compare_configurations', args: { left, right } }],
+    };
+  }
+
   // ==========================================================================
   // CONTEXT-AWARE FOLLOW-UP DETECTION
   // Check if this is a follow-up message (starts with "nein", just a color, etc.)
@@ -431,37 +164,37 @@ function handleDemoMode(
       console.log('✅ Follow-up detected: Interior white color');
       return {
         message: 'Ausgezeichnete Wahl! Ich ändere die Interieurfarbe auf **Alpinweiß**. Elegant und modern!',
-        functionCalls: [{ name: 'change_interior', args: { color: 'Alpinweiß' } }],
+        functionCalls: [{ name: 'change_interior', args: { color: 'alpine-white' } }],
       };
     }
     if (lowerMessage.includes('elfenbein') || lowerMessage.includes('ivory')) {
       return {
         message: 'Ich ändere die Interieurfarbe auf **Elfenbeinweiß**. Klassisch und luxuriös!',
-        functionCalls: [{ name: 'change_interior', args: { color: 'Elfenbeinweiß' } }],
+        functionCalls: [{ name: 'change_interior', args: { color: 'ivory-white' } }],
       };
     }
     if (lowerMessage.includes('schwarz') || lowerMessage.includes('black')) {
       return {
         message: 'Ich ändere die Interieurfarbe auf **Schwarz**. Elegant und zeitlos!',
-        functionCalls: [{ name: 'change_interior', args: { color: 'Schwarz' } }],
+        functionCalls: [{ name: 'change_interior', args: { color: 'black' } }],
       };
     }
     if (lowerMessage.includes('cognac') || lowerMessage.includes('braun') || lowerMessage.includes('brown')) {
       return {
         message: 'Ich ändere die Interieurfarbe auf **Cognac**. Luxuriös und warm!',
-        functionCalls: [{ name: 'change_interior', args: { color: 'Cognac' } }],
+        functionCalls: [{ name: 'change_interior', args: { color: 'cognac' } }],
       };
     }
     if (lowerMessage.includes('silverstone') || lowerMessage.includes('silber') || lowerMessage.includes('grau')) {
       return {
         message: 'Ich ändere die Interieurfarbe auf **Silverstone**. Modern und elegant!',
-        functionCalls: [{ name: 'change_interior', args: { color: 'Silverstone' } }],
+        functionCalls: [{ name: 'change_interior', args: { color: 'silverstone' } }],
       };
     }
     if (lowerMessage.includes('rot') || lowerMessage.includes('red') || lowerMessage.includes('fiona')) {
       return {
         message: 'Ich ändere die Interieurfarbe auf **Fiona Rot**. Sportlich und ausdrucksstark!',
-        functionCalls: [{ name: 'change_interior', args: { color: 'Fiona Rot' } }],
+        functionCalls: [{ name: 'change_interior', args: { color: 'fiona-red' } }],
       };
     }
   }
@@ -518,7 +251,7 @@ function handleDemoMode(
   if (matchedWheel && matchedWheel.type !== 'standard') {
     console.log('✅ Direct wheel match:', matchedWheel.name);
     return {
-      message: `Perfekt! Ich ändere die Felgen auf **${matchedWheel.name}**. ${matchedWheel.type === 'm-performance' ? 'Eine exzellente Wahl für maximale Performance!' : 'Sportliches M Design für Ihren M5!'}`,
+      message: `Perfekt! Ich ändere die Felgen auf **${matchedWheel.name}**. ${matchedWheel.type === 'm-performance' ? 'Eine exzellente Wahl für maximale Performance!' : `Sportliches M Design für Ihren ${model.shortName}!`}`,
       functionCalls: [{ name: 'change_wheels', args: { wheelId: matchedWheel.id } }, { name: 'move_camera', args: { position: 'wheels' } }],
     };
   }
@@ -535,7 +268,7 @@ function handleDemoMode(
 
     if (lowerMessage.includes('zeig') || lowerMessage.includes('welche') || lowerMessage.includes('verfügbar') || lowerMessage.includes('optionen')) {
       return {
-        message: `Hier sind die verfügbaren **Außenfarben** für Ihren M5:\n\n**Solid (ohne Aufpreis):**\n• Alpinweiß\n• Schwarz\n\n**Metallic:**\n• Saphirschwarz Metallic\n• Brooklyn Grau Metallic\n• Portimao Blau Metallic\n• Isle of Man Grün Metallic\n\n**BMW Individual:**\n• Frozen Deep Grey\n• Frozen Marina Bay Blau\n\nWelche Farbe interessiert Sie?`,
+        message: `Hier sind die verfügbaren **Außenfarben** für Ihren ${model.shortName}:\n\n${listOptions(selectable(currentConfig, 'color'))}\n\nWelche Farbe interessiert Sie?`,
         functionCalls: [],
       };
     }
@@ -545,33 +278,35 @@ function handleDemoMode(
   // WHEEL COMMANDS
   // ==========================================================================
   if (lowerMessage.includes('felge') || lowerMessage.includes('räder') || lowerMessage.includes('raeder') || lowerMessage.includes('wheel') || lowerMessage.includes('rim')) {
-    // Check for standard wheels - DEMONSTRATE M5 BENEFITS
+    // Standard wheels: blocked on some models - then explain the model's advantages
     if (lowerMessage.includes('standard') || lowerMessage.includes('normal') || lowerMessage.includes('basis')) {
+      const wheels = selectable(currentConfig, 'wheels');
+      const standard = AVAILABLE_WHEELS.find(w => w.type === 'standard')!;
+      if (wheels.some(w => w.key === standard.id)) {
+        return {
+          message: `Ich ändere die Felgen auf **${standard.name}**.`,
+          functionCalls: [{ name: 'change_wheels', args: { wheelId: standard.id } }, { name: 'move_camera', args: { position: 'wheels' } }],
+        };
+      }
       return {
-        message: `⚠️ **Standard-Alufelgen sind für den BMW M5 nicht verfügbar.**
+        message: `⚠️ **${standard.name} sind für den BMW ${model.shortName} nicht verfügbar.**
 
-**Warum?** Der M5 ist ein Hochleistungsfahrzeug, das spezielle M-Komponenten erfordert.
+**Warum?** ${model.description}.
 
-**Die 4 Hauptvorteile Ihres BMW M5:**
-1. 🏎️ **625 PS V8 Twin-Turbo Motor** - Außergewöhnliche Leistung
-2. 🔧 **M xDrive Allradantrieb** - Optimale Traktion
-3. 🎯 **Adaptive M Federung** - Perfekte Balance
-4. ⚡ **Exklusive M Performance-Komponenten**
+**Die ${model.highlights.length} Hauptvorteile Ihres BMW ${model.shortName}:**
+${model.highlights.map((highlight, i) => `${i + 1}. ${highlight}`).join('\n')}
 
 **Verfügbare Alternativen:**
-• M Doppelspeiche 20" - Sportlich und elegant
-• M Sternspeiche 21" - Premium M Sport Design
-• M Y-Speiche 21" - Dynamisches Design
-• M Performance Geschmiedet 21" - Leichtbau für maximale Performance
+${listOptions(wheels)}
 
-Welche M Felgen interessieren Sie?`,
+Welche Felgen interessieren Sie?`,
         functionCalls: [{ name: 'validate_configuration', args: {} }],
       };
     }
 
     if (lowerMessage.includes('zeig') || lowerMessage.includes('welche') || lowerMessage.includes('änder') || lowerMessage.includes('aender')) {
       return {
-        message: `Für Ihren BMW M5 sind folgende Premium-Felgen verfügbar:\n\n**M Sport:**\n• M Doppelspeiche 20" (€1.800)\n• M Sternspeiche 21" (€2.400)\n• M Y-Speiche 21" (€2.800)\n\n**M Performance:**\n• M Performance Geschmiedet 21" (€4.200)\n\nWelche Felgen möchten Sie?`,
+        message: `Für Ihren BMW ${model.shortName} sind folgende Felgen verfügbar:\n\n${listOptions(selectable(currentConfig, 'wheels'))}\n\nWelche Felgen möchten Sie?`,
         functionCalls: [{ name: 'move_camera', args: { position: 'wheels' } }],
       };
     }
@@ -589,37 +324,37 @@ Welche M Felgen interessieren Sie?`,
     if (lowerMessage.includes('weiß') || lowerMessage.includes('weiss') || lowerMessage.includes('white') || lowerMessage.includes('alpin')) {
       return {
         message: 'Ich ändere die Interieurfarbe auf **Alpinweiß**. Elegant und modern!',
-        functionCalls: [{ name: 'change_interior', args: { color: 'Alpinweiß' } }],
+        functionCalls: [{ name: 'change_interior', args: { color: 'alpine-white' } }],
       };
     }
     if (lowerMessage.includes('elfenbein') || lowerMessage.includes('ivory')) {
       return {
         message: 'Ich ändere die Interieurfarbe auf **Elfenbeinweiß**. Klassisch und luxuriös!',
-        functionCalls: [{ name: 'change_interior', args: { color: 'Elfenbeinweiß' } }],
+        functionCalls: [{ name: 'change_interior', args: { color: 'ivory-white' } }],
       };
     }
     if (lowerMessage.includes('schwarz') || lowerMessage.includes('black')) {
       return {
         message: 'Ich ändere die Interieurfarbe auf **Schwarz**. Elegant und zeitlos!',
-        functionCalls: [{ name: 'change_interior', args: { color: 'Schwarz' } }],
+        functionCalls: [{ name: 'change_interior', args: { color: 'black' } }],
       };
     }
     if (lowerMessage.includes('cognac') || lowerMessage.includes('braun') || lowerMessage.includes('brown')) {
       return {
         message: 'Ich ändere die Interieurfarbe auf **Cognac**. Luxuriös und warm!',
-        functionCalls: [{ name: 'change_interior', args: { color: 'Cognac' } }],
+        functionCalls: [{ name: 'change_interior', args: { color: 'cognac' } }],
       };
     }
     if (lowerMessage.includes('silverstone') || lowerMessage.includes('silber') || lowerMessage.includes('grau') || lowerMessage.includes('grey')) {
       return {
         message: 'Ich ändere die Interieurfarbe auf **Silverstone**. Modern und elegant!',
-        functionCalls: [{ name: 'change_interior', args: { color: 'Silverstone' } }],
+        functionCalls: [{ name: 'change_interior', args: { color: 'silverstone' } }],
       };
     }
     if (lowerMessage.includes('rot') || lowerMessage.includes('red') || lowerMessage.includes('fiona')) {
       return {
         message: 'Ich ändere die Interieurfarbe auf **Fiona Rot**. Sportlich und ausdrucksstark!',
-        functionCalls: [{ name: 'change_interior', args: { color: 'Fiona Rot' } }],
+        functionCalls: [{ name: 'change_interior', args: { color: 'fiona-red' } }],
       };
     }
 
@@ -627,7 +362,7 @@ Welche M Felgen interessieren Sie?`,
     if (lowerMessage.includes('merino')) {
       const leatherType = lowerMessage.includes('extended') ? 'extended-merino' : 'merino';
       return {
-        message: `Ich ändere das Leder auf **${leatherType === 'extended-merino' ? 'Extended Merino' : 'Merino'}**. Höchste Qualität für Ihren M5!`,
+        message: `Ich ändere das Leder auf **${leatherType === 'extended-merino' ? 'Extended Merino' : 'Merino'}**. Höchste Qualität für Ihren ${model.shortName}!`,
         functionCalls: [{ name: 'change_interior', args: { leather: leatherType } }],
       };
     }
@@ -660,7 +395,7 @@ Welche M Felgen interessieren Sie?`,
 
     // Show interior options
     return {
-      message: `Hier sind die Interieur-Optionen für Ihren M5:\n\n**Lederarten:**\n• Vernasca Leder\n• Merino Leder\n• Extended Merino Leder (M5 exklusiv)\n\n**Farben:**\n• Schwarz\n• Cognac\n• Silverstone\n• Fiona Rot\n• Elfenbeinweiß\n• Alpinweiß\n\n**Zierleisten:**\n• Aluminium Rhombicle\n• Edelholz Eiche\n• M Carbon\n\nWas möchten Sie ändern?`,
+      message: `Hier sind die Interieur-Optionen für Ihren ${model.shortName}:\n\n**Lederarten:**\n${listOptions(selectable(currentConfig, 'interior.leather'))}\n\n**Farben:**\n${listOptions(selectable(currentConfig, 'interior.color'))}\n\n**Zierleisten:**\n${listOptions(selectable(currentConfig, 'interior.trim'))}\n\nWas möchten Sie ändern?`,
       functionCalls: [{ name: 'move_camera', args: { position: 'interior' } }],
     };
   }
@@ -694,6 +429,65 @@ Welche M Felgen interessieren Sie?`,
     };
   }
 
+  // ==========================================================================
+  // ADD-ON PACKAGES
+  // ==========================================================================
+  const addon = lowerMessage.includes('comfort') || lowerMessage.includes('komfort') ? 'comfort'
+    : lowerMessage.includes('technolog') ? 'technology'
+    : null;
+  if (addon) {
+    const remove = lowerMessage.includes('entfern') || lowerMessage.includes('ohne') || lowerMessage.includes('kein');
+    return {
+      message: remove ? 'Ich entferne das Paket.' : 'Gern, ich füge das Paket hinzu.',
+      functionCalls: [{ name: remove ? 'remove_package' : 'add_package', args: { packageId: addon } }],
+    };
+  }
+
+  // ==========================================================================
+  // LIGHTS, SOUND, DRIVING ASSISTANT
+  // ==========================================================================
+  if (lowerMessage.includes('laser') || /\bled\b/.test(lowerMessage)) {
+    const lights = lowerMessage.includes('laser') ? 'laser' : 'led';
+    return {
+      message: lights === 'laser' ? 'Ich wähle das **BMW Laserlicht**.' : 'Ich wähle die **LED-Scheinwerfer**.',
+      functionCalls: [{ name: 'change_lights', args: { lights } }],
+    };
+  }
+
+  if (lowerMessage.includes('sound') || lowerMessage.includes('harman') || lowerMessage.includes('bowers') || lowerMessage.includes('hifi')) {
+    const sound = lowerMessage.includes('harman') ? 'harman-kardon'
+      : lowerMessage.includes('bowers') || lowerMessage.includes('b&w') ? 'bowers-wilkins'
+      : lowerMessage.includes('standard') || lowerMessage.includes('hifi') ? 'standard'
+      : null;
+    if (sound) {
+      return {
+        message: 'Ich ändere das Soundsystem.',
+        functionCalls: [{ name: 'change_sound', args: { sound } }],
+      };
+    }
+    return {
+      message: 'Zur Wahl stehen:',
+      functionCalls: [{ name: 'suggest_alternatives', args: { field: 'sound' } }],
+    };
+  }
+
+  if (lowerMessage.includes('assistent') || lowerMessage.includes('assistant')) {
+    const drivingAssistant = lowerMessage.includes('profession') || /\bpro\b/.test(lowerMessage) ? 'pro'
+      : lowerMessage.includes('plus') ? 'plus'
+      : lowerMessage.includes('ohne') || lowerMessage.includes('kein') ? 'none'
+      : null;
+    if (drivingAssistant) {
+      return {
+        message: 'Ich ändere den Fahrassistenten.',
+        functionCalls: [{ name: 'change_driving_assistant', args: { drivingAssistant } }],
+      };
+    }
+    return {
+      message: 'Zur Wahl stehen:',
+      functionCalls: [{ name: 'suggest_alternatives', args: { field: 'drivingAssistant' } }],
+    };
+  }
+
   // ==========================================================================
   // PERFORMANCE PACKAGE COMMANDS
   // ==========================================================================
@@ -706,7 +500,7 @@ Welche M Felgen interessieren Sie?`,
     }
     if (lowerMessage.includes('performance') && !lowerMessage.includes('competition')) {
       return {
-        message: 'Ich aktiviere das **M Performance Paket**. Sportliche Verbesserungen für Ihren M5!',
+        message: `Ich aktiviere das **M Performance Paket**. Sportliche Verbesserungen für Ihren ${model.shortName}!`,
         functionCalls: [{ name: 'set_performance_package', args: { package: 'performance' } }],
       };
     }
@@ -718,7 +512,7 @@ Welche M Felgen interessieren Sie?`,
     }
 
     return {
-      message: `**Performance-Pakete:**\n\n• **Kein Paket** - Standard M5 Ausstattung\n• **M Performance** - Sportliche Verbesserungen\n• **M Competition** - Maximale Performance (625 PS)\n\nWelches Paket interessiert Sie?`,
+      message: `**Performance-Pakete für Ihren ${model.shortName}:**\n\n${listOptions(selectable(currentConfig, 'performancePackage'))}\n\nWelches Paket interessiert Sie?`,
       functionCalls: [],
     };
   }
@@ -751,7 +545,7 @@ Welche M Felgen interessieren Sie?`,
 
     // Show grill options
     return {
-      message: `**Nierenfarben für Ihren M5:**\n\n${AVAILABLE_GRILL_COLORS.map(g => `• **${g.name}** ${g.price > 0 ? `(+€${g.price})` : '(inkl.)'}`).join('\n')}\n\nWelche Nierenfarbe möchten Sie?`,
+      message: `**Nierenfarben für Ihren ${model.shortName}:**\n\n${listOptions(selectable(currentConfig, 'grillColor'))}\n\nWelche Nierenfarbe möchten Sie?`,
       functionCalls: [{ name: 'move_camera', args: { position: 'front' } }],
     };
   }
@@ -783,8 +577,9 @@ Welche M Felgen interessieren Sie?`,
     }
 
     // Show hood options
+    const hoods = selectable(currentConfig, 'hoodPattern');
     return {
-      message: `**Haubendesigns für Ihren M5:**\n\n${AVAILABLE_HOOD_PATTERNS.map(h => `• **${h.name}** - ${h.description} ${h.price > 0 ? `(+€${h.price})` : '(inkl.)'}`).join('\n')}\n\nWelches Haubendesign möchten Sie?`,
+      message: `**Haubendesigns für Ihren ${model.shortName}:**\n\n${AVAILABLE_HOOD_PATTERNS.filter(h => hoods.some(o => o.key === h.id)).map(h => `• **${h.name}** - ${h.description} ${h.price > 0 ? `(+${formatPrice(h.price)})` : '(inkl.)'}`).join('\n')}\n\nWelches Haubendesign möchten Sie?`,
       functionCalls: [{ name: 'move_camera', args: { position: 'front' } }],
     };
   }
@@ -800,23 +595,90 @@ Welche M Felgen interessieren Sie?`,
   }
   if (lowerMessage.includes('vorne') || lowerMessage.includes('front')) {
     return {
-      message: 'Hier ist die Frontansicht Ihres M5.',
+      message: `Hier ist die Frontansicht Ihres ${model.shortName}.`,
       functionCalls: [{ name: 'move_camera', args: { position: 'front' } }],
     };
   }
   if (lowerMessage.includes('heck') || lowerMessage.includes('hinten') || lowerMessage.includes('rear')) {
     return {
-      message: 'Hier ist die Heckansicht Ihres M5.',
+      message: `Hier ist die Heckansicht Ihres ${model.shortName}.`,
       functionCalls: [{ name: 'move_camera', args: { position: 'rear' } }],
     };
   }
   if (lowerMessage.includes('innen') && lowerMessage.includes('zeig')) {
     return {
-      message: 'Hier ist der Innenraum Ihres M5.',
+      message: `Hier ist der Innenraum Ihres ${model.shortName}.`,
       functionCalls: [{ name: 'move_camera', args: { position: 'interior' } }],
     };
   }
 
+  // ==========================================================================
+  // MODEL SWITCH
+  // ==========================================================================
+  if (normalizedMessage.includes('5er') || normalizedMessage.includes('fuenfer')) {
+    return {
+      message: `Gerne! Ich wechsle zum **${getModel('5-series').name}**. Optionen, die es nur für den M5 gibt, ersetze ich automatisch - so können Sie beide Modelle vergleichen.`,
+      functionCalls: [{ name: 'change_model', args: { model: '5-series' } }],
+    };
+  }
+  if (currentConfig.model !== 'M5' && (lowerMessage.includes('zurück') || lowerMessage.includes('wechsel')) && lowerMessage.includes('m5')) {
+    return {
+      message: `Ich wechsle zurück zum **${getModel('M5').name}**.`,
+      functionCalls: [{ name: 'change_model', args: { model: 'M5' } }],
+    };
+  }
+
+  // ==========================================================================
+  // AUTOMATIC REPAIR
+  // ==========================================================================
+  if (lowerMessage.includes('korrigier') || lowerMessage.includes('reparier') || lowerMessage.includes('beheb') || lowerMessage.includes('gültig machen')) {
+    const repair = solveConfiguration(currentConfig, lowerMessage.includes('günstig') ? 'cheapest' : 'fewest-changes');
+    if (!repair) {
+      return {
+        message: '⚠️ Ich konnte keine gültige Konfiguration finden, ohne das Modell zu wechseln.',
+        functionCalls: [],
+      };
+    }
+    if (repair.changedFields.length === 0) {
+      return {
+        message: '✅ Ihre Konfiguration ist bereits gültig - es ist keine Korrektur nötig.',
+        functionCalls: [],
+      };
+    }
+    return {
+      message: `Ich korrigiere Ihre Konfiguration in einem Schritt:\n\n${describeRepair(repair, currentConfig).map(line => `• ${line}`).join('\n')}\n\nPreisänderung: ${repair.priceDelta >= 0 ? '+' : ''}${formatPrice(repair.priceDelta)}`,
+      functionCalls: [{ name: 'repair_configuration', args: {} }],
+    };
+  }
+
+  // ==========================================================================
+  // PRICE
+  // ==========================================================================
+  if (lowerMessage.includes('preis') || lowerMessage.includes('kost') || lowerMessage.includes('price') || lowerMessage.includes('teuer')) {
+    return {
+      message: `Hier ist die Preisaufstellung Ihres ${model.shortName}:\n\n${describePrice(calculatePrice(currentConfig))}`,
+      functionCalls: [],
+    };
+  }
+
+  // ==========================================================================
+  // EXPLANATIONS & ALTERNATIVES
+  // ==========================================================================
+  if (lowerMessage.includes('warum') || lowerMessage.includes('wieso') || lowerMessage.includes('weshalb')) {
+    return {
+      message: 'Gern erkläre ich das:',
+      functionCalls: [{ name: 'explain_constraint', args: {} }],
+    };
+  }
+
+  if (lowerMessage.includes('alternativ')) {
+    const field = DEMO_TOPIC_FIELDS[lastConversationTopic];
+    return {
+      message: 'Diese Alternativen stehen Ihnen offen:',
+      functionCalls: [{ name: 'suggest_alternatives', args: { field } }],
+    };
+  }
+
   // ==========================================================================
   // VALIDATION
   // ==========================================================================
@@ -834,7 +696,7 @@ Welche M Felgen interessieren Sie?`,
   // HELP / DEFAULT RESPONSE
   // ==========================================================================
   return {
-    message: `Ich kann Ihnen bei der Konfiguration Ihres BMW M5 helfen:\n
+    message: `Ich kann Ihnen bei der Konfiguration Ihres BMW ${model.shortName} helfen:\n
 **Außen:**
 • "Zeig mir die Farben" oder direkt "Alpinweiß", "Portimao Blau", etc.
 • "Zeig mir die Felgen" oder direkt "M Doppelspeiche", "M Performance", etc.
@@ -856,84 +718,3 @@ Was möchten Sie konfigurieren?`,
     functionCalls: [],
   };
 }
-
-// =============================================================================
-// FUNCTION EXECUTION
-// =============================================================================
-
-export function executeOpenAIFunctionCall(
-  name: string,
-  args: Record<string, unknown>,
-  currentConfig: CarConfig
-): {
-  configUpdate?: Partial<CarConfig>;
-  cameraPosition?: string;
-  showValidation?: boolean;
-} {
-  switch (name) {
-    case 'change_color': {
-      const color = AVAILABLE_COLORS.find(c => c.id === args.colorId);
-      if (color) {
-        return { configUpdate: { color } };
-      }
-      break;
-    }
-
-    case 'change_wheels': {
-      const wheels = AVAILABLE_WHEELS.find(w => w.id === args.wheelId);
-      if (wheels) {
-        return { configUpdate: { wheels } };
-      }
-      break;
-    }
-
-    case 'change_interior': {
-      const interiorUpdate: Partial<CarConfig['interior']> = {};
-      if (args.leather) interiorUpdate.leather = args.leather as CarConfig['interior']['leather'];
-      if (args.color) interiorUpdate.color = args.color as string;
-      if (args.trim) interiorUpdate.trim = args.trim as CarConfig['interior']['trim'];
-      return {
-        configUpdate: {
-          interior: { ...currentConfig.interior, ...interiorUpdate },
-        },
-      };
-    }
-
-    case 'change_brakes':
-      return {
-        configUpdate: { brakes: args.brakes as CarConfig['brakes'] },
-      };
-
-    case 'set_performance_package':
-      return {
-        configUpdate: { performancePackage: args.package as CarConfig['performancePackage'] },
-      };
-
-    case 'move_camera':
-      return { cameraPosition: args.position as string };
-
-    case 'validate_configuration':
-      return { showValidation: true };
-
-    case 'change_grill_color': {
-      const grillColor = AVAILABLE_GRILL_COLORS.find(g => g.id === args.grillColorId);
-      if (grillColor) {
-        return { configUpdate: { grillColor } };
-      }
-      break;
-    }
-
-    case 'change_hood_pattern': {
-      const hoodPattern = AVAILABLE_HOOD_PATTERNS.find(h => h.id === args.hoodPatternId);
-      if (hoodPattern) {
-        return { configUpdate: { hoodPattern } };
-      }
-      break;
-    }
-
-    default:
-      break;
-  }
-
-  return {};
-}
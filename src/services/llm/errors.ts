@@ -0,0 +1,47 @@
+/**
+ * LLM Errors
+ *
+ * Providers translate their SDK errors into an LLMError so the chat can
+ * react the same way regardless of the backend in use.
+ */
+
+import type { LLMErrorKind, LLMProviderId } from '../../types';
+
+const MESSAGES: Record<LLMErrorKind, string> = {
+  'auth': 'API authentication failed. Please check your API key.',
+  'rate-limit': 'API rate limit exceeded. Please try again later.',
+  'server': 'AI server error. Please try again.',
+  'bad-request': 'Invalid request to the AI API. Please check console for details.',
+  'network': 'AI service is not reachable.',
+  'aborted': 'Request cancelled.',
+};
+
+export class LLMError extends Error {
+  readonly kind: LLMErrorKind;
+  readonly provider: LLMProviderId;
+
+  constructor(kind: LLMErrorKind, provider: LLMProviderId, message = MESSAGES[kind]) {
+    super(message);
+    this.name = 'LLMError';
+    this.kind = kind;
+    this.provider = provider;
+  }
+}
+
+/**
+ * Maps an HTTP status (as exposed by the provider SDKs) to an error kind
+ */
+export function errorKindFromStatus(status: number | undefined): LLMErrorKind {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'rate-limit';
+  if (status === 400 || status === 404 || status === 422) return 'bad-request';
+  if (status !== undefined && status >= 500) return 'server';
+  return 'network';
+}
+
+/**
+ * Whether the chat should answer in demo mode instead of showing the error
+ */
+export function isRecoverable(error: LLMError): boolean {
+  return error.kind === 'network';
+}
@@ -0,0 +1,222 @@
+/**
+ * Function Executor
+ *
+ * Turns a tool call from any provider into its effect: a configuration
+ * update, a camera move, a store action (undo/redo, comparison) or text to
+ * append to the reply. Arguments are validated against the tool schema
+ * first and passed to typed per-function handlers.
+ */
+
+import type { AIFunctionArgs, AIFunctionName, CameraPosition, CarConfig, OptionField } from '../../types';
+import { validateConfiguration, getFixActions, getActiveConstraints, getOptionAvailability, getValidationExplanation } from '../../config/constraints';
+import { solveConfiguration } from '../../config/solver';
+import { calculatePrice, describePrice, formatPrice } from '../../config/pricing';
+import { getModel } from '../../config/models';
+import { getPackage, getSelectedPackages, togglePackage } from '../../config/packages';
+import { getDimension } from '../../config/options';
+import { AVAILABLE_COLORS, AVAILABLE_WHEELS, AVAILABLE_GRILL_COLORS, AVAILABLE_HOOD_PATTERNS } from '../../types';
+import { TOOL_DEFINITIONS } from './tools';
+import { validateArguments } from './schema';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface FunctionCallResult {
+  configUpdate?: Partial<CarConfig>;
+  cameraPosition?: CameraPosition;
+  showValidation?: boolean;
+  /** Text to append to the assistant's reply (e.g. the price breakdown) */
+  message?: string;
+  /** History step to perform on the store */
+  history?: 'undo' | 'redo';
+  /** Configurations to compare ('current' or saved names) */
+  comparison?: { left: string; right: string };
+  /** Why the call was not carried out (reported back to the model) */
+  error?: string;
+}
+
+// =============================================================================
+// HANDLERS
+// =============================================================================
+
+type Handler<N extends AIFunctionName> = (args: AIFunctionArgs[N], config: CarConfig) => FunctionCallResult;
+
+/**
+ * One handler per function. Arguments are already validated against the
+ * tool schema, so enum values are known options; lookups by id can still
+ * miss for ids without an enum.
+ */
+const HANDLERS: { [N in AIFunctionName]: Handler<N> } = {
+  change_color: ({ colorId }) => ({ configUpdate: { color: AVAILABLE_COLORS.find(c => c.id === colorId)! } }),
+
+  change_wheels: ({ wheelId }) => ({ configUpdate: { wheels: AVAILABLE_WHEELS.find(w => w.id === wheelId)! } }),
+
+  change_interior: (interior, config) => Object.keys(interior).length > 0
+    ? { configUpdate: { interior: { ...config.interior, ...interior } } }
+    : { error: 'Keine Angabe zu Leder, Farbe oder Zierleisten' },
+
+  change_brakes: ({ brakes }) => ({ configUpdate: { brakes } }),
+
+  change_grill_color: ({ grillColorId }) => ({
+    configUpdate: { grillColor: AVAILABLE_GRILL_COLORS.find(g => g.id === grillColorId)! },
+  }),
+
+  change_hood_pattern: ({ hoodPatternId }) => ({
+    configUpdate: { hoodPattern: AVAILABLE_HOOD_PATTERNS.find(h => h.id === hoodPatternId)! },
+  }),
+
+  change_lights: ({ lights }) => ({ configUpdate: { lights } }),
+
+  change_sound: ({ sound }) => ({ configUpdate: { sound } }),
+
+  change_driving_assistant: ({ drivingAssistant }) => ({ configUpdate: { drivingAssistant } }),
+
+  set_performance_package: ({ package: performancePackage }) => ({ configUpdate: { performancePackage } }),
+
+  add_package: ({ packageId }, config) => changePackage(config, packageId, true),
+
+  remove_package: ({ packageId }, config) => changePackage(config, packageId, false),
+
+  get_price: (_, config) => ({ message: describePrice(calculatePrice(config)) }),
+
+  validate_configuration: () => ({ showValidation: true }),
+
+  explain_constraint: ({ ruleId }, config) => explainConstraint(config, ruleId),
+
+  suggest_alternatives: ({ field, optionId }, config) => ({ message: suggestAlternatives(config, field, optionId) }),
+
+  repair_configuration: ({ objective = 'fewest-changes' }, config) => {
+    const repair = solveConfiguration(config, objective);
+    if (!repair) return { error: 'Es wurde keine gültige Konfiguration gefunden' };
+    if (repair.changedFields.length === 0) return { message: 'Die Konfiguration ist bereits gültig.' };
+    return { configUpdate: repair.changes };
+  },
+
+  apply_fix: ({ ruleId }, config) => {
+    const fix = getFixActions(validateConfiguration(config), config).find(f => f.ruleId === ruleId);
+    return fix
+      ? { configUpdate: fix.changes }
+      : { error: `Für ${ruleId} gibt es keine Korrektur - die Regel ist nicht verletzt oder unbekannt` };
+  },
+
+  change_model: ({ model }) => ({ configUpdate: { model } }),
+
+  move_camera: ({ position }) => ({ cameraPosition: position }),
+
+  undo_change: () => ({ history: 'undo' }),
+
+  redo_change: () => ({ history: 'redo' }),
+
+  compare_configurations: ({ left = 'current', right }) => ({ comparison: { left, right } }),
+};
+
+function changePackage(config: CarConfig, packageId: string, add: boolean): FunctionCallResult {
+  const pkg = getPackage(packageId)!;
+  const model = getModel(config.model);
+  const selected = getSelectedPackages(config).some(p => p.id === pkg.id);
+
+  if (add && !model.packages.includes(pkg.id)) {
+    return { error: `Das ${pkg.name} ist für den ${model.name} nicht erhältlich` };
+  }
+  if (selected === add) {
+    return { message: `Das ${pkg.name} ist ${selected ? 'bereits' : 'nicht'} ausgewählt.` };
+  }
+
+  // Included options follow via the store's dependency resolution
+  const updated = togglePackage(config, pkg.id)!;
+  return { configUpdate: { performancePackage: updated.performancePackage, packages: updated.packages } };
+}
+
+// =============================================================================
+// FUNCTION EXECUTION
+// =============================================================================
+
+export function isAIFunctionName(name: string): name is AIFunctionName {
+  return Object.hasOwn(HANDLERS, name);
+}
+
+function runHandler<N extends AIFunctionName>(name: N, args: AIFunctionArgs[N], config: CarConfig): FunctionCallResult {
+  return HANDLERS[name](args, config);
+}
+
+/**
+ * Validates the arguments against the function's tool schema and runs its
+ * handler. Unknown functions and invalid arguments produce an `error`
+ * result (and a log entry) instead of touching the configuration.
+ */
+export function executeFunctionCall(name: string, args: unknown, currentConfig: CarConfig): FunctionCallResult {
+  if (!isAIFunctionName(name)) {
+    console.warn(`⚠️ Unknown function: ${name}`);
+    return { error: `Unbekannte Funktion ${name}` };
+  }
+
+  const check = validateArguments<AIFunctionArgs[typeof name]>(TOOL_DEFINITIONS[name].parameters, args);
+  if (!check.valid) {
+    console.warn(`⚠️ Invalid arguments for ${name}:`, check.errors);
+    return { error: `Ungültige Argumente für ${name}: ${check.errors.join('; ')}` };
+  }
+
+  const result = runHandler(name, check.args, currentConfig);
+  if (result.error) console.warn(`⚠️ ${name} failed: ${result.error}`);
+  return result;
+}
+
+// =============================================================================
+// EXPLANATIONS
+// =============================================================================
+
+/**
+ * Why a rule exists, whether it is violated and how to fix it; without a
+ * rule id, all current violations
+ */
+function explainConstraint(config: CarConfig, ruleId?: string): FunctionCallResult {
+  const validation = validateConfiguration(config);
+  if (!ruleId) return { message: getValidationExplanation(validation).trim() };
+
+  const rule = getActiveConstraints(config.model).find(r => r.id === ruleId);
+  if (!rule) {
+    return { error: `Die Regel ${ruleId} gilt nicht für den ${getModel(config.model).name}` };
+  }
+
+  const violated = [...validation.blockers, ...validation.warnings].includes(rule);
+  const fix = getFixActions(validation, config).find(f => f.ruleId === rule.id);
+  return {
+    message: [
+      `${rule.severity === 'block' ? 'Regel' : 'Hinweis'}: ${rule.message}`,
+      violated ? 'Die aktuelle Konfiguration verletzt diese Regel.' : 'Die aktuelle Konfiguration erfüllt diese Regel.',
+      ...(fix ? [`Korrektur: ${fix.label} (${fix.priceDelta >= 0 ? '+' : ''}${formatPrice(fix.priceDelta)})`] : []),
+    ].join('\n'),
+  };
+}
+
+/**
+ * Selectable options of a field with prices, and why `optionId` is not
+ * selectable
+ */
+function suggestAlternatives(config: CarConfig, field: OptionField, optionId?: string): string {
+  const dimension = getDimension(field);
+  const options = getOptionAvailability(config)[field];
+  const lines: string[] = [];
+
+  const requested = options.find(o => o.key === optionId || o.name === optionId);
+  if (optionId && !requested) {
+    lines.push(`„${optionId}“ wird für den ${getModel(config.model).name} nicht angeboten.`);
+  } else if (requested?.status === 'block') {
+    const rules = getActiveConstraints(config.model).filter(rule => requested.ruleIds.includes(rule.id));
+    lines.push(`${requested.name} ist nicht wählbar:`, ...rules.map(rule => `• ${rule.message}`));
+  } else if (requested) {
+    lines.push(requested.selected
+      ? `${requested.name} ist bereits ausgewählt.`
+      : `${requested.name} ist wählbar (${formatPrice(requested.price)}).`);
+  }
+
+  const alternatives = options.filter(o => !o.selected && o.status !== 'block' && o !== requested);
+  lines.push(alternatives.length > 0
+    ? `Wählbare Alternativen (${dimension.label}):\n${alternatives.map(o =>
+        `• ${o.name} (${formatPrice(o.price)})${o.status === 'warn' ? ' - mit Hinweis' : ''}`
+      ).join('\n')}`
+    : `Für ${dimension.label} gibt es keine weiteren wählbaren Optionen.`);
+
+  return lines.join('\n');
+}
@@ -0,0 +1,172 @@
+/**
+ * Gemini Provider
+ *
+ * Google Gemini with native function calling. The shared JSON Schema tool
+ * definitions are converted to Gemini's OpenAPI schema subset.
+ */
+
+import {
+  GoogleGenerativeAI,
+  GoogleGenerativeAIAbortError,
+  GoogleGenerativeAIFetchError,
+  type FunctionDeclaration,
+  type Content,
+  type FunctionDeclarationSchema,
+  type Part,
+  type Schema,
+} from '@google/generative-ai';
+import type { LLMFunctionCall, LLMProvider, LLMRequest, LLMSettings, ToolParameterSchema, ToolResult } from '../../types';
+import { CONFIGURATION_TOOLS } from './tools';
+import { buildSystemPrompt, buildUserMessage } from './prompt';
+import { LLMError, errorKindFromStatus } from './errors';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface GeminiProviderOptions {
+  apiKey: string;
+  settings: Pick<LLMSettings, 'model' | 'maxTokens'>;
+}
+
+// =============================================================================
+// TOOL SCHEMA
+// =============================================================================
+
+function toGeminiSchema(schema: ToolParameterSchema): Schema {
+  return {
+    type: schema.type,
+    description: schema.description,
+    // Gemini only accepts enums on strings marked with the 'enum' format
+    ...(schema.enum && { format: 'enum', enum: schema.enum }),
+    ...(schema.properties && {
+      properties: Object.fromEntries(
+        Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+      ),
+      required: schema.required,
+    }),
+    ...(schema.items && { items: toGeminiSchema(schema.items) }),
+  } as Schema;
+}
+
+/**
+ * Functions without arguments must omit `parameters` entirely
+ */
+const FUNCTION_DECLARATIONS: FunctionDeclaration[] = CONFIGURATION_TOOLS.map(tool => ({
+  name: tool.name,
+  description: tool.description,
+  ...(Object.keys(tool.parameters.properties ?? {}).length > 0 && {
+    parameters: toGeminiSchema(tool.parameters) as FunctionDeclarationSchema,
+  }),
+}));
+
+// =============================================================================
+// PROVIDER
+// =============================================================================
+
+export function createGeminiProvider({ apiKey, settings }: GeminiProviderOptions): LLMProvider {
+  const model = new GoogleGenerativeAI(apiKey).getGenerativeModel({
+    model: settings.model,
+    tools: [{ functionDeclarations: FUNCTION_DECLARATIONS }],
+    generationConfig: { maxOutputTokens: settings.maxTokens },
+  });
+
+  return {
+    id: 'gemini',
+    name: `Gemini (${settings.model})`,
+    supportsStreaming: true,
+
+    async send(request, { onText, onFunctionCall, signal } = {}) {
+      const { history, prompt } = buildTurn(request);
+      // Chat sessions pass the instruction through unformatted, so as Content
+      const systemInstruction: Content = { role: 'system', parts: [{ text: buildSystemPrompt(request) }] };
+      const chat = model.startChat({ history, systemInstruction });
+
+      try {
+        let message = '';
+        let functionCalls: LLMFunctionCall[] = [];
+
+        if (onText || onFunctionCall) {
+          // Function calls arrive complete, each within one chunk
+          const result = await chat.sendMessageStream(prompt, { signal });
+          for await (const chunk of result.stream) {
+            const text = chunk.text();
+            if (text) {
+              message += text;
+              onText?.(text);
+            }
+            for (const call of toFunctionCalls(chunk.functionCalls())) {
+              functionCalls.push(call);
+              onFunctionCall?.(call);
+            }
+          }
+        } else {
+          const { response } = await chat.sendMessage(prompt, { signal });
+          message = response.text();
+          functionCalls = toFunctionCalls(response.functionCalls());
+        }
+
+        return { message, functionCalls };
+      } catch (error) {
+        if (error instanceof GoogleGenerativeAIAbortError || signal?.aborted) {
+          throw new LLMError('aborted', 'gemini');
+        }
+        console.error('❌ Gemini API error:', error);
+        const status = error instanceof GoogleGenerativeAIFetchError ? error.status : undefined;
+        throw new LLMError(errorKindFromStatus(status), 'gemini');
+      }
+    },
+  };
+}
+
+// =============================================================================
+// MESSAGES
+// =============================================================================
+
+/**
+ * Chat history and the message to send. In later rounds of the tool loop
+ * the user message and earlier rounds move into the history, and the
+ * latest function responses are sent.
+ */
+function buildTurn(request: LLMRequest): { history: Content[]; prompt: string | Part[] } {
+  const history: Content[] = request.history.map(turn => ({
+    role: turn.role === 'assistant' ? 'model' : 'user',
+    parts: [{ text: turn.content }],
+  }));
+  const prompt = buildUserMessage(request);
+  const rounds = request.toolRounds ?? [];
+  if (rounds.length === 0) return { history, prompt };
+
+  history.push({ role: 'user', parts: [{ text: prompt }] });
+  rounds.forEach((round, index) => {
+    history.push({
+      role: 'model',
+      parts: [
+        ...(round.message ? [{ text: round.message }] : []),
+        ...round.calls.map(call => ({ functionCall: { name: call.name, args: call.args } })),
+      ],
+    });
+    if (index < rounds.length - 1) {
+      history.push({ role: 'function', parts: round.results.map(toFunctionResponse) });
+    }
+  });
+
+  return { history, prompt: rounds[rounds.length - 1].results.map(toFunctionResponse) };
+}
+
+/**
+ * Gemini expects the response as an object
+ */
+function toFunctionResponse(result: ToolResult): Part {
+  let response: object;
+  try {
+    response = JSON.parse(result.content);
+  } catch {
+    response = { result: result.content };
+  }
+  return { functionResponse: { name: result.name, response } };
+}
+
+function toFunctionCalls(calls: Array<{ name: string; args: object }> | undefined): LLMFunctionCall[] {
+  return (calls ?? []).map(call => ({ name: call.name, args: call.args as Record<string, unknown> }));
+}
@@ -0,0 +1,77 @@
+/**
+ * LLM Service
+ *
+ * Creates the chat provider from the LLM settings and sends messages
+ * through it. All providers share one tool schema (tools.ts) and one
+ * function executor (executor.ts); OpenAI and Gemini run behind the server
+ * proxy (server/chat.ts), so API keys stay on the server.
+ */
+
+import type { LLMProvider, LLMRequest, LLMResponse, LLMSettings, ToolRound } from '../../types';
+import { createOpenAIProvider } from './openai';
+import { createProxyProvider } from './proxy';
+import { demoProvider } from './demo';
+import { sendWithFallback } from './send';
+import { runToolLoop, type ToolLoopOptions } from './loop';
+
+export { executeFunctionCall, type FunctionCallResult } from './executor';
+export { describeToolOutcome } from './outcome';
+export { LLMError } from './errors';
+export { LLM_PROVIDERS, getDefaultLLMSettings, resolveLLMSettings } from './settings';
+export { REASONING_EFFORTS, detectCapabilities } from './capabilities';
+
+// =============================================================================
+// PROVIDER SELECTION
+// =============================================================================
+
+function createProvider(settings: LLMSettings): LLMProvider {
+  switch (settings.provider) {
+    case 'local':
+      // Local servers ignore the key, but the SDK requires one
+      return createOpenAIProvider({ id: 'local', apiKey: 'local', settings });
+
+    case 'demo':
+      return demoProvider;
+
+    default:
+      return createProxyProvider({ url: settings.baseURL, settings });
+  }
+}
+
+// The provider is rebuilt whenever the settings change
+let cached: { key: string; provider: LLMProvider } | null = null;
+
+export function getLLMProvider(settings: LLMSettings): LLMProvider {
+  const key = JSON.stringify(settings);
+  if (cached?.key !== key) {
+    cached = { key, provider: createProvider(settings) };
+    console.log(`🤖 Chat provider: ${cached.provider.name}`);
+  }
+  return cached.provider;
+}
+
+// =============================================================================
+// AI SERVICE
+// =============================================================================
+
+/**
+ * Sends a message to the configured provider and runs the tool loop:
+ * function calls are executed through `options.executeTool` as they
+ * arrive, and their outcomes are sent back until the model answers.
+ * `buildRequest` supplies the request for each round. Text streams
+ * through `onText` (all at once for providers without streaming).
+ * Unreachable providers fall back to demo mode; auth, rate-limit and
+ * request errors are rethrown as LLMError.
+ */
+export async function sendChatMessage(
+  buildRequest: (toolRounds: ToolRound[]) => LLMRequest,
+  settings: LLMSettings,
+  options: ToolLoopOptions
+): Promise<LLMResponse> {
+  const provider = getLLMProvider(settings);
+  return runToolLoop((request, sendOptions) => {
+    console.log(`📝 User message: "${request.message}" (round ${(request.toolRounds?.length ?? 0) + 1})`);
+    console.log(`💬 Conversation history: ${request.history.length} messages`);
+    return sendWithFallback(provider, request, sendOptions);
+  }, buildRequest, options);
+}
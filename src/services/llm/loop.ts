@@ -0,0 +1,78 @@
+/**
+ * Tool Loop
+ *
+ * Runs one chat turn as a loop: every function call the model makes is
+ * executed right away, its outcome goes back to the model as a tool
+ * result, and the model is asked again until it answers without calls.
+ * The final answer therefore reflects what actually happened (blocked
+ * options, automatic adjustments, new price). The number of rounds is
+ * capped so a model that keeps calling tools cannot loop forever.
+ */
+
+import type { LLMFunctionCall, LLMRequest, LLMResponse, LLMSendOptions, ToolResult, ToolRound } from '../../types';
+import { defaultResponseText } from './prompt';
+
+export const MAX_TOOL_ROUNDS = 4;
+
+export interface ToolLoopOptions {
+  signal?: AbortSignal;
+  onText?: (delta: string) => void;
+  /** Executes a call and returns its outcome as JSON (see outcome.ts) */
+  executeTool: (call: LLMFunctionCall) => string;
+  maxRounds?: number;
+}
+
+type Send = (request: LLMRequest, options: LLMSendOptions) => Promise<LLMResponse>;
+
+/**
+ * `buildRequest` is called for every round so the request carries the
+ * configuration as it is after the previous round's calls.
+ */
+export async function runToolLoop(
+  send: Send,
+  buildRequest: (toolRounds: ToolRound[]) => LLMRequest,
+  { signal, onText, executeTool, maxRounds = MAX_TOOL_ROUNDS }: ToolLoopOptions
+): Promise<LLMResponse> {
+  const rounds: ToolRound[] = [];
+  const texts: string[] = [];
+  const functionCalls: LLMFunctionCall[] = [];
+
+  for (let round = 1; ; round++) {
+    const calls: ToolRound['calls'] = [];
+    const results: ToolResult[] = [];
+    // Text of a later round starts a new paragraph
+    let separated = texts.length === 0;
+
+    const response = await send(buildRequest(rounds), {
+      signal,
+      onText: onText && ((delta) => {
+        if (!delta) return;
+        if (!separated) {
+          onText('\n\n');
+          separated = true;
+        }
+        onText(delta);
+      }),
+      onFunctionCall: (call) => {
+        const identified = { ...call, id: call.id ?? `call_${round}_${calls.length}` };
+        calls.push(identified);
+        results.push({ callId: identified.id, name: call.name, content: executeTool(identified) });
+      },
+    });
+
+    if (response.message) texts.push(response.message);
+    functionCalls.push(...calls);
+    if (calls.length === 0) break;
+
+    if (round >= maxRounds) {
+      console.warn(`⚠️ Tool loop stopped after ${maxRounds} rounds`);
+      break;
+    }
+    rounds.push({ message: response.message, calls, results });
+  }
+
+  return {
+    message: texts.join('\n\n') || defaultResponseText(functionCalls),
+    functionCalls,
+  };
+}
@@ -0,0 +1,216 @@
+/**
+ * OpenAI Provider
+ *
+ * Chat Completions with function calling. Also serves local
+ * OpenAI-compatible servers (Ollama, LM Studio, llama.cpp, vLLM) via a
+ * custom base URL.
+ *
+ * GPT-5 specific parameters:
+ * - reasoning_effort: "none" | "minimal" | "low" | "medium" | "high" (top-level param)
+ * - max_completion_tokens (replaces max_tokens)
+ * - temperature/top_p NOT supported in GPT-5 models
+ */
+
+import OpenAI from 'openai';
+import type { LLMFunctionCall, LLMProvider, LLMProviderId, LLMResponse, LLMSendOptions, LLMSettings, ToolRound } from '../../types';
+import { CONFIGURATION_TOOLS } from './tools';
+import { buildSystemPrompt, buildUserMessage } from './prompt';
+import { LLMError, errorKindFromStatus } from './errors';
+import { detectCapabilities, markRejectedParameter } from './capabilities';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface OpenAIProviderOptions {
+  id: Extract<LLMProviderId, 'openai' | 'local'>;
+  apiKey: string;
+  /** Empty base URL = api.openai.com */
+  settings: Pick<LLMSettings, 'baseURL' | 'model' | 'reasoningEffort' | 'maxTokens'>;
+}
+
+const TOOLS: OpenAI.Chat.ChatCompletionTool[] = CONFIGURATION_TOOLS.map(tool => ({
+  type: 'function',
+  function: { ...tool, parameters: { ...tool.parameters } },
+}));
+
+// =============================================================================
+// PROVIDER
+// =============================================================================
+
+export function createOpenAIProvider({ id, apiKey, settings }: OpenAIProviderOptions): LLMProvider {
+  const client = new OpenAI({
+    apiKey,
+    baseURL: settings.baseURL || undefined,
+    // Only the local provider runs in the browser; it has no key to leak
+    dangerouslyAllowBrowser: true,
+  });
+
+  return {
+    id,
+    name: `${id === 'local' ? 'Lokal' : 'OpenAI'} (${settings.model})`,
+    supportsStreaming: true,
+
+    async send(request, { onText, onFunctionCall, signal } = {}) {
+      const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+        { role: 'system', content: buildSystemPrompt(request) },
+        ...request.history.map(turn => ({ role: turn.role, content: turn.content })),
+        { role: 'user', content: buildUserMessage(request) },
+        ...(request.toolRounds ?? []).flatMap(toolRoundMessages),
+      ];
+
+      // Retry once per parameter the endpoint rejects, without it
+      for (;;) {
+        const params = buildParams(settings, messages);
+        try {
+          return onText || onFunctionCall
+            ? await streamCompletion(client, params, { onText, onFunctionCall, signal })
+            : await completion(client, params, signal);
+        } catch (error) {
+          const retry = error instanceof OpenAI.BadRequestError &&
+            markRejectedParameter(settings.baseURL, settings.model, Object.keys(params), error.message);
+          if (!retry) throw toLLMError(error, id);
+        }
+      }
+    },
+  };
+}
+
+/**
+ * An earlier round of the tool loop: the assistant's calls, then one
+ * `tool` message per result
+ */
+function toolRoundMessages(round: ToolRound): OpenAI.Chat.ChatCompletionMessageParam[] {
+  return [
+    {
+      role: 'assistant',
+      content: round.message || null,
+      tool_calls: round.calls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.args) },
+      })),
+    },
+    ...round.results.map((result): OpenAI.Chat.ChatCompletionToolMessageParam => ({
+      role: 'tool',
+      tool_call_id: result.callId,
+      content: result.content,
+    })),
+  ];
+}
+
+// =============================================================================
+// REQUESTS
+// =============================================================================
+
+type CompletionParams = Omit<OpenAI.Chat.ChatCompletionCreateParamsNonStreaming, 'stream'>;
+
+/**
+ * Request parameters the model accepts: GPT-5 models take reasoning_effort
+ * and max_completion_tokens (no temperature/top_p), older and local models
+ * max_tokens
+ */
+function buildParams(
+  settings: OpenAIProviderOptions['settings'],
+  messages: OpenAI.Chat.ChatCompletionMessageParam[]
+): CompletionParams {
+  const capabilities = detectCapabilities(settings.baseURL, settings.model);
+  return {
+    model: settings.model,
+    messages,
+    tools: TOOLS,
+    tool_choice: 'auto',
+    [capabilities.tokenLimitParam]: settings.maxTokens,
+    // reasoning_effort is top-level, not nested
+    ...(capabilities.reasoningEffort && { reasoning_effort: settings.reasoningEffort }),
+  };
+}
+
+async function completion(
+  client: OpenAI,
+  params: CompletionParams,
+  signal?: AbortSignal
+): Promise<LLMResponse> {
+  const response = await client.chat.completions.create(params, { signal });
+  const message = response.choices[0]?.message;
+
+  return {
+    message: message?.content ?? '',
+    functionCalls: parseToolCalls(
+      (message?.tool_calls ?? []).flatMap(call => (call.type === 'function' ? [{ id: call.id, ...call.function }] : []))
+    ),
+  };
+}
+
+/**
+ * Streams text to onText. Tool call arguments arrive in fragments, one call
+ * index after the other, so a call is complete once the next one starts or
+ * the stream ends.
+ */
+async function streamCompletion(
+  client: OpenAI,
+  params: CompletionParams,
+  { onText, onFunctionCall, signal }: LLMSendOptions
+): Promise<LLMResponse> {
+  const stream = await client.chat.completions.create({ ...params, stream: true }, { signal });
+  const functionCalls: LLMFunctionCall[] = [];
+  // Assigned through finishCall too, so declared without narrowing to null
+  let pending = null as { index: number; id?: string; name: string; arguments: string } | null;
+  let message = '';
+
+  const finishCall = () => {
+    if (!pending) return;
+    const [call] = parseToolCalls([pending]);
+    pending = null;
+    if (call) {
+      functionCalls.push(call);
+      onFunctionCall?.(call);
+    }
+  };
+
+  for await (const chunk of stream) {
+    const delta = chunk.choices[0]?.delta;
+    if (!delta) continue;
+
+    if (delta.content) {
+      message += delta.content;
+      onText?.(delta.content);
+    }
+    for (const call of delta.tool_calls ?? []) {
+      if (pending?.index !== call.index) {
+        finishCall();
+        pending = { index: call.index, name: '', arguments: '' };
+      }
+      pending.id ??= call.id;
+      pending.name += call.function?.name ?? '';
+      pending.arguments += call.function?.arguments ?? '';
+    }
+  }
+  finishCall();
+
+  return { message, functionCalls };
+}
+
+function parseToolCalls(calls: Array<{ id?: string; name: string; arguments: string }>): LLMFunctionCall[] {
+  const functionCalls: LLMFunctionCall[] = [];
+  for (const call of calls) {
+    try {
+      functionCalls.push({ id: call.id, name: call.name, args: call.arguments ? JSON.parse(call.arguments) : {} });
+    } catch (e) {
+      console.error('❌ Error parsing function arguments:', e);
+    }
+  }
+  return functionCalls;
+}
+
+function toLLMError(error: unknown, provider: LLMProviderId): LLMError {
+  if (error instanceof OpenAI.APIUserAbortError) {
+    return new LLMError('aborted', provider);
+  }
+  if (error instanceof OpenAI.APIError) {
+    console.error('❌ OpenAI API error:', error.status, error.message);
+    return new LLMError(errorKindFromStatus(error.status), provider);
+  }
+  console.error('❌ OpenAI API error:', error);
+  return new LLMError('network', provider);
+}
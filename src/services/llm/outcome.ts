@@ -0,0 +1,47 @@
+/**
+ * Tool Outcomes
+ *
+ * What the model gets back for each of its function calls: the changes
+ * that were actually applied (including automatic adjustments), the
+ * validation state and the price afterwards. This lets its final answer
+ * describe the real result instead of what it asked for.
+ */
+
+import type { CarConfig, DependencyChange } from '../../types';
+import { describeConfigChanges } from '../../config/history';
+import { describeDependencyChange } from '../../config/dependencies';
+import { validateConfiguration } from '../../config/constraints';
+import { calculatePrice, formatPrice } from '../../config/pricing';
+
+export interface ToolOutcomeInput {
+  /** Configuration before and after the call */
+  before: CarConfig;
+  after: CarConfig;
+  /** Dependent options the store adjusted */
+  adjustments?: DependencyChange[];
+  /** Texts shown to the customer (price breakdown, comparison, ...) */
+  notes?: string[];
+  /** Set when the call could not be carried out */
+  error?: string;
+}
+
+/**
+ * JSON result for a `tool` message
+ */
+export function describeToolOutcome({ before, after, adjustments = [], notes = [], error }: ToolOutcomeInput): string {
+  const validation = validateConfiguration(after);
+
+  return JSON.stringify({
+    status: error ? 'error' : 'ok',
+    ...(error && { error }),
+    changes: describeConfigChanges(before, after),
+    automaticAdjustments: adjustments.map(describeDependencyChange),
+    notes,
+    validation: {
+      valid: validation.isValid,
+      blockers: validation.blockers.map(rule => rule.message),
+      warnings: validation.warnings.map(rule => rule.message),
+    },
+    totalPrice: formatPrice(calculatePrice(after).total),
+  });
+}
@@ -0,0 +1,188 @@
+/**
+ * Prompt
+ *
+ * System prompt for the selected model and per-message configuration
+ * context shared by all providers, plus the fallback reply used when a model answers with
+ * function calls only.
+ */
+
+import type { LLMFunctionCall, LLMRequest } from '../../types';
+import { validateConfiguration, getFixActions, getOptionAvailability } from '../../config/constraints';
+import { getDimension } from '../../config/options';
+import { calculatePrice, formatPrice } from '../../config/pricing';
+import { getPackage, getSelectedPackages } from '../../config/packages';
+import { MODELS, getModel } from '../../config/models';
+import { AVAILABLE_COLORS, AVAILABLE_WHEELS } from '../../types';
+
+// =============================================================================
+// SYSTEM PROMPT (German)
+// =============================================================================
+
+/**
+ * Instructions for the model, with the facts, rules and selectable options
+ * of the model being configured
+ */
+export function buildSystemPrompt({ config }: LLMRequest): string {
+  const model = getModel(config.model);
+  const other = MODELS.filter(m => m.id !== model.id).map(m => m.name).join(', ');
+  // Selectable on the model's default configuration
+  const availability = getOptionAvailability(model.defaults);
+  const selectable = (field: 'color' | 'interior.color' | 'wheels') =>
+    availability[field].filter(o => o.status !== 'block').map(o => o.name).join(', ');
+  const addons = model.packages
+    .map(getPackage)
+    .filter(p => p?.kind === 'addon')
+    .map(p => p!.name)
+    .join(', ');
+
+  return `Du bist der BMW ${model.shortName} KI-Konfigurator Assistent. Du hilfst Kunden dabei, ihren BMW ${model.shortName} zu konfigurieren.
+
+WICHTIG - GESPRÄCHSKONTEXT:
+- Du MUSST den Kontext der vorherigen Nachrichten berücksichtigen!
+- Wenn der Kunde zuletzt über INTERIEUR/INNENRAUM sprach und dann "weiß" oder eine andere Farbe sagt, bezieht sich das auf das INTERIEUR, NICHT auf die Außenfarbe!
+- Wenn der Kunde "nein" sagt und eine Alternative nennt, bezieht sich das auf das GLEICHE Thema wie zuvor
+- Analysiere IMMER die vorherigen Nachrichten, um den Kontext zu verstehen
+- Beispiel: "Ändere Interieur auf braun" -> "Nein, weiß" = INTERIEUR weiß, nicht Außenfarbe!
+
+WICHTIG - VALIDIERUNGSLOGIK:
+- Der BMW ${model.shortName}: ${model.description}
+- Regeln für den ${model.shortName}:
+${model.ruleSet.rules.map(rule => `  - ${rule.description}`).join('\n')}
+- Zum automatischen Korrigieren einer ungültigen Konfiguration IMMER repair_configuration nutzen (verhindert Folgekonflikte)
+- Abhängige Optionen (z.B. Paket für Keramikbremsen) passt das System automatisch an und nennt die Änderungen dem Kunden
+- Mit change_model kann der Kunde zum ${other} wechseln (z.B. zum Vergleich); nicht verfügbare Optionen werden dabei ersetzt
+- Wenn der Kunde eine Änderung zurücknehmen möchte ("mach das rückgängig"), nutze undo_change; zum Wiederherstellen redo_change
+- Fragt der Kunde nach dem Unterschied zwischen Konfigurationen, nutze compare_configurations mit den Namen der gespeicherten Konfigurationen (oder "current" für die aktuelle)
+- Zusatzpakete (${addons || 'keine'}) fügst du mit add_package hinzu und entfernst sie mit remove_package; Licht, Sound und Fahrassistent änderst du mit change_lights, change_sound und change_driving_assistant
+- Fragt der Kunde, warum etwas nicht geht, nutze explain_constraint (mit der Regel-ID aus dem Kontext); für wählbare Alternativen suggest_alternatives
+
+DEINE AUFGABE:
+1. Verstehe die Konfigurationswünsche des Kunden IM KONTEXT der vorherigen Nachrichten
+2. Nutze die verfügbaren Funktionen, um Änderungen durchzuführen
+3. VALIDIERE IMMER die Konfiguration nach Änderungen
+4. Wenn eine Konfiguration NICHT für den ${model.shortName} möglich ist, erkläre:
+   - WARUM es nicht möglich ist
+   - Die ${model.highlights.length} HAUPTVORTEILE des ${model.shortName}, die diese Einschränkung rechtfertigen
+   - Passende Alternativen, die verfügbar sind
+
+${model.shortName} VORTEILE (zu erwähnen bei ungültigen Konfigurationen):
+${model.highlights.map((highlight, i) => `${i + 1}. ${highlight}`).join('\n')}
+
+KOMMUNIKATIONSSTIL:
+- Professionell aber freundlich
+- IMMER auf Deutsch antworten
+- Bei ungültigen Konfigurationen: Erkläre WARUM + nenne die ${model.highlights.length} ${model.shortName} VORTEILE
+- Schlage passende Alternativen vor
+
+VERFÜGBARE AUSSENFARBEN: ${selectable('color')}
+VERFÜGBARE INTERIEURFARBEN: ${selectable('interior.color')}
+VERFÜGBARE FELGEN: ${selectable('wheels')}`;
+}
+
+// =============================================================================
+// CONFIGURATION CONTEXT
+// =============================================================================
+
+/**
+ * Current configuration, price, validation state and restricted options,
+ * prepended to the customer's message
+ */
+export function buildConfigContext({ config, savedConfigurationNames }: LLMRequest): string {
+  const model = getModel(config.model);
+  const validation = validateConfiguration(config);
+  const fixes = getFixActions(validation, config);
+  const restricted = Object.values(getOptionAvailability(config))
+    .flat()
+    .filter(option => option.status !== 'valid');
+  const restrictionsSection = restricted.length > 0
+    ? `\nEINGESCHRÄNKTE OPTIONEN (bei aktueller Konfiguration):\n${restricted.map(o =>
+        `- ${getDimension(o.field).label}: ${o.name} - ${o.status === 'block' ? 'NICHT WÄHLBAR' : 'Hinweis'} (${o.ruleIds.join(', ')})`
+      ).join('\n')}\n`
+    : '';
+  const fixesSection = fixes.length > 0
+    ? `\nVERLETZTE REGELN (mit apply_fix korrigierbar):\n${fixes.map(f =>
+        `- ${f.ruleId}: ${f.label} (${f.priceDelta >= 0 ? '+' : ''}€${f.priceDelta})`
+      ).join('\n')}\n`
+    : '';
+
+  return `
+AKTUELLE KONFIGURATION:
+- Modell: ${model.name}
+- Farbe: ${config.color.name}
+- Felgen: ${config.wheels.name}
+- Performance-Paket: ${config.performancePackage}
+- Zusatzpakete: ${getSelectedPackages(config).filter(p => p.kind === 'addon').map(p => p.name).join(', ') || 'keine'}
+- Bremsen: ${config.brakes}
+- Interieur: ${config.interior.leather} Leder, ${config.interior.trim} Zierleisten
+- Licht: ${config.lights}, Sound: ${config.sound}, Fahrassistent: ${config.drivingAssistant}
+
+GESAMTPREIS: ${formatPrice(calculatePrice(config).total)} (inkl. MwSt.)
+
+GESPEICHERTE KONFIGURATIONEN: ${savedConfigurationNames.join(', ') || 'keine'}
+
+VALIDIERUNGSSTATUS: ${validation.isValid ? 'GÜLTIG ✅' : 'UNGÜLTIG ⚠️'}
+${restrictionsSection}${fixesSection}
+Wenn der Kunde etwas anfragt, das nicht für den ${model.shortName} verfügbar ist, erkläre:
+1. WARUM es nicht möglich ist
+2. Die ${model.highlights.length} HAUPTVORTEILE des ${model.shortName}
+3. Passende Alternativen
+`;
+}
+
+/**
+ * The user turn as sent to the model
+ */
+export function buildUserMessage(request: LLMRequest): string {
+  return buildConfigContext(request) + '\n\nKunde: ' + request.message;
+}
+
+// =============================================================================
+// FALLBACK REPLY
+// =============================================================================
+
+/**
+ * Acknowledgment for responses that contain function calls but no text
+ */
+export function defaultResponseText(functionCalls: LLMFunctionCall[]): string {
+  if (functionCalls.length === 0) {
+    return 'Entschuldigung, ich konnte Ihre Anfrage nicht verarbeiten.';
+  }
+
+  const { name, args } = functionCalls[0];
+  switch (name) {
+    case 'change_color': {
+      const color = AVAILABLE_COLORS.find(c => c.id === args.colorId);
+      return color ? `Ich ändere die Farbe auf ${color.name}.` : 'Farbe wird geändert.';
+    }
+    case 'change_wheels': {
+      const wheel = AVAILABLE_WHEELS.find(w => w.id === args.wheelId);
+      return wheel ? `Ich ändere die Felgen auf ${wheel.name}.` : 'Felgen werden geändert.';
+    }
+    case 'move_camera':
+      return 'Die Ansicht wird geändert.';
+    case 'repair_configuration':
+      return 'Ich korrigiere die Konfiguration automatisch.';
+    case 'get_price':
+      return 'Hier ist die Preisaufstellung Ihrer Konfiguration:';
+    case 'undo_change':
+      return 'Ich mache die letzte Änderung rückgängig.';
+    case 'redo_change':
+      return 'Ich stelle die Änderung wieder her.';
+    case 'compare_configurations':
+      return 'Hier ist der Vergleich:';
+    case 'add_package': {
+      const pkg = getPackage(String(args.packageId));
+      return pkg ? `Ich füge das ${pkg.name} hinzu.` : 'Paket wird hinzugefügt.';
+    }
+    case 'remove_package': {
+      const pkg = getPackage(String(args.packageId));
+      return pkg ? `Ich entferne das ${pkg.name}.` : 'Paket wird entfernt.';
+    }
+    case 'explain_constraint':
+      return 'Zur Erklärung:';
+    case 'suggest_alternatives':
+      return 'Diese Alternativen stehen zur Wahl:';
+    default:
+      return 'Konfiguration wird aktualisiert.';
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Proxy Provider
+ *
+ * Sends chat requests to the app's own server route (server/http.ts),
+ * which holds the API keys and talks to the configured provider. The
+ * browser never sees a key. Streamed answers arrive as one JSON event per
+ * line (NDJSON).
+ */
+
+import type { ChatProxyError, ChatProxyRequest, ChatStreamEvent, LLMErrorKind, LLMProvider, LLMResponse, LLMSettings } from '../../types';
+import { serializeConfig } from '../../config/serialization';
+import { LLMError, errorKindFromStatus } from './errors';
+
+export interface ProxyProviderOptions {
+  url: string;
+  settings: Pick<LLMSettings, 'reasoningEffort' | 'maxTokens'>;
+}
+
+const ERROR_KINDS: LLMErrorKind[] = ['auth', 'rate-limit', 'server', 'bad-request', 'network', 'aborted'];
+
+export function createProxyProvider({ url, settings }: ProxyProviderOptions): LLMProvider {
+  return {
+    id: 'server',
+    name: 'Server',
+    supportsStreaming: true,
+
+    async send(request, { onText, onFunctionCall, signal } = {}) {
+      const stream = Boolean(onText || onFunctionCall);
+      const body: ChatProxyRequest = {
+        message: request.message,
+        config: serializeConfig(request.config),
+        history: request.history,
+        savedConfigurationNames: request.savedConfigurationNames,
+        toolRounds: request.toolRounds,
+        settings: { reasoningEffort: settings.reasoningEffort, maxTokens: settings.maxTokens },
+        stream,
+      };
+
+      try {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'same-origin', // Session cookie for the rate limit
+          body: JSON.stringify(body),
+          signal,
+        });
+
+        if (!response.ok) {
+          const error = await response.json().catch(() => null) as ChatProxyError | null;
+          throw new LLMError(error && ERROR_KINDS.includes(error.error) ? error.error : errorKindFromStatus(response.status), 'server');
+        }
+        if (!stream || !response.body) {
+          return await response.json() as LLMResponse;
+        }
+
+        for await (const event of readEvents(response.body)) {
+          if (event.type === 'text') onText?.(event.delta);
+          if (event.type === 'function_call') onFunctionCall?.(event.call);
+          if (event.type === 'done') return event.response;
+          if (event.type === 'error') throw new LLMError(ERROR_KINDS.includes(event.error) ? event.error : 'server', 'server');
+        }
+        throw new LLMError('network', 'server', 'Chat stream ended unexpectedly');
+      } catch (error) {
+        if (error instanceof LLMError) throw error;
+        if (signal?.aborted) throw new LLMError('aborted', 'server');
+        console.error('❌ Chat proxy not reachable:', error);
+        throw new LLMError('network', 'server');
+      }
+    },
+  };
+}
+
+/**
+ * Parses the NDJSON response body into events
+ */
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) yield JSON.parse(line) as ChatStreamEvent;
+    }
+  }
+  if (buffer.trim()) yield JSON.parse(buffer) as ChatStreamEvent;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import type { ToolParameterSchema } from '../../types';
+import { validateArguments } from './schema';
+import { TOOL_DEFINITIONS } from './tools';
+
+const BRAKES = TOOL_DEFINITIONS.change_brakes.parameters;
+const INTERIOR = TOOL_DEFINITIONS.change_interior.parameters;
+
+describe('validateArguments', () => {
+  it('accepts arguments that match the tool schema', () => {
+    expect(validateArguments(BRAKES, { brakes: 'ceramic' })).toEqual({ valid: true, args: { brakes: 'ceramic' } });
+  });
+
+  it('rejects values outside the enum', () => {
+    const check = validateArguments(BRAKES, { brakes: 'carbon' });
+
+    expect(check.valid).toBe(false);
+    expect(!check.valid && check.errors).toEqual([
+      'args.brakes: „carbon“ ist kein erlaubter Wert (standard, performance, ceramic)',
+    ]);
+  });
+
+  it('reports missing required properties and wrong types', () => {
+    expect(validateArguments(BRAKES, {})).toEqual({ valid: false, errors: ['args.brakes: fehlt'] });
+    expect(validateArguments(BRAKES, { brakes: 3 })).toEqual({ valid: false, errors: ['args.brakes: Text erwartet'] });
+    expect(validateArguments(BRAKES, 'ceramic')).toEqual({ valid: false, errors: ['args: Objekt erwartet'] });
+  });
+
+  it('treats null as missing and drops undeclared properties', () => {
+    expect(validateArguments(INTERIOR, { leather: 'merino', color: null, seats: 'heated' })).toEqual({
+      valid: true,
+      args: { leather: 'merino' },
+    });
+    expect(validateArguments(INTERIOR, undefined)).toEqual({ valid: true, args: {} });
+  });
+
+  it('checks array items, numbers and booleans', () => {
+    const schema: ToolParameterSchema = {
+      type: 'object',
+      properties: {
+        ids: { type: 'array', items: { type: 'string' } },
+        limit: { type: 'number' },
+        apply: { type: 'boolean' },
+      },
+    };
+
+    expect(validateArguments(schema, { ids: ['a', 1], limit: Infinity, apply: 'yes' })).toEqual({
+      valid: false,
+      errors: ['args.ids[1]: Text erwartet', 'args.limit: Zahl erwartet', 'args.apply: true oder false erwartet'],
+    });
+    expect(validateArguments(schema, { ids: 'a' })).toEqual({ valid: false, errors: ['args.ids: Liste erwartet'] });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Argument Validation
+ *
+ * Checks tool call arguments against the JSON Schema subset of the tool
+ * definitions - the same schema the model was given - before anything is
+ * executed. Optional properties sent as null count as missing, and
+ * properties the schema does not declare are dropped.
+ */
+
+import type { ToolParameterSchema } from '../../types';
+
+export type ArgumentCheck<T> =
+  | { valid: true; args: T }
+  | { valid: false; errors: string[] };
+
+/**
+ * Validates `args` against an object schema. The returned arguments only
+ * contain declared properties.
+ */
+export function validateArguments<T>(schema: ToolParameterSchema, args: unknown): ArgumentCheck<T> {
+  const errors: string[] = [];
+  const value = check(schema, args ?? {}, 'args', errors);
+  return errors.length === 0 ? { valid: true, args: value as T } : { valid: false, errors };
+}
+
+function check(schema: ToolParameterSchema, value: unknown, path: string, errors: string[]): unknown {
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push(`${path}: Objekt erwartet`);
+        return value;
+      }
+      const input = value as Record<string, unknown>;
+      const output: Record<string, unknown> = {};
+      for (const [key, property] of Object.entries(schema.properties ?? {})) {
+        if (input[key] === undefined || input[key] === null) {
+          if (schema.required?.includes(key)) errors.push(`${path}.${key}: fehlt`);
+          continue;
+        }
+        output[key] = check(property, input[key], `${path}.${key}`, errors);
+      }
+      return output;
+    }
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        errors.push(`${path}: Liste erwartet`);
+        return value;
+      }
+      return schema.items
+        ? value.map((item, index) => check(schema.items!, item, `${path}[${index}]`, errors))
+        : value;
+
+    case 'string':
+      if (typeof value !== 'string') {
+        errors.push(`${path}: Text erwartet`);
+      } else if (schema.enum && !schema.enum.includes(value)) {
+        errors.push(`${path}: „${value}“ ist kein erlaubter Wert (${schema.enum.join(', ')})`);
+      }
+      return value;
+
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) errors.push(`${path}: Zahl erwartet`);
+      return value;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') errors.push(`${path}: true oder false erwartet`);
+      return value;
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Sending
+ *
+ * Shared by the browser and the chat proxy: sends a request through a
+ * provider and makes the streaming callbacks behave the same for every
+ * provider.
+ */
+
+import type { LLMProvider, LLMRequest, LLMResponse, LLMSendOptions } from '../../types';
+import { demoProvider } from './demo';
+import { LLMError, isRecoverable } from './errors';
+
+/**
+ * Providers without streaming report their whole answer at once
+ */
+async function sendStreaming(provider: LLMProvider, request: LLMRequest, options: LLMSendOptions): Promise<LLMResponse> {
+  const response = await provider.send(request, options);
+  if (!provider.supportsStreaming) {
+    options.onText?.(response.message);
+    response.functionCalls.forEach(call => options.onFunctionCall?.(call));
+  }
+  return response;
+}
+
+/**
+ * Sends through `provider`. Unreachable providers fall back to demo mode
+ * (unless something was already streamed); other errors are rethrown as
+ * LLMError.
+ */
+export async function sendWithFallback(
+  provider: LLMProvider,
+  request: LLMRequest,
+  options: LLMSendOptions = {}
+): Promise<LLMResponse> {
+  let streamed = false;
+  const tracked: LLMSendOptions = {
+    ...options,
+    onText: options.onText && ((delta) => { streamed = true; options.onText!(delta); }),
+    onFunctionCall: options.onFunctionCall && ((call) => { streamed = true; options.onFunctionCall!(call); }),
+  };
+
+  try {
+    return await sendStreaming(provider, request, tracked);
+  } catch (error) {
+    if (error instanceof LLMError && isRecoverable(error) && !streamed) {
+      console.warn('⚠️ Falling back to demo mode due to API error');
+      return sendStreaming(demoProvider, request, options);
+    }
+    throw error;
+  }
+}
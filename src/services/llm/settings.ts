@@ -0,0 +1,85 @@
+/**
+ * LLM Settings
+ *
+ * Provider, endpoint and request parameters of the browser. By default the
+ * chat goes through the app's server proxy, which holds the API keys (see
+ * server/chat.ts for its settings); a local OpenAI-compatible server can be
+ * called directly. Defaults come from the environment; the settings panel
+ * stores overrides on top of them.
+ *
+ * VITE_LLM_PROVIDER       server | local | demo (default: server)
+ * VITE_LLM_BASE_URL       Proxy route or local endpoint
+ * VITE_LLM_MODEL          Model name (local)
+ * VITE_LLM_REASONING_EFFORT, VITE_LLM_MAX_TOKENS
+ */
+
+import type { LLMProviderId, LLMSettings } from '../../types';
+import { REASONING_EFFORTS } from './capabilities';
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const env = import.meta.env;
+
+export const LLM_PROVIDERS: Array<{ id: LLMProviderId; name: string }> = [
+  { id: 'server', name: 'Server (Proxy)' },
+  { id: 'local', name: 'Lokal (OpenAI-kompatibel)' },
+  { id: 'demo', name: 'Demo-Modus' },
+];
+
+/** Endpoint and model used when neither environment nor settings name one */
+const PROVIDER_DEFAULTS: Partial<Record<LLMProviderId, { baseURL: string; model: string }>> = {
+  server: { baseURL: '/api/chat', model: '' },
+  local: { baseURL: 'http://localhost:11434/v1', model: 'llama3.1' },
+};
+
+export function isProviderId(value: unknown): value is LLMProviderId {
+  return LLM_PROVIDERS.some(p => p.id === value);
+}
+
+function defaultProvider(): LLMProviderId {
+  const requested = env.VITE_LLM_PROVIDER;
+  if (isProviderId(requested)) return requested;
+  if (requested) console.warn(`⚠️ Unknown VITE_LLM_PROVIDER "${requested}" - using the server proxy`);
+  return 'server';
+}
+
+// =============================================================================
+// RESOLUTION
+// =============================================================================
+
+/**
+ * Settings for `provider` (default: the environment's provider). Base URL and
+ * model from the environment only apply to the environment's provider.
+ */
+export function getDefaultLLMSettings(provider: LLMProviderId = defaultProvider()): LLMSettings {
+  const fromEnv = provider === defaultProvider();
+  const effort = env.VITE_LLM_REASONING_EFFORT;
+
+  return {
+    provider,
+    baseURL: (fromEnv && env.VITE_LLM_BASE_URL) || (PROVIDER_DEFAULTS[provider]?.baseURL ?? ''),
+    model: (fromEnv && env.VITE_LLM_MODEL) || (PROVIDER_DEFAULTS[provider]?.model ?? ''),
+    reasoningEffort: REASONING_EFFORTS.includes(effort) ? effort : 'low', // Low effort for fast car config responses
+    maxTokens: Number(env.VITE_LLM_MAX_TOKENS) || 800,
+  };
+}
+
+/**
+ * Environment defaults with the stored overrides applied; switching the
+ * provider also switches the default endpoint and model
+ */
+export function resolveLLMSettings(overrides: Partial<LLMSettings> = {}): LLMSettings {
+  const provider = isProviderId(overrides.provider) ? overrides.provider : undefined;
+  const defaults = getDefaultLLMSettings(provider);
+  return {
+    ...defaults,
+    baseURL: overrides.baseURL?.trim() || defaults.baseURL,
+    model: overrides.model?.trim() || defaults.model,
+    reasoningEffort: overrides.reasoningEffort && REASONING_EFFORTS.includes(overrides.reasoningEffort)
+      ? overrides.reasoningEffort
+      : defaults.reasoningEffort,
+    maxTokens: overrides.maxTokens && overrides.maxTokens > 0 ? Math.round(overrides.maxTokens) : defaults.maxTokens,
+  };
+}
@@ -0,0 +1,337 @@
+/**
+ * Tool Schema
+ *
+ * Provider-neutral definitions of the configurator functions (JSON Schema
+ * parameters), keyed by AIFunctionName so every declared function has a
+ * definition. Every provider maps these onto its own tool format, and all
+ * calls are executed by the shared executor.
+ */
+
+import type { AIFunctionName, OptionField, ToolDefinition } from '../../types';
+import { AVAILABLE_COLORS, AVAILABLE_WHEELS, AVAILABLE_GRILL_COLORS, AVAILABLE_HOOD_PATTERNS, AVAILABLE_PACKAGES, INTERIOR_COLORS } from '../../types';
+import { MODELS } from '../../config/models';
+import { OPTION_DIMENSIONS, getDimension } from '../../config/options';
+
+const enumKeys = (field: OptionField) => {
+  const dimension = getDimension(field);
+  return dimension.options.map(option => dimension.key(option));
+};
+
+// =============================================================================
+// FUNCTION DEFINITIONS
+// =============================================================================
+
+export const TOOL_DEFINITIONS: Record<AIFunctionName, Omit<ToolDefinition, 'name'>> = {
+  change_color: {
+    description: 'Ändert die Farbe des Fahrzeugs',
+    parameters: {
+      type: 'object',
+      properties: {
+        colorId: {
+          type: 'string',
+          description: 'Die ID der gewünschten Farbe',
+          enum: AVAILABLE_COLORS.map(c => c.id),
+        },
+      },
+      required: ['colorId'],
+    },
+  },
+  change_wheels: {
+    description: 'Ändert die Felgen des Fahrzeugs',
+    parameters: {
+      type: 'object',
+      properties: {
+        wheelId: {
+          type: 'string',
+          description: 'Die ID der gewünschten Felgen',
+          enum: AVAILABLE_WHEELS.map(w => w.id),
+        },
+      },
+      required: ['wheelId'],
+    },
+  },
+  change_interior: {
+    description: 'Ändert die Innenausstattung des Fahrzeugs (Leder, Farbe der Sitze, Zierleisten). WICHTIG: Nutze diese Funktion wenn der Kunde über Interieur, Innenraum, Sitze, oder Leder spricht!',
+    parameters: {
+      type: 'object',
+      properties: {
+        leather: {
+          type: 'string',
+          enum: enumKeys('interior.leather'),
+          description: 'Lederart',
+        },
+        color: {
+          type: 'string',
+          enum: INTERIOR_COLORS.map(c => c.id),
+          description: `Farbe des Interieurs/Sitze: ${INTERIOR_COLORS.map(c => `${c.id} (${c.name})`).join(', ')}`,
+        },
+        trim: {
+          type: 'string',
+          enum: enumKeys('interior.trim'),
+          description: 'Zierleisten-Material',
+        },
+      },
+    },
+  },
+  change_brakes: {
+    description: 'Ändert das Bremssystem',
+    parameters: {
+      type: 'object',
+      properties: {
+        brakes: {
+          type: 'string',
+          enum: enumKeys('brakes'),
+          description: 'Bremssystem-Typ',
+        },
+      },
+      required: ['brakes'],
+    },
+  },
+  set_performance_package: {
+    description: 'Setzt das Performance-Paket',
+    parameters: {
+      type: 'object',
+      properties: {
+        package: {
+          type: 'string',
+          enum: enumKeys('performancePackage'),
+          description: 'Performance-Paket',
+        },
+      },
+      required: ['package'],
+    },
+  },
+  move_camera: {
+    description: 'Bewegt die Kamera zu einer bestimmten Ansicht',
+    parameters: {
+      type: 'object',
+      properties: {
+        position: {
+          type: 'string',
+          enum: ['front', 'side', 'rear', 'interior', 'wheels'],
+          description: 'Kamera-Position',
+        },
+      },
+      required: ['position'],
+    },
+  },
+  validate_configuration: {
+    description: 'Validiert die aktuelle Konfiguration',
+    parameters: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  change_model: {
+    description: 'Wechselt das Fahrzeugmodell. Optionen, die das neue Modell nicht anbietet, werden automatisch ersetzt.',
+    parameters: {
+      type: 'object',
+      properties: {
+        model: {
+          type: 'string',
+          enum: MODELS.map(m => m.id),
+          description: `Modell: ${MODELS.map(m => `${m.id} (${m.name})`).join(', ')}`,
+        },
+      },
+      required: ['model'],
+    },
+  },
+  undo_change: {
+    description: 'Macht die letzte Konfigurationsänderung rückgängig (inkl. automatisch angepasster Optionen)',
+    parameters: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  redo_change: {
+    description: 'Stellt die zuletzt rückgängig gemachte Konfigurationsänderung wieder her',
+    parameters: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  compare_configurations: {
+    description: 'Vergleicht zwei Konfigurationen Option für Option (Preisunterschiede, Gültigkeit) und öffnet die Vergleichsansicht',
+    parameters: {
+      type: 'object',
+      properties: {
+        left: {
+          type: 'string',
+          description: 'Name einer gespeicherten Konfiguration oder "current" für die aktuelle (Standard: "current")',
+        },
+        right: {
+          type: 'string',
+          description: 'Name einer gespeicherten Konfiguration oder "current" für die aktuelle',
+        },
+      },
+      required: ['right'],
+    },
+  },
+  get_price: {
+    description: 'Zeigt dem Kunden die Preisaufstellung der aktuellen Konfiguration (Grundpreis, Pakete, Sonderausstattung, MwSt.)',
+    parameters: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  repair_configuration: {
+    description: 'Korrigiert eine ungültige Konfiguration automatisch in einem Schritt. Sucht die gültige Konfiguration mit den wenigsten Änderungen bzw. dem geringsten Aufpreis, damit keine neuen Konflikte entstehen.',
+    parameters: {
+      type: 'object',
+      properties: {
+        objective: {
+          type: 'string',
+          enum: ['fewest-changes', 'cheapest'],
+          description: 'Optimierungsziel: möglichst wenige Änderungen oder möglichst geringer Aufpreis',
+        },
+      },
+    },
+  },
+  apply_fix: {
+    description: 'Wendet die hinterlegte Korrektur einer verletzten Regel an (siehe VERLETZTE REGELN im Kontext)',
+    parameters: {
+      type: 'object',
+      properties: {
+        ruleId: {
+          type: 'string',
+          description: 'Die ID der verletzten Regel, z.B. M5_REQUIRES_M_WHEELS',
+        },
+      },
+      required: ['ruleId'],
+    },
+  },
+  change_grill_color: {
+    description: 'Ändert die Farbe des Frontgrills (Niere)',
+    parameters: {
+      type: 'object',
+      properties: {
+        grillColorId: {
+          type: 'string',
+          description: 'Die ID der gewünschten Grill-Farbe',
+          enum: AVAILABLE_GRILL_COLORS.map(g => g.id),
+        },
+      },
+      required: ['grillColorId'],
+    },
+  },
+  change_hood_pattern: {
+    description: 'Ändert das Muster/Design der Motorhaube',
+    parameters: {
+      type: 'object',
+      properties: {
+        hoodPatternId: {
+          type: 'string',
+          description: 'Die ID des gewünschten Hauben-Designs',
+          enum: AVAILABLE_HOOD_PATTERNS.map(h => h.id),
+        },
+      },
+      required: ['hoodPatternId'],
+    },
+  },
+  change_lights: {
+    description: 'Ändert die Scheinwerfer',
+    parameters: {
+      type: 'object',
+      properties: {
+        lights: {
+          type: 'string',
+          enum: enumKeys('lights'),
+          description: 'LED oder BMW Laserlicht',
+        },
+      },
+      required: ['lights'],
+    },
+  },
+  change_sound: {
+    description: 'Ändert das Soundsystem',
+    parameters: {
+      type: 'object',
+      properties: {
+        sound: {
+          type: 'string',
+          enum: enumKeys('sound'),
+          description: 'HiFi (standard), Harman Kardon oder Bowers & Wilkins Diamond',
+        },
+      },
+      required: ['sound'],
+    },
+  },
+  change_driving_assistant: {
+    description: 'Ändert den Fahrassistenten',
+    parameters: {
+      type: 'object',
+      properties: {
+        drivingAssistant: {
+          type: 'string',
+          enum: enumKeys('drivingAssistant'),
+          description: 'Ohne, Driving Assistant Plus oder Driving Assistant Professional',
+        },
+      },
+      required: ['drivingAssistant'],
+    },
+  },
+  add_package: {
+    description: 'Fügt ein Paket hinzu. Enthaltene Optionen werden automatisch gesetzt; Performance-Pakete ersetzen das bisherige Performance-Paket.',
+    parameters: {
+      type: 'object',
+      properties: {
+        packageId: {
+          type: 'string',
+          enum: AVAILABLE_PACKAGES.map(p => p.id),
+          description: `Paket: ${AVAILABLE_PACKAGES.map(p => `${p.id} (${p.name}: ${p.description})`).join(', ')}`,
+        },
+      },
+      required: ['packageId'],
+    },
+  },
+  remove_package: {
+    description: 'Entfernt ein ausgewähltes Paket. Nur durch das Paket enthaltene Optionen werden zurückgesetzt.',
+    parameters: {
+      type: 'object',
+      properties: {
+        packageId: {
+          type: 'string',
+          enum: AVAILABLE_PACKAGES.map(p => p.id),
+          description: 'Die ID des Pakets',
+        },
+      },
+      required: ['packageId'],
+    },
+  },
+  explain_constraint: {
+    description: 'Erklärt eine Konfigurationsregel: warum eine Option nicht wählbar ist und wie sie sich beheben lässt. Ohne ruleId werden alle aktuell verletzten Regeln erklärt.',
+    parameters: {
+      type: 'object',
+      properties: {
+        ruleId: {
+          type: 'string',
+          description: 'Die ID der Regel, z.B. aus EINGESCHRÄNKTE OPTIONEN oder VERLETZTE REGELN',
+        },
+      },
+    },
+  },
+  suggest_alternatives: {
+    description: 'Listet die wählbaren Alternativen für eine Option mit Preisen, z.B. wenn die gewünschte Option nicht verfügbar ist',
+    parameters: {
+      type: 'object',
+      properties: {
+        field: {
+          type: 'string',
+          enum: OPTION_DIMENSIONS.map(d => d.field),
+          description: `Optionsbereich: ${OPTION_DIMENSIONS.map(d => `${d.field} (${d.label})`).join(', ')}`,
+        },
+        optionId: {
+          type: 'string',
+          description: 'Die gewünschte, aber nicht wählbare Option (optional, um den Grund zu nennen)',
+        },
+      },
+      required: ['field'],
+    },
+  },
+};
+
+/**
+ * Tool definitions for the model, one per AIFunctionName
+ */
+export const CONFIGURATION_TOOLS: ToolDefinition[] = (Object.keys(TOOL_DEFINITIONS) as AIFunctionName[])
+  .map(name => ({ name, ...TOOL_DEFINITIONS[name] }));
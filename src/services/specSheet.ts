@@ -0,0 +1,155 @@
+/**
+ * Spec Sheet Export
+ *
+ * Builds a printable configuration summary (snapshot of the 3D view, all
+ * options with catalog prices, validation status and configuration code)
+ * entirely client-side. It opens in a new window and triggers the print
+ * dialog, where it can be printed or saved as PDF.
+ */
+
+import type { CarConfig, PriceLineItem, ValidationResult } from '../types';
+import { calculatePrice, formatPrice } from '../config/pricing';
+import { getModel } from '../config/models';
+import { encodeConfigCode, getShareUrl } from '../config/shareCode';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SpecSheetInput {
+  config: CarConfig;
+  validation: ValidationResult;
+  /** PNG data URL of the 3D view */
+  snapshot: string | null;
+  createdAt?: Date;
+}
+
+// =============================================================================
+// HTML
+// =============================================================================
+
+const STYLES = `
+  @page { size: A4; margin: 16mm; }
+  * { box-sizing: border-box; }
+  body { font-family: Helvetica, Arial, sans-serif; color: #1a1a1a; margin: 0; font-size: 11pt; }
+  header { display: flex; justify-content: space-between; align-items: flex-end; border-bottom: 2px solid #1c69d4; padding-bottom: 8px; }
+  h1 { font-size: 20pt; margin: 0; }
+  h2 { font-size: 12pt; margin: 20px 0 6px; text-transform: uppercase; letter-spacing: 0.05em; color: #1c69d4; }
+  .meta { font-size: 9pt; color: #666; text-align: right; }
+  .snapshot { width: 100%; margin-top: 12px; border-radius: 4px; }
+  table { width: 100%; border-collapse: collapse; }
+  td { padding: 4px 0; border-bottom: 1px solid #eee; vertical-align: top; }
+  td.price { text-align: right; white-space: nowrap; }
+  td.label { color: #666; width: 30%; }
+  .included { color: #2e7d32; font-size: 9pt; }
+  tr.total td { font-weight: bold; border-top: 2px solid #1a1a1a; border-bottom: none; padding-top: 8px; }
+  .status { padding: 8px 12px; border-radius: 4px; }
+  .status.valid { background: #e8f5e9; color: #2e7d32; }
+  .status.invalid { background: #ffebee; color: #c62828; }
+  ul { margin: 6px 0 0; padding-left: 18px; }
+  li.warning { color: #8d6e00; }
+  .link { font-size: 9pt; color: #666; }
+  .code { font-family: monospace; font-size: 9pt; word-break: break-all; background: #f5f5f5; padding: 8px; border-radius: 4px; }
+`;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function priceRow(item: PriceLineItem): string {
+  const price = item.includedIn
+    ? `<span class="included">im ${escapeHtml(item.includedIn)} enthalten</span>`
+    : formatPrice(item.price);
+  return `<tr><td class="label">${escapeHtml(item.label)}</td><td>${escapeHtml(item.name)}</td><td class="price">${price}</td></tr>`;
+}
+
+/**
+ * Complete HTML document of the spec sheet
+ */
+export function buildSpecSheetHtml({ config, validation, snapshot, createdAt = new Date() }: SpecSheetInput): string {
+  const model = getModel(config.model);
+  const price = calculatePrice(config);
+  const code = encodeConfigCode(config);
+
+  const status = validation.isValid
+    ? '<div class="status valid">✓ Konfiguration gültig - bestellbar</div>'
+    : '<div class="status invalid">✗ Konfiguration nicht bestellbar</div>';
+  const issues = [
+    ...validation.blockers.map(rule => `<li>${escapeHtml(rule.message)}</li>`),
+    ...validation.warnings.map(rule => `<li class="warning">Hinweis: ${escapeHtml(rule.message)}</li>`),
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="de">
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHtml(model.name)} - Konfiguration ${escapeHtml(createdAt.toLocaleDateString('de-DE'))}</title>
+  <style>${STYLES}</style>
+</head>
+<body>
+  <header>
+    <div>
+      <h1>${escapeHtml(model.name)}</h1>
+      <div>Ihre persönliche Konfiguration</div>
+    </div>
+    <div class="meta">
+      Erstellt am ${escapeHtml(createdAt.toLocaleString('de-DE'))}<br />
+      Gesamtpreis <strong>${formatPrice(price.total)}</strong>
+    </div>
+  </header>
+
+  ${snapshot ? `<img class="snapshot" src="${snapshot}" alt="${escapeHtml(model.name)}" />` : ''}
+
+  <h2>Ausstattung &amp; Preise</h2>
+  <table>
+    ${priceRow(price.base)}
+    ${price.packages.map(priceRow).join('\n    ')}
+    ${price.options.map(priceRow).join('\n    ')}
+    <tr class="total"><td colspan="2">Gesamtpreis</td><td class="price">${formatPrice(price.total)}</td></tr>
+    <tr><td colspan="2">Nettobetrag</td><td class="price">${formatPrice(price.net)}</td></tr>
+    <tr><td colspan="2">enthaltene MwSt. (${Math.round(price.vatRate * 100)} %)</td><td class="price">${formatPrice(price.vat)}</td></tr>
+  </table>
+
+  <h2>Validierung</h2>
+  ${status}
+  ${issues.length > 0 ? `<ul>${issues.join('')}</ul>` : ''}
+
+  <h2>Konfigurationscode</h2>
+  <div class="code">${escapeHtml(code)}</div>
+  <p class="link">Öffnen unter: ${escapeHtml(getShareUrl(config))}</p>
+</body>
+</html>`;
+}
+
+// =============================================================================
+// EXPORT
+// =============================================================================
+
+/**
+ * Opens the spec sheet in a new window and starts printing once the
+ * snapshot has loaded. Returns false if the popup was blocked.
+ */
+export function printSpecSheet(input: SpecSheetInput): boolean {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+
+  printWindow.document.open();
+  printWindow.document.write(buildSpecSheetHtml(input));
+  printWindow.document.close();
+
+  const print = () => {
+    printWindow.focus();
+    printWindow.print();
+  };
+  const image = printWindow.document.querySelector('img');
+  if (image && !image.complete) {
+    image.addEventListener('load', print, { once: true });
+  } else {
+    print();
+  }
+  return true;
+}
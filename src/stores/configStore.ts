@@ -1,38 +1,168 @@
 /**
- * BMW M5 Configuration Store (Zustand)
+ * BMW Configuration Store (Zustand)
  */
 
 import { create } from 'zustand';
-import type { CarConfig, ChatMessage, ValidationResult, UIState, CameraPosition } from '../types';
-import { validateConfiguration } from '../config/constraints';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import type { CarConfig, ChatMessage, ValidationResult, UIState, CameraPosition, RuleSet, FixAction, OptionField, DependencyChange, ModelId, ConfigHistory, HistoryEntry, SavedConfiguration, SerializedConfig, UnknownOptionId, ComparedConfig, ComparisonSide, ConfigComparison, LLMSettings, InspectedMesh, MeshCategory, MeshMappingCorrections } from '../types';
+import { validateConfiguration, setActiveRuleSet, getFixActions } from '../config/constraints';
+import { fetchRuleSet } from '../config/ruleEngine';
+import { solveConfiguration, type RepairObjective, type RepairResult } from '../config/solver';
+import { applyOption, toConfigChanges } from '../config/options';
+import { resolveDependencies } from '../config/dependencies';
+import { togglePackage } from '../config/packages';
+import { DEFAULT_MODEL, getModel } from '../config/models';
+import { serializeConfig, deserializeConfig, describeUnknownId } from '../config/serialization';
+import { compareConfigs } from '../config/comparison';
+import { EMPTY_HISTORY, describeConfigChanges, describeStep, recordStep, undoStep, redoStep } from '../config/history';
 import { AVAILABLE_COLORS, AVAILABLE_WHEELS, AVAILABLE_GRILL_COLORS, AVAILABLE_HOOD_PATTERNS } from '../types';
 
 // =============================================================================
-// DEFAULT CONFIGURATION (Valid M5 setup)
+// DEFAULT CONFIGURATION (Valid setup of the default model)
 // =============================================================================
 
-const DEFAULT_CONFIG: CarConfig = {
-  model: 'M5',
-  performancePackage: 'performance',
+const DEFAULT_CONFIG: CarConfig = getModel(DEFAULT_MODEL).defaults;
 
-  color: AVAILABLE_COLORS.find(c => c.id === 'sapphire-black')!,
-  wheels: AVAILABLE_WHEELS.find(w => w.id === 'm-double-spoke-20')!,
-  brakes: 'performance',
+/**
+ * Resolves auto-dependencies of a config change, revalidates the result and
+ * records the step in the undo history (labelled by the requested change,
+ * prefixed with `source` if given)
+ */
+function commitConfig(state: Pick<ConfigStore, 'config' | 'history'>, next: CarConfig, source?: string) {
+  const previous = state.config;
+  const resolution = resolveDependencies(previous, next);
+  const changed = describeConfigChanges(previous, resolution.config).length > 0;
+  return {
+    config: resolution.config,
+    validationResult: validateConfiguration(resolution.config),
+    dependencyChanges: resolution.changes,
+    history: changed ? recordStep(state.history, previous, describeStep(previous, next, source)) : state.history,
+  };
+}
 
-  interior: {
-    leather: 'merino',
-    color: 'black',
-    trim: 'aluminum',
-  },
+/**
+ * Takes over a complete config as-is (loaded or shared, so no dependency
+ * cascade) as one undoable step
+ */
+function importConfigState(state: Pick<ConfigStore, 'config' | 'history'>, config: CarConfig, label: string) {
+  const changed = describeConfigChanges(state.config, config).length > 0;
+  return {
+    config,
+    validationResult: validateConfiguration(config),
+    dependencyChanges: [],
+    history: changed ? recordStep(state.history, state.config, label) : state.history,
+  };
+}
 
-  lights: 'laser',
-  sound: 'harman-kardon',
-  drivingAssistant: 'plus',
+/**
+ * Restores a snapshot from the history; the cascade notice is cleared
+ */
+function restoreConfig(config: CarConfig, history: ConfigHistory) {
+  return {
+    config,
+    validationResult: validateConfiguration(config),
+    dependencyChanges: [],
+    history,
+  };
+}
 
-  // Exterior Styling
-  grillColor: AVAILABLE_GRILL_COLORS.find(g => g.id === 'shadow-line')!,
-  hoodPattern: AVAILABLE_HOOD_PATTERNS.find(h => h.id === 'standard')!,
-};
+// =============================================================================
+// PERSISTENCE
+// =============================================================================
+
+// Bump when the persisted shape changes, and add the step from the old version
+const PERSIST_VERSION = 1;
+
+// Only the most recent messages are kept across reloads
+const PERSISTED_MESSAGE_LIMIT = 100;
+
+interface PersistedState {
+  config: SerializedConfig;
+  savedConfigurations: SavedConfiguration[];
+  messages: Array<Pick<ChatMessage, 'id' | 'role' | 'content'> & { timestamp: string }>;
+  llmSettings: Partial<LLMSettings>;
+}
+
+type PersistMigration = (state: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Steps from each older persisted version to the next one. Version 1 is
+ * the first stored shape; the config inside carries its own serialization
+ * version (see serialization.ts).
+ */
+const PERSIST_MIGRATIONS: Record<number, PersistMigration> = {};
+
+/**
+ * Brings a stored state up to PERSIST_VERSION step by step. States without
+ * a migration path, or written by a newer version, are dropped so the
+ * defaults load instead of a misread state.
+ */
+function migrateState(persisted: unknown, version: number): Partial<PersistedState> {
+  if (version > PERSIST_VERSION || !persisted || typeof persisted !== 'object') return {};
+
+  let state = persisted as Record<string, unknown>;
+  for (let from = version; from < PERSIST_VERSION; from++) {
+    const migration = PERSIST_MIGRATIONS[from];
+    if (!migration) {
+      console.warn(`⚠️ No migration from persisted version ${from}, starting with defaults`);
+      return {};
+    }
+    state = migration(state);
+  }
+  return state as Partial<PersistedState>;
+}
+
+/**
+ * Restores the persisted config and chat. Options removed from the catalogs
+ * since saving fall back to defaults, and the customer is told in the chat.
+ */
+function restoreState(persisted: unknown, current: ConfigStore): ConfigStore {
+  const state = (persisted ?? {}) as Partial<PersistedState>;
+  if (!state.config) return current;
+
+  const { config, unknownIds } = deserializeConfig(state.config);
+  let messages: ChatMessage[] = Array.isArray(state.messages) && state.messages.length > 0
+    ? state.messages.map((m) => ({ ...m, timestamp: new Date(m.timestamp) }))
+    : current.messages;
+
+  if (unknownIds.length > 0) {
+    messages = [...messages, {
+      id: `msg-restore-${Date.now()}`,
+      role: 'assistant',
+      content: 'Ihre gespeicherte Konfiguration wurde wiederhergestellt. Einige Optionen sind nicht mehr erhältlich:\n' +
+        unknownIds.map((unknown) => `• ${describeUnknownId(unknown)}`).join('\n'),
+      timestamp: new Date(),
+    }];
+  }
+
+  return {
+    ...current,
+    config,
+    validationResult: validateConfiguration(config),
+    savedConfigurations: Array.isArray(state.savedConfigurations) ? state.savedConfigurations : [],
+    messages,
+    llmSettings: state.llmSettings && typeof state.llmSettings === 'object' ? state.llmSettings : {},
+  };
+}
+
+// =============================================================================
+// COMPARISON
+// =============================================================================
+
+/** Reference to the current configuration in compareConfigurations */
+export const CURRENT_CONFIG_REF = 'current';
+
+/**
+ * Resolves 'current' or a saved configuration (by id or name)
+ */
+function resolveComparedConfig(state: Pick<ConfigStore, 'config' | 'savedConfigurations'>, ref: string): ComparedConfig | null {
+  if (ref === CURRENT_CONFIG_REF) {
+    return { id: CURRENT_CONFIG_REF, name: 'Aktuelle Konfiguration', config: state.config };
+  }
+  const name = ref.trim().toLowerCase();
+  const saved = state.savedConfigurations.find(c => c.id === ref || c.name.toLowerCase() === name);
+  return saved ? { id: saved.id, name: saved.name, config: deserializeConfig(saved.config).config } : null;
+}
 
 // =============================================================================
 // STORE INTERFACE
@@ -42,11 +172,25 @@ interface ConfigStore {
   // State
   config: CarConfig;
   validationResult: ValidationResult;
+  /** Automatic adjustments made by the last config change */
+  dependencyChanges: DependencyChange[];
+  /** Undo/redo stacks of previous configurations */
+  history: ConfigHistory;
+  /** Named configurations saved by the customer */
+  savedConfigurations: SavedConfiguration[];
+  /** Open comparison; `shown` is the side displayed in the 3D scene (null = current config).
+   *  A 'current' side is a snapshot - views read the live config instead. */
+  comparison: { left: ComparedConfig; right: ComparedConfig; shown: ComparisonSide | null } | null;
   messages: ChatMessage[];
+  /** Overrides of the environment's LLM settings (settings panel) */
+  llmSettings: Partial<LLMSettings>;
   ui: UIState;
+  /** Mesh inspector: picked mesh and category corrections per asset URL (not persisted) */
+  meshInspection: { selected: InspectedMesh | null; corrections: Record<string, MeshMappingCorrections> };
 
   // Config Actions
-  updateConfig: (updates: Partial<CarConfig>) => void;
+  /** Applies updates as one undoable step; `source` prefixes the step label (e.g. "KI") */
+  updateConfig: (updates: Partial<CarConfig>, source?: string) => DependencyChange[];
   setColor: (colorId: string) => void;
   setWheels: (wheelId: string) => void;
   setInterior: (interior: Partial<CarConfig['interior']>) => void;
@@ -54,36 +198,81 @@ interface ConfigStore {
   setBrakes: (brakes: CarConfig['brakes']) => void;
   setGrillColor: (grillColorId: string) => void;
   setHoodPattern: (hoodPatternId: string) => void;
+  selectOption: (field: OptionField, key: string) => void;
+  /** Adds or removes a package; included options follow automatically */
+  togglePackage: (packageId: string) => DependencyChange[];
+  /** Switches the model, replacing options it does not offer */
+  changeModel: (model: ModelId) => DependencyChange[];
+  repairConfig: (objective?: RepairObjective) => RepairResult | null;
+  applyFix: (ruleId: string) => FixAction | null;
+  /** Replaces the whole config (e.g. from a share link) as one undoable step */
+  importConfig: (config: CarConfig, label: string) => ValidationResult;
   resetConfig: () => void;
+  /** Restores the previous config; returns the undone step or null */
+  undo: () => HistoryEntry | null;
+  /** Re-applies the last undone step; returns it or null */
+  redo: () => HistoryEntry | null;
+
+  // Saved Configurations
+  saveConfiguration: (name: string) => SavedConfiguration;
+  /** Loads a saved configuration as one undoable step; returns ids no longer in the catalogs */
+  loadConfiguration: (id: string) => UnknownOptionId[] | null;
+  deleteConfiguration: (id: string) => void;
+
+  // Comparison
+  /** Opens a comparison of two configurations ('current' or saved id/name); null if one is unknown */
+  compareConfigurations: (left: string, right: string) => ConfigComparison | null;
+  showComparedConfig: (side: ComparisonSide | null) => void;
+  closeComparison: () => void;
 
   // Chat Actions
-  addMessage: (message: Omit<ChatMessage, 'id' | 'timestamp'>) => void;
+  /** Returns the new message's id */
+  addMessage: (message: Omit<ChatMessage, 'id' | 'timestamp'>) => string;
+  /** Updates a message in place (e.g. a streamed reply) */
+  updateMessage: (id: string, updates: Partial<Pick<ChatMessage, 'content' | 'streaming'>>) => void;
   clearMessages: () => void;
 
+  // LLM Settings
+  updateLLMSettings: (updates: Partial<LLMSettings>) => void;
+  resetLLMSettings: () => void;
+
   // UI Actions
   setLoading: (loading: boolean) => void;
   setRecording: (recording: boolean) => void;
   setActivePanel: (panel: UIState['activePanel']) => void;
   setCameraPosition: (position: CameraPosition) => void;
   toggleValidationOverlay: () => void;
+  toggleMeshInspector: () => void;
+
+  // Mesh Inspector
+  inspectMesh: (mesh: InspectedMesh | null) => void;
+  /** Recategorizes the picked mesh, either by its material name or by its own name */
+  correctMeshCategory: (asset: string, target: 'material' | 'mesh', category: MeshCategory) => void;
 
   // Validation
   revalidate: () => void;
+  setRuleSet: (ruleSet: RuleSet) => void;
+  loadRuleSet: (url: string) => Promise<void>;
 }
 
 // =============================================================================
 // STORE IMPLEMENTATION
 // =============================================================================
 
-export const useConfigStore = create<ConfigStore>((set) => ({
+export const useConfigStore = create<ConfigStore>()(persist((set, get) => ({
   // Initial State
   config: DEFAULT_CONFIG,
   validationResult: validateConfiguration(DEFAULT_CONFIG),
+  dependencyChanges: [],
+  history: EMPTY_HISTORY,
+  savedConfigurations: [],
+  comparison: null,
+  llmSettings: {},
   messages: [
     {
       id: 'welcome',
       role: 'assistant',
-      content: 'Willkommen beim BMW M5 KI-Konfigurator! Ich helfe Ihnen, Ihren perfekten M5 zu konfigurieren. Sie können mir einfach sagen, was Sie ändern möchten - zum Beispiel: "Zeig mir die Farben" oder "Ich möchte andere Felgen". Wie kann ich Ihnen helfen?',
+      content: `Willkommen beim BMW ${getModel(DEFAULT_CONFIG.model).shortName} KI-Konfigurator! Ich helfe Ihnen, Ihren perfekten ${getModel(DEFAULT_CONFIG.model).shortName} zu konfigurieren. Sie können mir einfach sagen, was Sie ändern möchten - zum Beispiel: "Zeig mir die Farben" oder "Ich möchte andere Felgen". Wie kann ich Ihnen helfen?`,
       timestamp: new Date(),
     },
   ],
@@ -93,109 +282,176 @@ export const useConfigStore = create<ConfigStore>((set) => ({
     activePanel: 'chat',
     showValidationOverlay: false,
     cameraPosition: 'front',
+    showMeshInspector: false,
   },
+  meshInspection: { selected: null, corrections: {} },
 
   // Config Actions
-  updateConfig: (updates) => {
-    set((state) => {
-      const newConfig = { ...state.config, ...updates };
-      return {
-        config: newConfig,
-        validationResult: validateConfiguration(newConfig),
-      };
-    });
+  updateConfig: (updates, source) => {
+    const state = get();
+    const result = commitConfig(state, { ...state.config, ...updates }, source);
+    set(result);
+    return result.dependencyChanges;
   },
 
   setColor: (colorId) => {
     const color = AVAILABLE_COLORS.find(c => c.id === colorId);
     if (color) {
-      set((state) => {
-        const newConfig = { ...state.config, color };
-        return {
-          config: newConfig,
-          validationResult: validateConfiguration(newConfig),
-        };
-      });
+      set((state) => commitConfig(state, { ...state.config, color }));
     }
   },
 
   setWheels: (wheelId) => {
     const wheels = AVAILABLE_WHEELS.find(w => w.id === wheelId);
     if (wheels) {
-      set((state) => {
-        const newConfig = { ...state.config, wheels };
-        return {
-          config: newConfig,
-          validationResult: validateConfiguration(newConfig),
-        };
-      });
+      set((state) => commitConfig(state, { ...state.config, wheels }));
     }
   },
 
   setInterior: (interiorUpdates) => {
-    set((state) => {
-      const newConfig = {
-        ...state.config,
-        interior: { ...state.config.interior, ...interiorUpdates },
-      };
-      return {
-        config: newConfig,
-        validationResult: validateConfiguration(newConfig),
-      };
-    });
+    set((state) => commitConfig(state, {
+      ...state.config,
+      interior: { ...state.config.interior, ...interiorUpdates },
+    }));
   },
 
   setPerformancePackage: (pkg) => {
-    set((state) => {
-      const newConfig = { ...state.config, performancePackage: pkg };
-      return {
-        config: newConfig,
-        validationResult: validateConfiguration(newConfig),
-      };
-    });
+    set((state) => commitConfig(state, { ...state.config, performancePackage: pkg }));
   },
 
   setBrakes: (brakes) => {
-    set((state) => {
-      const newConfig = { ...state.config, brakes };
-      return {
-        config: newConfig,
-        validationResult: validateConfiguration(newConfig),
-      };
-    });
+    set((state) => commitConfig(state, { ...state.config, brakes }));
   },
 
   setGrillColor: (grillColorId) => {
     const grillColor = AVAILABLE_GRILL_COLORS.find(g => g.id === grillColorId);
     if (grillColor) {
-      set((state) => {
-        const newConfig = { ...state.config, grillColor };
-        return {
-          config: newConfig,
-          validationResult: validateConfiguration(newConfig),
-        };
-      });
+      set((state) => commitConfig(state, { ...state.config, grillColor }));
     }
   },
 
   setHoodPattern: (hoodPatternId) => {
     const hoodPattern = AVAILABLE_HOOD_PATTERNS.find(h => h.id === hoodPatternId);
     if (hoodPattern) {
-      set((state) => {
-        const newConfig = { ...state.config, hoodPattern };
-        return {
-          config: newConfig,
-          validationResult: validateConfiguration(newConfig),
-        };
-      });
+      set((state) => commitConfig(state, { ...state.config, hoodPattern }));
+    }
+  },
+
+  togglePackage: (packageId) => {
+    const newConfig = togglePackage(get().config, packageId);
+    if (!newConfig) return [];
+    return get().updateConfig({
+      performancePackage: newConfig.performancePackage,
+      packages: newConfig.packages,
+    });
+  },
+
+  changeModel: (model) => {
+    if (get().config.model === model) return [];
+    return get().updateConfig({ model });
+  },
+
+  selectOption: (field, key) => {
+    const newConfig = applyOption(get().config, field, key);
+    if (newConfig) {
+      get().updateConfig(toConfigChanges(newConfig, [field]));
     }
   },
 
+  repairConfig: (objective) => {
+    const result = solveConfiguration(get().config, objective);
+    if (result && Object.keys(result.changes).length > 0) {
+      get().updateConfig(result.changes, 'Korrektur');
+    }
+    return result;
+  },
+
+  applyFix: (ruleId) => {
+    const { config, validationResult } = get();
+    const action = getFixActions(validationResult, config).find(a => a.ruleId === ruleId);
+    if (!action) return null;
+    get().updateConfig(action.changes, 'Korrektur');
+    return action;
+  },
+
+  importConfig: (config, label) => {
+    const result = importConfigState(get(), config, label);
+    set(result);
+    return result.validationResult;
+  },
+
   resetConfig: () => {
-    set({
+    set((state) => ({
       config: DEFAULT_CONFIG,
       validationResult: validateConfiguration(DEFAULT_CONFIG),
-    });
+      dependencyChanges: [],
+      history: describeConfigChanges(state.config, DEFAULT_CONFIG).length > 0
+        ? recordStep(state.history, state.config, 'Zurückgesetzt')
+        : state.history,
+    }));
+  },
+
+  undo: () => {
+    const { config, history } = get();
+    const step = undoStep(history, config);
+    if (!step) return null;
+    set(restoreConfig(step.entry.config, step.history));
+    return step.entry;
+  },
+
+  redo: () => {
+    const { config, history } = get();
+    const step = redoStep(history, config);
+    if (!step) return null;
+    set(restoreConfig(step.entry.config, step.history));
+    return step.entry;
+  },
+
+  // Saved Configurations
+  saveConfiguration: (name) => {
+    const saved: SavedConfiguration = {
+      id: `cfg-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      name: name.trim() || getModel(get().config.model).name,
+      savedAt: new Date().toISOString(),
+      config: serializeConfig(get().config),
+    };
+    set((state) => ({
+      savedConfigurations: [...state.savedConfigurations, saved],
+    }));
+    return saved;
+  },
+
+  loadConfiguration: (id) => {
+    const saved = get().savedConfigurations.find(c => c.id === id);
+    if (!saved) return null;
+    const { config, unknownIds } = deserializeConfig(saved.config);
+    get().importConfig(config, `„${saved.name}“ geladen`);
+    return unknownIds;
+  },
+
+  deleteConfiguration: (id) => {
+    set((state) => ({
+      savedConfigurations: state.savedConfigurations.filter(c => c.id !== id),
+    }));
+  },
+
+  // Comparison
+  compareConfigurations: (leftRef, rightRef) => {
+    const left = resolveComparedConfig(get(), leftRef);
+    const right = resolveComparedConfig(get(), rightRef);
+    if (!left || !right) return null;
+    set({ comparison: { left, right, shown: null } });
+    return compareConfigs(left, right);
+  },
+
+  showComparedConfig: (side) => {
+    set((state) => ({
+      comparison: state.comparison && { ...state.comparison, shown: side },
+    }));
+  },
+
+  closeComparison: () => {
+    set({ comparison: null });
   },
 
   // Chat Actions
@@ -208,6 +464,13 @@ export const useConfigStore = create<ConfigStore>((set) => ({
     set((state) => ({
       messages: [...state.messages, newMessage],
     }));
+    return newMessage.id;
+  },
+
+  updateMessage: (id, updates) => {
+    set((state) => ({
+      messages: state.messages.map((m) => (m.id === id ? { ...m, ...updates } : m)),
+    }));
   },
 
   clearMessages: () => {
@@ -216,13 +479,24 @@ export const useConfigStore = create<ConfigStore>((set) => ({
         {
           id: 'welcome',
           role: 'assistant',
-          content: 'Willkommen beim BMW M5 KI-Konfigurator! Wie kann ich Ihnen helfen?',
+          content: `Willkommen beim BMW ${getModel(get().config.model).shortName} KI-Konfigurator! Wie kann ich Ihnen helfen?`,
           timestamp: new Date(),
         },
       ],
     });
   },
 
+  // LLM Settings
+  updateLLMSettings: (updates) => {
+    set((state) => ({
+      llmSettings: { ...state.llmSettings, ...updates },
+    }));
+  },
+
+  resetLLMSettings: () => {
+    set({ llmSettings: {} });
+  },
+
   // UI Actions
   setLoading: (loading) => {
     set((state) => ({
@@ -254,12 +528,70 @@ export const useConfigStore = create<ConfigStore>((set) => ({
     }));
   },
 
+  toggleMeshInspector: () => {
+    set((state) => ({
+      ui: { ...state.ui, showMeshInspector: !state.ui.showMeshInspector },
+      meshInspection: { ...state.meshInspection, selected: null },
+    }));
+  },
+
+  // Mesh Inspector
+  inspectMesh: (mesh) => {
+    set((state) => ({
+      meshInspection: { ...state.meshInspection, selected: mesh },
+    }));
+  },
+
+  correctMeshCategory: (asset, target, category) => {
+    const { selected, corrections } = get().meshInspection;
+    if (!selected) return;
+
+    const current = corrections[asset] ?? { materials: {}, meshes: {} };
+    const corrected = target === 'mesh'
+      ? { ...current, meshes: { ...current.meshes, [selected.meshName]: category } }
+      : { ...current, materials: { ...current.materials, [selected.materialName]: category } };
+
+    set({
+      meshInspection: {
+        selected: { ...selected, category, source: target },
+        corrections: { ...corrections, [asset]: corrected },
+      },
+    });
+  },
+
   // Validation
   revalidate: () => {
     set((state) => ({
       validationResult: validateConfiguration(state.config),
     }));
   },
+
+  setRuleSet: (ruleSet) => {
+    setActiveRuleSet(ruleSet, ruleSet.model ?? get().config.model);
+    get().revalidate();
+  },
+
+  loadRuleSet: async (url) => {
+    const ruleSet = await fetchRuleSet(url);
+    get().setRuleSet(ruleSet);
+  },
+}), {
+  name: 'bmw-configurator',
+  version: PERSIST_VERSION,
+  storage: createJSONStorage(() => localStorage),
+  partialize: (state): PersistedState => ({
+    config: serializeConfig(state.config),
+    savedConfigurations: state.savedConfigurations,
+    messages: state.messages.slice(-PERSISTED_MESSAGE_LIMIT).map(({ id, role, content, timestamp }) => ({
+      id,
+      role,
+      content,
+      timestamp: timestamp.toISOString(),
+    })),
+    llmSettings: state.llmSettings,
+  }),
+  migrate: migrateState,
+  merge: restoreState,
 }));
 
 // =============================================================================
@@ -271,3 +603,10 @@ export const selectValidation = (state: ConfigStore) => state.validationResult;
 export const selectMessages = (state: ConfigStore) => state.messages;
 export const selectUI = (state: ConfigStore) => state.ui;
 export const selectIsValid = (state: ConfigStore) => state.validationResult.isValid;
+/** Config rendered in the 3D scene: a saved configuration while it is shown in a comparison, else the current one */
+export const selectSceneConfig = (state: ConfigStore) => {
+  const shown = state.comparison?.shown ? state.comparison[state.comparison.shown] : null;
+  return shown && shown.id !== CURRENT_CONFIG_REF ? shown.config : state.config;
+};
+export const selectCanUndo = (state: ConfigStore) => state.history.past.length > 0;
+export const selectCanRedo = (state: ConfigStore) => state.history.future.length > 0;
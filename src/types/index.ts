@@ -9,6 +9,8 @@
 export interface CarConfig {
   model: 'M5' | '5-series';
   performancePackage: 'none' | 'performance' | 'competition';
+  /** Add-on packages (ids from AVAILABLE_PACKAGES with kind 'addon') */
+  packages: string[];
 
   color: ColorOption;
   wheels: WheelOption;
@@ -39,6 +41,45 @@ export interface WheelOption {
   size: 19 | 20 | 21;
   type: 'standard' | 'm-sport' | 'm-performance';
   price: number;
+  /** Rim finish in the 3D scene */
+  finish: SurfaceFinish;
+  /** Spoke layout of the rim generated for the 3D scene */
+  design: WheelDesign;
+}
+
+/**
+ * Spoke layout of a generated rim: `spokes` arms around the hub, each a
+ * single or double spoke, a V (forked from the hub) or a Y (forked halfway)
+ */
+export interface WheelDesign {
+  spokes: number;
+  style: 'single' | 'double' | 'v' | 'y';
+}
+
+/**
+ * How a part is rendered in the 3D scene
+ */
+export interface SurfaceFinish {
+  hex: string;
+  metalness: number;
+  roughness: number;
+}
+
+/**
+ * Layered car paint in the 3D scene: base coat, flakes and clear coat
+ */
+export interface PaintFinish {
+  metalness: number;
+  roughness: number;
+  /** Clear coat layer strength and roughness (0-1) */
+  clearcoat: number;
+  clearcoatRoughness: number;
+  /** Strength of the sparkling metallic flakes in the base coat (0 = none) */
+  flake: number;
+  /** Soft velvety highlight at grazing angles, e.g. for frozen paints (0-1) */
+  sheen: number;
+  /** Hue shift with the viewing angle, e.g. for Individual paints (0-1) */
+  colorShift: number;
 }
 
 export interface InteriorConfig {
@@ -61,20 +102,166 @@ export interface HoodPatternOption {
   price: number;
 }
 
+/**
+ * An option bundled with a package at no extra charge.
+ * `without` is the option the item reverts to when the package is removed.
+ */
+export type PackageInclude = {
+  [F in OptionField]: { field: F; value: OptionKeys[F]; without: OptionKeys[F] };
+}[OptionField];
+
+/**
+ * - 'performance': selected via CarConfig.performancePackage (one at a time)
+ * - 'addon': selected via CarConfig.packages (any combination)
+ */
+export interface PackageOption {
+  id: string;
+  name: string;
+  description: string;
+  kind: 'performance' | 'addon';
+  /** Bundle price; included options are not charged separately */
+  price: number;
+  includes: PackageInclude[];
+  /** Options that must be selected (and are charged) while the package is active */
+  mandatory: FixTarget[];
+}
+
 // =============================================================================
 // CONSTRAINT SYSTEM TYPES
 // =============================================================================
 
-export interface ConstraintRule {
+/**
+ * Dotted paths into CarConfig that rule expressions may read
+ */
+export type ConfigPath =
+  | 'model'
+  | 'performancePackage'
+  | 'color.id'
+  | 'color.type'
+  | 'wheels.id'
+  | 'wheels.size'
+  | 'wheels.type'
+  | 'brakes'
+  | 'interior.leather'
+  | 'interior.color'
+  | 'interior.trim'
+  | 'lights'
+  | 'sound'
+  | 'drivingAssistant'
+  | 'grillColor.id'
+  | 'hoodPattern.id'
+  | 'packages';
+
+export type RuleValue = string | number;
+
+/**
+ * Serializable (JSON) expression tree evaluated against a CarConfig
+ */
+export type RuleExpression =
+  | { op: 'equals'; path: ConfigPath; value: RuleValue }
+  | { op: 'in'; path: ConfigPath; values: RuleValue[] }
+  | { op: 'startsWith'; path: ConfigPath; prefix: string }
+  | { op: 'contains'; path: ConfigPath; value: RuleValue }
+  | { op: 'and'; all: RuleExpression[] }
+  | { op: 'or'; any: RuleExpression[] }
+  | { op: 'not'; expr: RuleExpression }
+  | { op: 'implies'; if: RuleExpression; then: RuleExpression };
+
+/**
+ * Option keys per configurable field (catalog ids for object options)
+ */
+export interface OptionKeys {
+  performancePackage: CarConfig['performancePackage'];
+  color: string;
+  wheels: string;
+  brakes: CarConfig['brakes'];
+  'interior.leather': InteriorConfig['leather'];
+  'interior.trim': InteriorConfig['trim'];
+  'interior.color': string;
+  lights: CarConfig['lights'];
+  sound: CarConfig['sound'];
+  drivingAssistant: CarConfig['drivingAssistant'];
+  grillColor: string;
+  hoodPattern: string;
+}
+
+export type OptionField = keyof OptionKeys;
+
+/**
+ * Typed target of a fix: which field to change to which option
+ */
+export type FixTarget = {
+  [F in OptionField]: { field: F; value: OptionKeys[F] };
+}[OptionField];
+
+/**
+ * A fix resolved against a concrete configuration, ready to apply in one click
+ */
+export type FixAction = FixTarget & {
+  ruleId: string;
+  label: string;
+  priceDelta: number;
+  changes: Partial<CarConfig>;
+};
+
+/**
+ * How the store resolves a rule automatically instead of letting validation go red:
+ * - 'requires': the trigger pulls in the rule's fix (e.g. ceramic brakes → performance package)
+ * - 'excludes': the trigger removes a conflicting option (the fix)
+ * - 'includes': the trigger brings the fix along as part of a bundle
+ * `otherwise` applies when the user changed the fix's own field (e.g. removed
+ * the required package), so the dependent option is adjusted instead.
+ */
+export interface AutoResolve {
+  kind: 'requires' | 'excludes' | 'includes';
+  otherwise?: FixTarget;
+}
+
+/**
+ * One automatic adjustment made while resolving dependencies.
+ * 'reverts' marks an included option reset because its package was removed,
+ * 'unavailable' an option replaced because the new model does not offer it.
+ */
+export interface DependencyChange {
+  ruleId: string;
+  kind: AutoResolve['kind'] | 'reverts' | 'unavailable';
+  /** 'packages' for an add-on package dropped by a model switch */
+  field: OptionField | 'packages';
+  from: string;
+  to: string;
+  priceDelta: number;
+}
+
+/**
+ * Declarative rule as authored by the product team.
+ * `when` describes the violating configuration.
+ */
+export interface RuleDefinition {
   id: string;
   description: string;
-  condition: (config: CarConfig) => boolean;
+  when: RuleExpression;
   message: string;
   severity: 'block' | 'warn';
-  suggestedAlternative?: string;
+  fix?: FixTarget;
+  autoResolve?: AutoResolve;
   category: 'wheels' | 'brakes' | 'color' | 'interior' | 'tech';
 }
 
+export interface RuleSet {
+  id: string;
+  version: number;
+  /** Model the rule set applies to (defaults to the model it is loaded for) */
+  model?: CarConfig['model'];
+  rules: RuleDefinition[];
+}
+
+/**
+ * Compiled rule used by the validation engine
+ */
+export interface ConstraintRule extends RuleDefinition {
+  condition: (config: CarConfig) => boolean;
+}
+
 export interface ValidationResult {
   isValid: boolean;
   blockers: ConstraintRule[];
@@ -82,6 +269,254 @@ export interface ValidationResult {
   totalViolations: number;
 }
 
+export type AvailabilityStatus = 'valid' | 'warn' | 'block';
+
+/**
+ * What would happen if a single option were chosen in the current config
+ */
+export interface OptionAvailability {
+  field: OptionField;
+  key: string;
+  name: string;
+  price: number;
+  selected: boolean;
+  status: AvailabilityStatus;
+  /** Rules involving this field that choosing the option would violate */
+  ruleIds: string[];
+}
+
+export type OptionAvailabilityMap = Record<OptionField, OptionAvailability[]>;
+
+// =============================================================================
+// MODEL REGISTRY TYPES
+// =============================================================================
+
+export type ModelId = CarConfig['model'];
+
+export interface CameraPreset {
+  position: [number, number, number];
+  target: [number, number, number];
+}
+
+/**
+ * Option keys a model offers per field; fields not listed offer the full catalog
+ */
+export type ModelCatalog = Partial<{ [F in OptionField]: OptionKeys[F][] }>;
+
+export interface HoodRegion {
+  /** Direction of the nose along the model's z axis */
+  front: 1 | -1;
+  /** Hood length as a share of the body length */
+  length: number;
+}
+
+export interface ModelDefinition {
+  id: ModelId;
+  /** Full name, e.g. 'BMW M5 Limousine' */
+  name: string;
+  /** Short name for titles, e.g. 'M5' */
+  shortName: string;
+  /** One-line characterisation for the assistant */
+  description: string;
+  /** Main advantages the assistant names when an option is not available */
+  highlights: string[];
+  basePrice: number;
+  catalog: ModelCatalog;
+  /** Package ids from AVAILABLE_PACKAGES offered for this model */
+  packages: string[];
+  ruleSet: RuleSet;
+  asset: {
+    url: string;
+    scale: number;
+    rotation: [number, number, number];
+    /** Rim size of the wheels baked into the GLB (inches) */
+    wheelSize: number;
+    /** Where the hood sits in a body mesh without its own hood part */
+    hood: HoodRegion;
+    /** Which material each mesh of the GLB gets (see meshMappings.ts) */
+    meshMapping: MeshMapping;
+  };
+  cameraPresets: Record<CameraPosition, CameraPreset>;
+  /** Valid starting configuration; also the fallback when switching models */
+  defaults: CarConfig;
+}
+
+// =============================================================================
+// 3D SCENE TYPES
+// =============================================================================
+
+/**
+ * Material group of a mesh in the car model
+ */
+export type MeshCategory =
+  | 'body'
+  | 'hood'
+  | 'glass'
+  | 'taillight'
+  | 'headlight'
+  | 'wheel'
+  | 'tire'
+  | 'caliper'
+  | 'interior'
+  | 'trim'
+  | 'grille'
+  | 'badge'
+  | 'carbon'
+  | 'chrome'
+  | 'other';
+
+/**
+ * Explicit mesh categorisation for one GLB asset. Names are the original
+ * names in the file; a mesh entry wins over its material's entry.
+ */
+export interface MeshMapping {
+  /** Asset URL the mapping was made for */
+  asset: string;
+  version: number;
+  materials: Record<string, MeshCategory>;
+  meshes: Record<string, MeshCategory>;
+}
+
+/**
+ * Where a mesh's category came from; 'guess' means the names are not in the
+ * mapping and the category was derived from the material name
+ */
+export type MeshCategorySource = 'mesh' | 'material' | 'guess';
+
+/** Mesh picked in the mesh inspector */
+export interface InspectedMesh {
+  meshName: string;
+  materialName: string;
+  category: MeshCategory;
+  source: MeshCategorySource;
+}
+
+/** Inspector corrections, applied on top of the asset's mapping */
+export type MeshMappingCorrections = Pick<MeshMapping, 'materials' | 'meshes'>;
+
+// =============================================================================
+// PRICING TYPES
+// =============================================================================
+
+export interface PriceLineItem {
+  id: string;
+  category: 'base' | 'option' | 'package';
+  label: string;
+  name: string;
+  /** Gross price incl. VAT in EUR; 0 for standard equipment */
+  price: number;
+  field?: OptionField;
+  /** Name of the selected package that includes this option at no charge */
+  includedIn?: string;
+  /** For packages: what the included options would cost separately */
+  includedValue?: number;
+}
+
+/**
+ * Itemised price of a configuration. Catalog prices are gross (incl. VAT),
+ * `net` and `vat` show the tax contained in `total`.
+ */
+export interface PriceBreakdown {
+  base: PriceLineItem;
+  options: PriceLineItem[];
+  packages: PriceLineItem[];
+  optionsTotal: number;
+  packagesTotal: number;
+  vatRate: number;
+  net: number;
+  vat: number;
+  total: number;
+}
+
+// =============================================================================
+// HISTORY TYPES
+// =============================================================================
+
+/**
+ * Snapshot on the undo/redo stacks: the config to restore and the label of
+ * the step that left it (e.g. 'KI: Felgen → M Sternspeiche 21"')
+ */
+export interface HistoryEntry {
+  config: CarConfig;
+  label: string;
+  timestamp: Date;
+}
+
+export interface ConfigHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+// =============================================================================
+// PERSISTENCE TYPES
+// =============================================================================
+
+/**
+ * CarConfig reduced to option ids, so stored configurations pick up current
+ * catalog names and prices and survive removed options when loaded
+ */
+export interface SerializedConfig {
+  version: number;
+  model: string;
+  options: Partial<Record<OptionField, string>>;
+  packages: string[];
+}
+
+/**
+ * An id in a serialized config that the catalogs no longer contain
+ */
+export interface UnknownOptionId {
+  field: OptionField | 'model' | 'packages';
+  id: string;
+}
+
+export interface SavedConfiguration {
+  id: string;
+  name: string;
+  /** ISO timestamp */
+  savedAt: string;
+  config: SerializedConfig;
+}
+
+// =============================================================================
+// COMPARISON TYPES
+// =============================================================================
+
+export type ComparisonSide = 'left' | 'right';
+
+/**
+ * One side of a comparison: the current configuration or a saved one
+ */
+export interface ComparedConfig {
+  /** 'current' or the id of a saved configuration */
+  id: string;
+  name: string;
+  config: CarConfig;
+}
+
+/**
+ * One line of a comparison; a side is null where the line does not exist
+ * (e.g. an add-on package selected on one side only)
+ */
+export interface ComparisonRow {
+  id: string;
+  label: string;
+  left: PriceLineItem | null;
+  right: PriceLineItem | null;
+  differs: boolean;
+  /** Price of the right side minus the left side */
+  priceDelta: number;
+}
+
+export interface ConfigComparison {
+  left: ComparedConfig;
+  right: ComparedConfig;
+  rows: ComparisonRow[];
+  prices: Record<ComparisonSide, PriceBreakdown>;
+  validation: Record<ComparisonSide, ValidationResult>;
+  totalDelta: number;
+}
+
 // =============================================================================
 // CHAT TYPES
 // =============================================================================
@@ -93,6 +528,8 @@ export interface ChatMessage {
   timestamp: Date;
   validationResult?: ValidationResult;
   configChange?: Partial<CarConfig>;
+  /** Assistant reply that is still being received */
+  streaming?: boolean;
 }
 
 export interface ConversationContext {
@@ -111,6 +548,8 @@ export interface UIState {
   activePanel: 'chat' | 'config' | 'validation';
   showValidationOverlay: boolean;
   cameraPosition: CameraPosition;
+  /** Debug tool: click meshes to see and correct their category */
+  showMeshInspector: boolean;
 }
 
 export type CameraPosition = 'front' | 'side' | 'rear' | 'interior' | 'wheels';
@@ -119,19 +558,37 @@ export type CameraPosition = 'front' | 'side' | 'rear' | 'interior' | 'wheels';
 // AI FUNCTION CALL TYPES
 // =============================================================================
 
-export type AIFunctionName =
-  | 'change_color'
-  | 'change_wheels'
-  | 'change_interior'
-  | 'change_brakes'
-  | 'change_grill_color'
-  | 'change_hood_pattern'
-  | 'add_package'
-  | 'remove_package'
-  | 'get_price'
-  | 'validate_config'
-  | 'explain_constraint'
-  | 'suggest_alternatives';
+/**
+ * Arguments of each AI function, as declared in its tool schema
+ * (services/llm/tools.ts) and checked against it before execution
+ */
+export interface AIFunctionArgs {
+  change_color: { colorId: string };
+  change_wheels: { wheelId: string };
+  change_interior: Partial<InteriorConfig>;
+  change_brakes: { brakes: CarConfig['brakes'] };
+  change_grill_color: { grillColorId: string };
+  change_hood_pattern: { hoodPatternId: string };
+  change_lights: { lights: CarConfig['lights'] };
+  change_sound: { sound: CarConfig['sound'] };
+  change_driving_assistant: { drivingAssistant: CarConfig['drivingAssistant'] };
+  set_performance_package: { package: CarConfig['performancePackage'] };
+  add_package: { packageId: string };
+  remove_package: { packageId: string };
+  get_price: Record<string, never>;
+  validate_configuration: Record<string, never>;
+  explain_constraint: { ruleId?: string };
+  suggest_alternatives: { field: OptionField; optionId?: string };
+  repair_configuration: { objective?: 'fewest-changes' | 'cheapest' };
+  apply_fix: { ruleId: string };
+  change_model: { model: ModelId };
+  move_camera: { position: CameraPosition };
+  undo_change: Record<string, never>;
+  redo_change: Record<string, never>;
+  compare_configurations: { left?: string; right: string };
+}
+
+export type AIFunctionName = keyof AIFunctionArgs;
 
 export interface AIFunctionCall {
   name: AIFunctionName;
@@ -145,6 +602,154 @@ export interface AIResponse {
   validationTriggered?: boolean;
 }
 
+// =============================================================================
+// LLM PROVIDER TYPES
+// =============================================================================
+
+/** 'server' = the app's chat proxy, which talks to openai/gemini/local with its own keys */
+export type LLMProviderId = 'openai' | 'gemini' | 'local' | 'demo' | 'server';
+
+/**
+ * JSON Schema subset used for tool parameters
+ */
+export interface ToolParameterSchema {
+  type: 'string' | 'number' | 'boolean' | 'object' | 'array';
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, ToolParameterSchema>;
+  required?: string[];
+  items?: ToolParameterSchema;
+}
+
+/**
+ * Provider-neutral tool definition, mapped onto each provider's format
+ */
+export interface ToolDefinition {
+  name: AIFunctionName;
+  description: string;
+  parameters: ToolParameterSchema & { type: 'object' };
+}
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMFunctionCall {
+  /** Provider call id (assigned by the tool loop if the provider has none) */
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+/**
+ * Outcome of one executed function call, reported back to the model
+ */
+export interface ToolResult {
+  callId: string;
+  name: string;
+  /** JSON: applied changes, validation state, price */
+  content: string;
+}
+
+/**
+ * One step of the tool loop: what the model said and called, and what
+ * came of it
+ */
+export interface ToolRound {
+  message: string;
+  calls: Array<LLMFunctionCall & { id: string }>;
+  results: ToolResult[];
+}
+
+export interface LLMRequest {
+  message: string;
+  config: CarConfig;
+  /** Previous turns, oldest first */
+  history: ChatTurn[];
+  /** Names of saved configurations (for compare_configurations) */
+  savedConfigurationNames: string[];
+  /** Earlier steps of this turn's tool loop, oldest first */
+  toolRounds?: ToolRound[];
+}
+
+export interface LLMResponse {
+  message: string;
+  functionCalls: LLMFunctionCall[];
+}
+
+export interface LLMSendOptions {
+  /** Receives text as it is generated */
+  onText?: (delta: string) => void;
+  /** Receives each function call as soon as its arguments are complete */
+  onFunctionCall?: (call: LLMFunctionCall) => void;
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  /** Display name, e.g. "OpenAI (gpt-5.1-2025-11-13)" */
+  name: string;
+  /** Whether send() reports text and function calls while they arrive */
+  supportsStreaming: boolean;
+  send: (request: LLMRequest, options?: LLMSendOptions) => Promise<LLMResponse>;
+}
+
+export type ReasoningEffort = 'none' | 'minimal' | 'low' | 'medium' | 'high';
+
+/**
+ * Endpoint and request parameters of the chat provider (environment
+ * defaults, overridable in the settings panel)
+ */
+export interface LLMSettings {
+  provider: LLMProviderId;
+  /** OpenAI-compatible base URL; empty = provider default */
+  baseURL: string;
+  model: string;
+  /** Only sent to models that support it (GPT-5, o-series) */
+  reasoningEffort: ReasoningEffort;
+  maxTokens: number;
+}
+
+/**
+ * Request parameters a model accepts
+ */
+export interface ModelCapabilities {
+  reasoningEffort: boolean;
+  /** GPT-5 and o-series models reject max_tokens */
+  tokenLimitParam: 'max_completion_tokens' | 'max_tokens';
+}
+
+/** Failures a provider reports instead of answering; others fall back to demo mode */
+export type LLMErrorKind = 'auth' | 'rate-limit' | 'server' | 'bad-request' | 'network' | 'aborted';
+
+/**
+ * Body of POST /api/chat (the config travels serialized, so the server
+ * reads it as tolerantly as a saved configuration)
+ */
+export interface ChatProxyRequest {
+  message: string;
+  config: SerializedConfig;
+  history: ChatTurn[];
+  savedConfigurationNames: string[];
+  toolRounds?: ToolRound[];
+  /** Tuning the server may honour; endpoint and model are chosen by the server */
+  settings?: Partial<Pick<LLMSettings, 'reasoningEffort' | 'maxTokens'>>;
+  /** Answer as a stream of ChatStreamEvent lines (NDJSON) */
+  stream?: boolean;
+}
+
+export type ChatStreamEvent =
+  | { type: 'text'; delta: string }
+  | { type: 'function_call'; call: LLMFunctionCall }
+  | { type: 'done'; response: LLMResponse }
+  | ({ type: 'error' } & ChatProxyError);
+
+export interface ChatProxyError {
+  error: LLMErrorKind;
+  message: string;
+}
+
 // =============================================================================
 // AVAILABLE OPTIONS (for dropdowns/selections)
 // =============================================================================
@@ -165,34 +770,55 @@ export const AVAILABLE_COLORS: ColorOption[] = [
   { id: 'frozen-marina-bay-blue', name: 'Frozen Marina Bay Blau', hex: '#1c4d7a', type: 'frozen', price: 4500 },
 ];
 
+// Paint build-up per paint type
+export const PAINT_FINISHES: Record<ColorOption['type'], PaintFinish> = {
+  solid: { metalness: 0, roughness: 0.35, clearcoat: 1, clearcoatRoughness: 0.03, flake: 0, sheen: 0, colorShift: 0 },
+  metallic: { metalness: 0.6, roughness: 0.3, clearcoat: 1, clearcoatRoughness: 0.03, flake: 0.35, sheen: 0, colorShift: 0 },
+  individual: { metalness: 0.7, roughness: 0.25, clearcoat: 1, clearcoatRoughness: 0.02, flake: 0.5, sheen: 0, colorShift: 0.6 },
+  frozen: { metalness: 0.5, roughness: 0.55, clearcoat: 0.4, clearcoatRoughness: 0.6, flake: 0.15, sheen: 0.5, colorShift: 0 },
+};
+
 export const AVAILABLE_WHEELS: WheelOption[] = [
   // Standard (NOT allowed for M5!)
-  { id: 'standard-19', name: 'Standard Alufelgen 19"', size: 19, type: 'standard', price: 0 },
+  { id: 'standard-19', name: 'Standard Alufelgen 19"', size: 19, type: 'standard', price: 0,
+    finish: { hex: '#b9bcc1', metalness: 0.85, roughness: 0.3 }, design: { spokes: 5, style: 'single' } },
 
   // M Sport
-  { id: 'm-double-spoke-20', name: 'M Doppelspeiche 20"', size: 20, type: 'm-sport', price: 1800 },
-  { id: 'm-star-spoke-21', name: 'M Sternspeiche 21"', size: 21, type: 'm-sport', price: 2400 },
-  { id: 'm-y-spoke-21', name: 'M Y-Speiche 21"', size: 21, type: 'm-sport', price: 2800 },
+  { id: 'm-double-spoke-20', name: 'M Doppelspeiche 20"', size: 20, type: 'm-sport', price: 1800,
+    finish: { hex: '#2a2a2a', metalness: 0.9, roughness: 0.3 }, design: { spokes: 5, style: 'double' } },
+  { id: 'm-star-spoke-21', name: 'M Sternspeiche 21"', size: 21, type: 'm-sport', price: 2400,
+    finish: { hex: '#5b5e63', metalness: 0.85, roughness: 0.25 }, design: { spokes: 5, style: 'v' } },
+  { id: 'm-y-spoke-21', name: 'M Y-Speiche 21"', size: 21, type: 'm-sport', price: 2800,
+    finish: { hex: '#1c1c1e', metalness: 0.6, roughness: 0.55 }, design: { spokes: 5, style: 'y' } },
 
   // M Performance
-  { id: 'm-performance-forge-21', name: 'M Performance Geschmiedet 21"', size: 21, type: 'm-performance', price: 4200 },
+  { id: 'm-performance-forge-21', name: 'M Performance Geschmiedet 21"', size: 21, type: 'm-performance', price: 4200,
+    finish: { hex: '#8c7853', metalness: 0.9, roughness: 0.25 }, design: { spokes: 10, style: 'single' } },
 ];
 
+// Leather colours (hex = seat colour in the 3D scene)
 export const INTERIOR_COLORS = [
-  { id: 'black', name: 'Schwarz' },
-  { id: 'cognac', name: 'Cognac' },
-  { id: 'silverstone', name: 'Silverstone' },
-  { id: 'fiona-red', name: 'Fiona Rot' },
-  { id: 'ivory-white', name: 'Elfenbeinweiß' },
-  { id: 'alpine-white', name: 'Alpinweiß' },
+  { id: 'black', name: 'Schwarz', hex: '#1a1a1a' },
+  { id: 'cognac', name: 'Cognac', hex: '#8a4b2a' },
+  { id: 'silverstone', name: 'Silverstone', hex: '#b5b1a8' },
+  { id: 'fiona-red', name: 'Fiona Rot', hex: '#7a1f22' },
+  { id: 'ivory-white', name: 'Elfenbeinweiß', hex: '#e6dcc6' },
+  { id: 'alpine-white', name: 'Alpinweiß', hex: '#f0f0ec' },
 ];
 
-export const TRIM_OPTIONS = [
-  { id: 'aluminum', name: 'Aluminium Rhombicle' },
-  { id: 'wood', name: 'Edelholz Eiche' },
-  { id: 'carbon', name: 'M Carbon' },
+export const TRIM_OPTIONS: Array<{ id: InteriorConfig['trim']; name: string; finish: SurfaceFinish }> = [
+  { id: 'aluminum', name: 'Aluminium Rhombicle', finish: { hex: '#a9acb1', metalness: 0.9, roughness: 0.35 } },
+  { id: 'wood', name: 'Edelholz Eiche', finish: { hex: '#6b4527', metalness: 0, roughness: 0.45 } },
+  { id: 'carbon', name: 'M Carbon', finish: { hex: '#1b1b1e', metalness: 0.4, roughness: 0.3 } },
 ];
 
+// Brake caliper paint per brake system
+export const CALIPER_FINISHES: Record<CarConfig['brakes'], SurfaceFinish> = {
+  standard: { hex: '#3a3c40', metalness: 0.5, roughness: 0.45 },
+  performance: { hex: '#0066cc', metalness: 0.7, roughness: 0.3 },
+  ceramic: { hex: '#c9a227', metalness: 0.7, roughness: 0.3 },
+};
+
 export const AVAILABLE_GRILL_COLORS: GrillColorOption[] = [
   { id: 'chrome', name: 'Chrom', hex: '#C0C0C0', price: 0 },
   { id: 'black-high-gloss', name: 'Schwarz Hochglanz', hex: '#0a0a0a', price: 350 },
@@ -201,6 +827,60 @@ export const AVAILABLE_GRILL_COLORS: GrillColorOption[] = [
   { id: 'gold-bronze', name: 'Gold Bronze', hex: '#8B7355', price: 850 },
 ];
 
+export const AVAILABLE_PACKAGES: PackageOption[] = [
+  // Performance (via performancePackage)
+  {
+    id: 'performance',
+    name: 'M Performance',
+    description: 'M Performance Bremsanlage und sportliche Abstimmung',
+    kind: 'performance',
+    price: 8000,
+    includes: [
+      { field: 'brakes', value: 'performance', without: 'standard' },
+    ],
+    mandatory: [],
+  },
+  {
+    id: 'competition',
+    name: 'M Competition',
+    description: 'Mehr Leistung, M Sternspeiche 21" und M Performance Bremsanlage',
+    kind: 'performance',
+    price: 12000,
+    includes: [
+      { field: 'brakes', value: 'performance', without: 'standard' },
+      { field: 'wheels', value: 'm-star-spoke-21', without: 'm-double-spoke-20' },
+    ],
+    mandatory: [],
+  },
+
+  // Add-on packages (via packages)
+  {
+    id: 'comfort',
+    name: 'Comfort Paket',
+    description: 'Extended Merino Leder und Harman Kardon Sound',
+    kind: 'addon',
+    price: 4500,
+    includes: [
+      { field: 'interior.leather', value: 'extended-merino', without: 'merino' },
+      { field: 'sound', value: 'harman-kardon', without: 'standard' },
+    ],
+    mandatory: [],
+  },
+  {
+    id: 'technology',
+    name: 'Technology Paket',
+    description: 'Driving Assistant Professional, erfordert BMW Laserlicht',
+    kind: 'addon',
+    price: 1900,
+    includes: [
+      { field: 'drivingAssistant', value: 'pro', without: 'plus' },
+    ],
+    mandatory: [
+      { field: 'lights', value: 'laser' },
+    ],
+  },
+];
+
 export const AVAILABLE_HOOD_PATTERNS: HoodPatternOption[] = [
   { id: 'standard', name: 'Standard', description: 'Unifarben ohne Muster', price: 0 },
   { id: 'carbon-fiber', name: 'Carbon Fiber', description: 'Sichtbare Carbonfaser-Optik', price: 2800 },
@@ -19,7 +19,7 @@ const __dirname = dirname(__filename);
 // Load environment variables
 dotenv.config({ path: join(__dirname, '.env') });
 
-const API_KEY = process.env.VITE_OPENAI_API_KEY;
+const API_KEY = process.env.OPENAI_API_KEY;
 
 console.log('🔧 BMW M5 Configurator - OpenAI Integration Test\n');
 console.log('='.repeat(60));
@@ -28,8 +28,8 @@ console.log('='.repeat(60));
 if (!API_KEY) {
   console.error('❌ ERROR: No API key found!');
   console.error('');
-  console.error('Please set VITE_OPENAI_API_KEY in your .env file:');
-  console.error('  VITE_OPENAI_API_KEY=sk-your-api-key-here');
+  console.error('Please set OPENAI_API_KEY in your .env file:');
+  console.error('  OPENAI_API_KEY=sk-your-api-key-here');
   console.error('');
   console.error('Get your API key from: https://platform.openai.com/api-keys');
   process.exit(1);
@@ -1,10 +1,18 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
+import { chatProxy } from './server/vitePlugin'
 
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react()],
+export default defineConfig(({ mode, isSsrBuild }) => ({
+  // All .env variables (not only VITE_*) stay on the server side of the chat proxy
+  plugins: [react(), chatProxy(loadEnv(mode, process.cwd(), ''))],
   server: {
     port: 5176,
   },
-})
+  build: {
+    // The server bundle (npm run build:server) serves dist/ and needs no assets of its own
+    copyPublicDir: !isSsrBuild,
+  },
+  // ...and bundles its dependencies (openai, Gemini SDK), so it runs without node_modules
+  ...(isSsrBuild && { ssr: { noExternal: true } }),
+}))